@@ -0,0 +1,316 @@
+import { IAgentRuntime, ModelType, logger } from '@elizaos/core';
+import { HyperfyService } from '../plugin-hyperfy/service';
+import { useModelWithBudget } from '../plugin-hyperfy/budget';
+import type { WorldActivity } from '../plugin-hyperfy/managers/activity-log-manager';
+
+// Also post the digest to X through the Twitter plugin (needs TWITTER_API_KEY)
+const DIGEST_POST_TO_X = process.env.DIGEST_POST_TO_X !== 'false';
+// Visitors are only counted unless this is set; topics never carry names
+const DIGEST_MENTION_VISITORS = process.env.DIGEST_MENTION_VISITORS === 'true';
+// Past digests shown to the model so it doesn't write about the same things again
+const DIGEST_HISTORY_SIZE = parseInt(process.env.DIGEST_HISTORY_SIZE || '14', 10);
+// The Twitter plugin's own settings, so the digest keeps to the same pace on X
+const TWITTER_POST_INTERVAL = parseInt(process.env.TWITTER_POST_INTERVAL || '1440', 10); // minutes
+const TWITTER_MAX_TWEET_LENGTH = parseInt(process.env.TWITTER_MAX_TWEET_LENGTH || '280', 10);
+const TWITTER_DRY_RUN = process.env.TWITTER_DRY_RUN === 'true';
+
+const HISTORY_LIMIT = 30;
+const X_POSTED_CACHE_KEY = 'hyperfy/digest-x-posted-at'; // shared, so digests together keep to TWITTER_POST_INTERVAL
+const MAX_WINDOW_MS = 7 * 24 * 60 * 60 * 1000; // as far back as the activity log goes
+const MAX_TOPICS = 20;
+const DISCORD_MESSAGE_LIMIT = 2000;
+
+export type DigestRecord = {
+  postedAt: number;
+  /** Start of the activity the digest covered. */
+  since: number;
+  discord: string | null;
+  /** Null when it wasn't posted to X. */
+  tweet: string | null;
+  topics: string[];
+};
+
+export type Digest = {
+  since: number;
+  text: string;
+  tweet: string | null;
+  topics: string[];
+};
+
+export type DigestOptions = {
+  /** Write only in this language (e.g. "Japanese"). */
+  language?: string;
+  /** Use the large model instead of the small one. */
+  large?: boolean;
+};
+
+type TweetSender = {
+  sendTweet(text: string, replyToTweetId?: string): Promise<{ data?: { data?: { id?: string } } }>;
+};
+
+/** The parts of the Twitter plugin's service the digest uses. */
+type TwitterService = {
+  twitterClient?: { client?: { twitterClient?: TweetSender } };
+};
+
+export type WorldSummary = {
+  world: string;
+  visitors: number;
+  firstTimeVisitors: number;
+  visitorNames?: string[];
+  conversations: number;
+  topics: string[];
+  builds: Record<string, number>;
+  built: string[];
+  tours: { tour: string; participants: number; stops: number; completed: boolean }[];
+};
+
+/**
+ * Turns what actually happened in the worlds (from each session's
+ * ActivityLogManager) into a post. Posts are grounded in a summary of the
+ * activity log, never invented, and past digests are kept so the next one
+ * talks about something new. Each scheduled digest (see DiscordAutoPostManager)
+ * has its own history, named by `id`.
+ */
+export class WorldDigest {
+  private runtime: IAgentRuntime;
+  private id: string;
+
+  constructor(runtime: IAgentRuntime, id: string) {
+    this.runtime = runtime;
+    this.id = id;
+  }
+
+  private getCacheKey(): string {
+    return `hyperfy/digest-history/${this.id}`;
+  }
+
+  async getHistory(): Promise<DigestRecord[]> {
+    try {
+      return (await this.runtime.getCache<DigestRecord[]>(this.getCacheKey())) || [];
+    } catch (error) {
+      logger.error('[WorldDigest] Failed to load the digest history:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Writes up the activity since the last digest (or over `windowMs` if there
+   * wasn't one). Returns null when nothing happened or the model couldn't
+   * write it.
+   */
+  async compose(windowMs: number, options: DigestOptions = {}): Promise<Digest | null> {
+    const history = await this.getHistory();
+    const now = Date.now();
+    const lastPostedAt = history.length ? history[history.length - 1].postedAt : 0;
+    const since = Math.max(lastPostedAt || now - windowMs, now - MAX_WINDOW_MS);
+
+    const summaries = this.summarizeActivity(since);
+    if (!summaries.length) {
+      logger.info('[WorldDigest] Nothing happened in the worlds since the last digest');
+      return null;
+    }
+
+    const recent = history.slice(-DIGEST_HISTORY_SIZE);
+    const response = await useModelWithBudget(this.runtime, 'discord', options.large ? ModelType.OBJECT_LARGE : ModelType.OBJECT_SMALL, {
+      prompt: digestTemplate(this.runtime, summaries, recent, since, options.language),
+    });
+    if (!response || typeof response !== 'object' || typeof response.discord !== 'string' || !response.discord.trim()) {
+      logger.warn('[WorldDigest] Unexpected digest from the model:', response);
+      return null;
+    }
+
+    const tweet = typeof response.tweet === 'string' && response.tweet.trim()
+      ? clip(response.tweet.trim(), TWITTER_MAX_TWEET_LENGTH)
+      : null;
+    const topics = Array.isArray(response.topics)
+      ? response.topics.filter((topic: unknown): topic is string => typeof topic === 'string' && !!topic.trim()).slice(0, MAX_TOPICS)
+      : [];
+
+    return {
+      since,
+      text: clip(response.discord.trim(), DISCORD_MESSAGE_LIMIT),
+      tweet,
+      topics,
+    };
+  }
+
+  /**
+   * Posts the digest's tweet to X, at most once per TWITTER_POST_INTERVAL.
+   * Text only: the Twitter plugin can't upload media yet. Returns whether it
+   * was posted.
+   */
+  async publishToX(digest: Digest): Promise<boolean> {
+    if (!DIGEST_POST_TO_X || !digest.tweet) return false;
+
+    const twitter = this.runtime.getService('twitter') as TwitterService | null;
+    const sender = twitter?.twitterClient?.client?.twitterClient;
+    if (!sender) {
+      logger.debug('[WorldDigest] Twitter plugin not loaded, not posting to X');
+      return false;
+    }
+
+    const lastTweetAt = (await this.runtime.getCache<number>(X_POSTED_CACHE_KEY)) ?? 0;
+    const waitMs = lastTweetAt + TWITTER_POST_INTERVAL * 60 * 1000 - Date.now();
+    if (waitMs > 0) {
+      logger.info(`[WorldDigest] Posted to X ${Math.round((Date.now() - lastTweetAt) / 60000)} min ago, skipping X for this digest`);
+      return false;
+    }
+
+    if (TWITTER_DRY_RUN) {
+      logger.info(`[WorldDigest] Dry run, would post to X: ${digest.tweet}`);
+      return false;
+    }
+
+    try {
+      const result = await sender.sendTweet(digest.tweet);
+      logger.info(`[WorldDigest] Posted to X (${result?.data?.data?.id ?? 'unknown id'})`);
+      await this.runtime.setCache<number>(X_POSTED_CACHE_KEY, Date.now());
+      return true;
+    } catch (error) {
+      logger.error('[WorldDigest] Failed to post to X:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Adds a posted digest to the history.
+   */
+  async recordPosted(digest: Digest, posted: { discord: boolean; x: boolean }): Promise<void> {
+    const history = await this.getHistory();
+    history.push({
+      postedAt: Date.now(),
+      since: digest.since,
+      discord: posted.discord ? digest.text : null,
+      tweet: posted.x ? digest.tweet : null,
+      topics: digest.topics,
+    });
+    try {
+      await this.runtime.setCache<DigestRecord[]>(this.getCacheKey(), history.slice(-Math.max(DIGEST_HISTORY_SIZE, HISTORY_LIMIT)));
+    } catch (error) {
+      logger.error('[WorldDigest] Failed to save the digest history:', error);
+    }
+  }
+
+  /**
+   * Boils each world's activity down to counts and topics for a prompt.
+   * Worlds where nothing happened are left out.
+   */
+  summarizeActivity(since: number): WorldSummary[] {
+    const service = this.runtime.getService<HyperfyService>(HyperfyService.serviceType);
+    if (!service) return [];
+
+    const summaries: WorldSummary[] = [];
+    for (const session of service.getSessions()) {
+      const activities: WorldActivity[] = session.getActivityLogManager()?.getSince(since) ?? [];
+      if (!activities.length) continue;
+
+      const entry = session.currentWsUrl ? service.getWorldDirectory().findByUrl(session.currentWsUrl) : null;
+      const visitors = new Set<string>();
+      const firstTime = new Set<string>();
+      const topics = new Set<string>();
+      const builds: Record<string, number> = {};
+      const built = new Set<string>();
+      const tours: WorldSummary['tours'] = [];
+      let conversations = 0;
+
+      for (const activity of activities) {
+        switch (activity.type) {
+          case 'visit':
+            visitors.add(activity.name);
+            if (activity.firstVisit) firstTime.add(activity.name);
+            break;
+          case 'conversation':
+            conversations++;
+            activity.topics.forEach((topic) => topics.add(topic));
+            break;
+          case 'build':
+            builds[activity.action] = (builds[activity.action] ?? 0) + 1;
+            if (activity.action === 'import' || activity.action === 'duplicate') built.add(activity.target);
+            break;
+          case 'tour':
+            tours.push({ tour: activity.tour, participants: activity.participants, stops: activity.stops, completed: activity.completed });
+            break;
+        }
+      }
+
+      summaries.push({
+        world: entry?.name ?? 'the world',
+        visitors: visitors.size,
+        firstTimeVisitors: firstTime.size,
+        ...(DIGEST_MENTION_VISITORS ? { visitorNames: [...visitors] } : {}),
+        conversations,
+        topics: [...topics].slice(0, MAX_TOPICS),
+        builds,
+        built: [...built],
+        tours,
+      });
+    }
+    return summaries;
+  }
+}
+
+/**
+ * A JPEG panorama of the default world, or null if the agent isn't in it or
+ * the snapshot failed.
+ */
+export async function takeWorldPanorama(runtime: IAgentRuntime): Promise<Buffer | null> {
+  const session = runtime.getService<HyperfyService>(HyperfyService.serviceType)?.getDefaultSession();
+  if (!session?.isConnected()) return null;
+  try {
+    const dataUrl = await session.getPuppeteerManager().snapshotEquirectangular();
+    return Buffer.from(dataUrl.replace(/^data:image\/\w+;base64,/, ''), 'base64');
+  } catch (error) {
+    logger.warn('[WorldDigest] Failed to take a panorama, posting without it:', error);
+    return null;
+  }
+}
+
+const digestTemplate = (runtime: IAgentRuntime, summaries: WorldSummary[], history: DigestRecord[], since: number, language?: string) => {
+  const name = runtime.character.name;
+  const style = runtime.character.style?.post?.map((line) => `- ${line}`).join('\n') ?? '';
+  const previous = history.length
+    ? history.map((record) => `- ${new Date(record.postedAt).toISOString().slice(0, 10)}: ${record.discord ?? record.tweet ?? ''} (topics: ${record.topics.join(', ') || 'none'})`).join('\n')
+    : 'None yet.';
+
+  return `
+<task>Write ${name}'s post about what happened in the virtual worlds ${name} lives in since ${new Date(since).toISOString()}.</task>
+
+<activity>
+${JSON.stringify(summaries, null, 2)}
+</activity>
+
+<previous_posts>
+${previous}
+</previous_posts>
+
+<style>
+${style}
+</style>
+
+<instructions>
+- Only write about what is in <activity>. Never invent visitors, conversations, builds, tours or events that aren't there.
+- "visitors" and "firstTimeVisitors" are counts. Only name people if "visitorNames" is given.
+- Pick the one or two most interesting things. Prefer topics, builds and tours that don't appear in <previous_posts>, and don't reuse their wording or openings.
+- If little happened, keep it short and honest rather than padding it out.
+- "discord": the Discord post, 2-5 sentences, no hashtags.
+- "tweet": the same news for X, a single post of at most ${TWITTER_MAX_TWEET_LENGTH} characters, at most one hashtag.
+- "topics": a few short phrases for what the post is about, to avoid repeating them next time.${language ? `\n- Write "discord" and "tweet" only in ${language}.` : ''}
+</instructions>
+
+Return a JSON object in this form:
+
+\`\`\`json
+{
+  "discord": "<string>",
+  "tweet": "<string>",
+  "topics": ["<string>"]
+}
+\`\`\`
+
+Only return the JSON object. Do not include any extra text or comments.`;
+};
+
+function clip(text: string, limit: number): string {
+  return text.length > limit ? `${text.slice(0, limit - 1)}…` : text;
+}
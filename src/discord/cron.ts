@@ -0,0 +1,150 @@
+type FieldSpec = { name: string; min: number; max: number; names?: string[] };
+
+const FIELDS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'] },
+  // 0 and 7 are both Sunday
+  { name: 'day of week', min: 0, max: 7, names: ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] },
+];
+
+const SHORTHANDS: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+  '@yearly': '0 0 1 1 *',
+};
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const MINUTE_MS = 60000;
+const SEARCH_LIMIT_MS = 366 * 24 * 60 * MINUTE_MS;
+
+type TimeParts = { month: number; day: number; weekday: number; hour: number; minute: number };
+
+/**
+ * A five-field cron expression (minute, hour, day of month, month, day of
+ * week) evaluated in an IANA time zone. Supports `*`, lists, ranges, steps,
+ * month and weekday names, and the `@hourly`/`@daily`/`@weekly`/`@monthly`/
+ * `@yearly` shorthands. As in Vixie cron, when both day fields are restricted
+ * a day matching either one runs.
+ */
+export class CronSchedule {
+  readonly expression: string;
+  readonly timeZone: string;
+  private fields: Set<number>[];
+  private dayRestricted: boolean;
+  private weekdayRestricted: boolean;
+  private formatter: Intl.DateTimeFormat;
+
+  constructor(expression: string, timeZone: string) {
+    this.expression = expression.trim();
+    this.timeZone = timeZone;
+    const parts = (SHORTHANDS[this.expression.toLowerCase()] ?? this.expression).split(/\s+/);
+    if (parts.length !== FIELDS.length) {
+      throw new Error(`expected ${FIELDS.length} fields in "${expression}"`);
+    }
+    this.fields = parts.map((part, i) => parseField(part, FIELDS[i]));
+    if (this.fields[4].delete(7)) this.fields[4].add(0);
+    // As in standard cron, a field starting with `*` (`*`, `*/2`) doesn't restrict the day
+    this.dayRestricted = !parts[2].startsWith('*');
+    this.weekdayRestricted = !parts[4].startsWith('*');
+    // Throws a RangeError for unknown time zones
+    this.formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      month: 'numeric',
+      day: 'numeric',
+      weekday: 'short',
+      hour: 'numeric',
+      minute: 'numeric',
+    });
+  }
+
+  /**
+   * Whether the schedule runs in the minute containing `time`.
+   */
+  matches(time: number): boolean {
+    const parts = this.getParts(time);
+    return this.matchesDay(parts) && this.fields[1].has(parts.hour) && this.fields[0].has(parts.minute);
+  }
+
+  /**
+   * The first minute strictly after `after` that the schedule runs in, or
+   * null if there is none within a year (e.g. `0 0 31 2 *`).
+   */
+  next(after: number): number | null {
+    let time = Math.floor(after / MINUTE_MS) * MINUTE_MS + MINUTE_MS;
+    const limit = after + SEARCH_LIMIT_MS;
+    while (time <= limit) {
+      const parts = this.getParts(time);
+      if (!this.matchesDay(parts)) {
+        // On to (roughly) the next local midnight; DST shifts are caught by the hour check
+        time += ((23 - parts.hour) * 60 + (60 - parts.minute)) * MINUTE_MS;
+      } else if (!this.fields[1].has(parts.hour)) {
+        time += (60 - parts.minute) * MINUTE_MS;
+      } else if (!this.fields[0].has(parts.minute)) {
+        time += MINUTE_MS;
+      } else {
+        return time;
+      }
+    }
+    return null;
+  }
+
+  private matchesDay(parts: TimeParts): boolean {
+    if (!this.fields[3].has(parts.month)) return false;
+    const day = this.fields[2].has(parts.day);
+    const weekday = this.fields[4].has(parts.weekday);
+    return this.dayRestricted && this.weekdayRestricted ? day || weekday : day && weekday;
+  }
+
+  private getParts(time: number): TimeParts {
+    const parts: Record<string, string> = {};
+    for (const part of this.formatter.formatToParts(time)) parts[part.type] = part.value;
+    return {
+      month: Number(parts.month),
+      day: Number(parts.day),
+      weekday: WEEKDAYS.indexOf(parts.weekday),
+      hour: Number(parts.hour),
+      minute: Number(parts.minute),
+    };
+  }
+}
+
+function parseField(text: string, spec: FieldSpec): Set<number> {
+  const values = new Set<number>();
+  const invalid = () => new Error(`invalid ${spec.name} field "${text}"`);
+  const parseValue = (value: string): number => {
+    const named = spec.names?.indexOf(value.toLowerCase()) ?? -1;
+    const number = named >= 0 ? named + (spec.min === 1 ? 1 : 0) : /^\d+$/.test(value) ? Number(value) : NaN;
+    if (!Number.isInteger(number) || number < spec.min || number > spec.max) throw invalid();
+    return number;
+  };
+
+  for (const part of text.split(',')) {
+    const [range, stepText, extra] = part.split('/');
+    if (extra !== undefined || !range) throw invalid();
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) throw invalid();
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = spec.min;
+      end = spec.max;
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      start = parseValue(from);
+      end = parseValue(to);
+      if (end < start) throw invalid();
+    } else {
+      start = parseValue(range);
+      // `5/15` means every 15 starting at 5
+      end = stepText === undefined ? start : spec.max;
+    }
+    for (let value = start; value <= end; value += step) values.add(value);
+  }
+  return values;
+}
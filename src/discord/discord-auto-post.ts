@@ -1,15 +1,84 @@
+import fs from 'fs/promises';
+import path from 'path';
 import { IAgentRuntime, ModelType, logger } from '@elizaos/core';
 import { Client, TextChannel, GatewayIntentBits } from 'discord.js';
+import { getBudgetManager, useModelWithBudget } from '../plugin-hyperfy/budget';
+import { WorldDigest, takeWorldPanorama } from '../digest/world-digest';
+import { CronSchedule } from './cron';
+
+const DISCORD_SCHEDULES_DIR = process.env.DISCORD_SCHEDULES_DIR || path.join(process.cwd(), 'schedules');
+const DISCORD_POST_CHANNEL_ID = process.env.DISCORD_POST_CHANNEL_ID;
+const DISCORD_POST_TIMEZONE = process.env.DISCORD_POST_TIMEZONE || Intl.DateTimeFormat().resolvedOptions().timeZone;
+// Log what would be posted instead of posting it
+const DISCORD_POST_DRY_RUN = process.env.DISCORD_POST_DRY_RUN === 'true';
+// The latest post missed while the agent was down is made up on startup, if it was due
+// this recently (minutes); 0 makes it up however late it is
+const DISCORD_POST_CATCH_UP_MINUTES = parseInt(process.env.DISCORD_POST_CATCH_UP_MINUTES || '0', 10);
+const DIGEST_PANORAMA_ENABLED = process.env.DIGEST_PANORAMA_ENABLED === 'true';
+// Deprecated: the fixed interval from before schedule files, still applied to the default job
+const DISCORD_POST_INTERVAL_HOURS = process.env.DISCORD_POST_INTERVAL_HOURS;
+
+const TICK_INTERVAL_MS = 30000;
+const RECENT_POSTS = 10; // per job, shown to the model as {{recentPosts}}
+const DEFAULT_ACTIVITY_DAYS = 7;
+const DIGEST_FIRST_WINDOW_MS = 24 * 60 * 60 * 1000; // what a digest covers when it has never run
+const DISCORD_MESSAGE_LIMIT = 2000;
+
+export type PostJob = {
+  id: string;
+  name?: string;
+  /** Five-field cron expression, e.g. `0 12 * * mon` (see CronSchedule). */
+  cron: string;
+  /** IANA time zone the cron expression is read in; DISCORD_POST_TIMEZONE otherwise. */
+  timezone?: string;
+  /** Channel ID, or `$ENV_VAR` naming one; DISCORD_POST_CHANNEL_ID if left out. */
+  channel?: string;
+  /** `digest` writes up world activity (see WorldDigest); `prompt` fills in `prompt`. */
+  type?: 'digest' | 'prompt';
+  prompt?: string;
+  language?: string;
+  model?: 'small' | 'large';
+  /** Attach a panorama of the main world. */
+  snapshot?: boolean;
+  /** Digests only: also post to X. */
+  postToX?: boolean;
+  /** Days of world activity a prompt sees as {{activity}}. */
+  activityDays?: number;
+  dryRun?: boolean;
+  enabled?: boolean;
+};
+
+type JobState = {
+  /** The scheduled time of the last run, claimed before posting. */
+  lastRunAt: number;
+  recentPosts: string[];
+};
+
+type ScheduledJob = {
+  job: PostJob;
+  schedule: CronSchedule;
+  channelId: string;
+  state: JobState;
+  nextRunAt: number | null;
+  running: boolean;
+};
+
+// What auto-posting did before there were schedule files
+const DEFAULT_JOB: PostJob = { id: 'daily-digest', name: 'Daily digest', cron: '0 12 * * *', type: 'digest' };
 
 /**
  * Discord Auto-Post Manager
- * Posts autonomous messages to Discord at configured intervals
+ * Runs scheduled posts: each job has a cron expression, a target channel and
+ * either the world activity digest or its own prompt template. Jobs are JSON
+ * files in DISCORD_SCHEDULES_DIR (default `./schedules`), one job per file.
+ * When each job last ran is kept in the database, so restarts neither post
+ * twice nor lose a post that came due while the agent was down.
  */
 export class DiscordAutoPostManager {
   private runtime: IAgentRuntime;
   private client: Client | null = null;
-  private postInterval: NodeJS.Timeout | null = null;
-  private lastPostTime: number = 0;
+  private ticker: NodeJS.Timeout | null = null;
+  private jobs: ScheduledJob[] = [];
 
   constructor(runtime: IAgentRuntime) {
     this.runtime = runtime;
@@ -17,9 +86,7 @@ export class DiscordAutoPostManager {
 
   async start(): Promise<void> {
     const token = process.env.DISCORD_API_TOKEN;
-    const channelId = process.env.DISCORD_POST_CHANNEL_ID;
     const enableAutoPost = process.env.DISCORD_ENABLE_AUTO_POST === 'true';
-    const intervalHours = parseInt(process.env.DISCORD_POST_INTERVAL_HOURS || '24', 10);
 
     if (!token) {
       logger.warn('[DiscordAutoPost] No DISCORD_API_TOKEN found, skipping auto-post');
@@ -31,13 +98,12 @@ export class DiscordAutoPostManager {
       return;
     }
 
-    if (!channelId) {
-      logger.warn('[DiscordAutoPost] No DISCORD_POST_CHANNEL_ID set, skipping auto-post');
+    const jobs = await loadJobs();
+    if (!jobs.length) {
+      logger.warn('[DiscordAutoPost] No scheduled posts to run, skipping auto-post');
       return;
     }
 
-    logger.info(`[DiscordAutoPost] Starting with ${intervalHours}h interval to channel ${channelId}`);
-
     // Create Discord client
     this.client = new Client({
       intents: [
@@ -59,25 +125,43 @@ export class DiscordAutoPostManager {
         }
       });
 
-      // Start the posting interval
-      const intervalMs = intervalHours * 60 * 60 * 1000;
-
-      // Post immediately on startup (optional - can be removed)
-      // await this.postMessage(channelId);
+      const now = Date.now();
+      for (const { job, schedule, channelId } of jobs) {
+        const scheduled: ScheduledJob = { job, schedule, channelId, state: await this.loadState(job), nextRunAt: null, running: false };
+        this.jobs.push(scheduled);
 
-      // Schedule periodic posts
-      this.postInterval = setInterval(async () => {
-        await this.postMessage(channelId);
-      }, intervalMs);
-
-      // Also do an initial post after a short delay (5 minutes after startup)
-      setTimeout(async () => {
-        const timeSinceLastPost = Date.now() - this.lastPostTime;
-        if (timeSinceLastPost > intervalMs) {
-          await this.postMessage(channelId);
+        if (!scheduled.state.lastRunAt) {
+          // A new job starts counting from now rather than posting straight away
+          scheduled.state.lastRunAt = now;
+          await this.saveState(scheduled);
+        }
+        // Only the latest missed run is made up; a post per missed run would flood the channel
+        let firstMissed: number | null = null;
+        let latestMissed: number | null = null;
+        let missedCount = 0;
+        for (let at = schedule.next(scheduled.state.lastRunAt); at !== null && at <= now; at = schedule.next(at)) {
+          firstMissed ??= at;
+          latestMissed = at;
+          missedCount++;
         }
-      }, 5 * 60 * 1000);
+        if (latestMissed !== null) {
+          if (missedCount > 1) {
+            logger.warn(`[DiscordAutoPost] "${job.id}" skipped ${missedCount - 1} run(s) missed while the agent was down, from ${new Date(firstMissed!).toISOString()}`);
+          }
+          if (!DISCORD_POST_CATCH_UP_MINUTES || now - latestMissed <= DISCORD_POST_CATCH_UP_MINUTES * 60 * 1000) {
+            logger.info(`[DiscordAutoPost] "${job.id}" was due at ${new Date(latestMissed).toISOString()}, posting it now`);
+            scheduled.nextRunAt = latestMissed;
+          } else {
+            logger.warn(`[DiscordAutoPost] "${job.id}" skipped its run at ${new Date(latestMissed).toISOString()}, more than ${DISCORD_POST_CATCH_UP_MINUTES} minutes ago`);
+          }
+        }
+        scheduled.nextRunAt ??= schedule.next(now);
+        const next = scheduled.nextRunAt !== null ? new Date(scheduled.nextRunAt).toISOString() : 'never';
+        logger.info(`[DiscordAutoPost] Scheduled "${job.id}" (${job.cron} ${schedule.timeZone}) to channel ${channelId}, next at ${next}${isDryRun(job) ? ' [dry run]' : ''}`);
+      }
 
+      this.ticker = setInterval(() => this.tick(), TICK_INTERVAL_MS);
+      this.tick();
       logger.info('[DiscordAutoPost] Auto-post scheduler started');
     } catch (error) {
       logger.error('[DiscordAutoPost] Failed to start:', error);
@@ -85,10 +169,11 @@ export class DiscordAutoPostManager {
   }
 
   async stop(): Promise<void> {
-    if (this.postInterval) {
-      clearInterval(this.postInterval);
-      this.postInterval = null;
+    if (this.ticker) {
+      clearInterval(this.ticker);
+      this.ticker = null;
     }
+    this.jobs = [];
     if (this.client) {
       this.client.destroy();
       this.client = null;
@@ -96,50 +181,102 @@ export class DiscordAutoPostManager {
     logger.info('[DiscordAutoPost] Stopped');
   }
 
-  private async postMessage(channelId: string): Promise<void> {
+  private tick(): void {
+    const now = Date.now();
+    for (const scheduled of this.jobs) {
+      if (scheduled.running || scheduled.nextRunAt === null || scheduled.nextRunAt > now) continue;
+      this.run(scheduled, scheduled.nextRunAt).catch((error) => {
+        logger.error(`[DiscordAutoPost] "${scheduled.job.id}" failed:`, error);
+      });
+    }
+  }
+
+  private async run(scheduled: ScheduledJob, dueAt: number): Promise<void> {
+    scheduled.running = true;
+    try {
+      // Claim the run before posting: a crash mid-post must not post it again on restart
+      scheduled.state.lastRunAt = dueAt;
+      scheduled.nextRunAt = scheduled.schedule.next(Math.max(dueAt, Date.now()));
+      await this.saveState(scheduled);
+      await this.postMessage(scheduled);
+    } finally {
+      scheduled.running = false;
+    }
+  }
+
+  private async postMessage(scheduled: ScheduledJob): Promise<void> {
     if (!this.client) return;
+    const { job, channelId } = scheduled;
+
+    if (!getBudgetManager(this.runtime).allowsAutonomy()) {
+      logger.info(`[DiscordAutoPost] LLM budget is running low, skipping "${job.id}"`);
+      return;
+    }
 
     try {
       const channel = await this.client.channels.fetch(channelId);
       if (!channel || !(channel instanceof TextChannel)) {
-        logger.error('[DiscordAutoPost] Channel not found or not a text channel');
+        logger.error(`[DiscordAutoPost] Channel ${channelId} for "${job.id}" not found or not a text channel`);
         return;
       }
 
-      // Generate a post using the LLM
-      const content = await this.generatePost();
+      const digest = job.type === 'digest' ? new WorldDigest(this.runtime, job.id) : null;
+      const options = { language: job.language, large: job.model === 'large' };
+      const composed = digest ? await digest.compose(DIGEST_FIRST_WINDOW_MS, options) : null;
+      const content = digest ? composed?.text : await this.generatePost(scheduled);
       if (!content) {
-        logger.warn('[DiscordAutoPost] Failed to generate post content');
+        logger.info(`[DiscordAutoPost] Nothing to post for "${job.id}" this time`);
         return;
       }
 
-      await channel.send(content);
-      this.lastPostTime = Date.now();
-      logger.info(`[DiscordAutoPost] Posted: ${content.substring(0, 50)}...`);
+      const snapshot = job.snapshot ?? (job.type === 'digest' && DIGEST_PANORAMA_ENABLED);
+      const panorama = snapshot ? await takeWorldPanorama(this.runtime) : null;
+
+      if (isDryRun(job)) {
+        const extras = [panorama && 'panorama', composed?.tweet && job.postToX !== false && `tweet: ${composed.tweet}`].filter(Boolean);
+        logger.info(`[DiscordAutoPost] [dry run] "${job.id}" to #${channel.name}: ${content}${extras.length ? ` (${extras.join('; ')})` : ''}`);
+        return;
+      }
+
+      await channel.send({
+        content,
+        files: panorama ? [{ attachment: panorama, name: 'panorama.jpg' }] : [],
+        allowedMentions: { parse: [] },
+      });
+      logger.info(`[DiscordAutoPost] Posted "${job.id}": ${content.substring(0, 50)}...`);
+
+      scheduled.state.recentPosts = [...scheduled.state.recentPosts, content].slice(-RECENT_POSTS);
+      await this.saveState(scheduled);
+      if (digest && composed) {
+        const postedToX = job.postToX !== false && await digest.publishToX(composed);
+        await digest.recordPosted(composed, { discord: true, x: postedToX });
+      }
     } catch (error) {
-      logger.error('[DiscordAutoPost] Failed to post message:', error);
+      logger.error(`[DiscordAutoPost] Failed to post "${job.id}":`, error);
     }
   }
 
-  private async generatePost(): Promise<string | null> {
+  /**
+   * Fills in a prompt job's template and has the model write the post.
+   */
+  private async generatePost(scheduled: ScheduledJob): Promise<string | null> {
+    const { job, schedule, state } = scheduled;
     try {
-      const prompt = `You are Coo, a friendly AI agent. Generate a short, engaging message to post on Discord.
-The message should be:
-- Friendly and conversational
-- About 1-3 sentences
-- Can be a greeting, an interesting thought, a question to the community, or sharing what you're up to
-- Sometimes in English, sometimes in Japanese (mix it up)
-- NOT include any hashtags or promotional content
-
-Examples of good posts:
-- "Good morning everyone! Hope you're all having a great day. What's everyone working on today?"
-- "おはよう！今日も元気にやっていきましょう〜"
-- "Just been exploring some new virtual worlds. The creativity out there is amazing!"
-- "Anyone else love the feeling of discovering something new? What have you discovered lately?"
-
-Generate a single post message now:`;
-
-      const response = await this.runtime.useModel(ModelType.TEXT_SMALL, {
+      const now = Date.now();
+      const activitySince = now - (job.activityDays ?? DEFAULT_ACTIVITY_DAYS) * 24 * 60 * 60 * 1000;
+      const activity = new WorldDigest(this.runtime, job.id).summarizeActivity(activitySince);
+      const values: Record<string, string> = {
+        agentName: this.runtime.character.name,
+        date: new Intl.DateTimeFormat('en-CA', { timeZone: schedule.timeZone, dateStyle: 'short' }).format(now),
+        weekday: new Intl.DateTimeFormat('en-US', { timeZone: schedule.timeZone, weekday: 'long' }).format(now),
+        language: job.language ?? 'English',
+        activity: activity.length ? JSON.stringify(activity, null, 2) : 'Nothing happened in the worlds.',
+        recentPosts: state.recentPosts.length ? state.recentPosts.map((post) => `- ${post}`).join('\n') : 'None yet.',
+      };
+      let prompt = job.prompt!.replace(/\{\{(\w+)\}\}/g, (match, key) => values[key] ?? match);
+      if (job.language) prompt += `\n\nWrite the post only in ${job.language}.`;
+
+      const response = await useModelWithBudget(this.runtime, 'discord', job.model === 'large' ? ModelType.TEXT_LARGE : ModelType.TEXT_SMALL, {
         prompt,
       });
 
@@ -152,10 +289,99 @@ Generate a single post message now:`;
         content = content.slice(1, -1);
       }
 
-      return content || null;
+      return content ? content.slice(0, DISCORD_MESSAGE_LIMIT) : null;
     } catch (error) {
-      logger.error('[DiscordAutoPost] Failed to generate post:', error);
+      logger.error(`[DiscordAutoPost] Failed to generate "${job.id}":`, error);
       return null;
     }
   }
+
+  private async loadState(job: PostJob): Promise<JobState> {
+    try {
+      const stored = await this.runtime.getCache<JobState>(`discord/schedule/${job.id}`);
+      if (stored) return { lastRunAt: stored.lastRunAt ?? 0, recentPosts: stored.recentPosts ?? [] };
+    } catch (error) {
+      logger.error(`[DiscordAutoPost] Failed to load the state of "${job.id}":`, error);
+    }
+    return { lastRunAt: 0, recentPosts: [] };
+  }
+
+  private async saveState(scheduled: ScheduledJob): Promise<void> {
+    try {
+      await this.runtime.setCache<JobState>(`discord/schedule/${scheduled.job.id}`, scheduled.state);
+    } catch (error) {
+      logger.error(`[DiscordAutoPost] Failed to save the state of "${scheduled.job.id}":`, error);
+    }
+  }
+}
+
+/**
+ * The default job on the cadence DISCORD_POST_INTERVAL_HOURS asked for,
+ * as close as a cron expression gets. Null when it isn't set.
+ */
+function legacyDefaultJob(): PostJob | null {
+  if (!DISCORD_POST_INTERVAL_HOURS) return null;
+  const hours = parseInt(DISCORD_POST_INTERVAL_HOURS, 10);
+  let cron: string | null = null;
+  if (hours > 0 && hours < 24 && 24 % hours === 0) cron = `0 */${hours} * * *`;
+  else if (hours === 24) cron = DEFAULT_JOB.cron;
+  // Restarts on the 1st of every month, so months not divisible by the step get one short gap
+  else if (hours > 24 && hours % 24 === 0) cron = `0 12 */${hours / 24} * *`;
+
+  if (!cron) {
+    logger.warn(`[DiscordAutoPost] DISCORD_POST_INTERVAL_HOURS is deprecated and ${DISCORD_POST_INTERVAL_HOURS} has no cron equivalent; posting the daily digest at noon. Add a job file to ${DISCORD_SCHEDULES_DIR} instead.`);
+    return null;
+  }
+  logger.warn(`[DiscordAutoPost] DISCORD_POST_INTERVAL_HOURS is deprecated; running the default digest on "${cron}". Add a job file to ${DISCORD_SCHEDULES_DIR} instead.`);
+  return { ...DEFAULT_JOB, cron };
+}
+
+function isDryRun(job: PostJob): boolean {
+  return DISCORD_POST_DRY_RUN || job.dryRun === true;
+}
+
+/**
+ * Reads the job files, skipping disabled and invalid ones. With no job files
+ * at all, runs the daily digest to DISCORD_POST_CHANNEL_ID.
+ */
+async function loadJobs(dir: string = DISCORD_SCHEDULES_DIR): Promise<{ job: PostJob; schedule: CronSchedule; channelId: string }[]> {
+  let jobs: PostJob[] = [];
+  try {
+    const files = (await fs.readdir(dir)).filter((file) => file.endsWith('.json'));
+    for (const file of files) {
+      try {
+        const raw = JSON.parse(await fs.readFile(path.join(dir, file), 'utf8'));
+        jobs.push({ ...raw, id: raw.id || path.basename(file, '.json') });
+      } catch (error: any) {
+        logger.error(`[DiscordAutoPost] Skipping invalid schedule file ${file}: ${error.message}`);
+      }
+    }
+  } catch {
+    logger.debug(`[DiscordAutoPost] No schedules directory at ${dir}`);
+  }
+  if (!jobs.length) {
+    jobs = [legacyDefaultJob() ?? DEFAULT_JOB];
+  } else if (DISCORD_POST_INTERVAL_HOURS) {
+    logger.warn(`[DiscordAutoPost] DISCORD_POST_INTERVAL_HOURS is deprecated and ignored when there are schedule files in ${dir}`);
+  }
+
+  const loaded: { job: PostJob; schedule: CronSchedule; channelId: string }[] = [];
+  for (const job of jobs) {
+    if (job.enabled === false) continue;
+    try {
+      const type = job.type ?? (job.prompt ? 'prompt' : 'digest');
+      if (type === 'prompt' && !job.prompt) throw new Error('a prompt job needs a prompt');
+      const schedule = new CronSchedule(job.cron ?? '', job.timezone || DISCORD_POST_TIMEZONE);
+      const channelId = job.channel?.startsWith('$') ? process.env[job.channel.slice(1)] : (job.channel ?? DISCORD_POST_CHANNEL_ID);
+      if (!channelId) {
+        // Usually a job shipped for a channel this deployment doesn't have
+        logger.warn(`[DiscordAutoPost] Skipping schedule "${job.id}": ${job.channel ? `${job.channel} is not set` : 'no channel and no DISCORD_POST_CHANNEL_ID'}`);
+        continue;
+      }
+      loaded.push({ job: { ...job, type }, schedule, channelId });
+    } catch (error: any) {
+      logger.error(`[DiscordAutoPost] Skipping schedule "${job.id}": ${error.message}`);
+    }
+  }
+  return loaded;
 }
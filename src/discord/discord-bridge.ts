@@ -0,0 +1,270 @@
+import { IAgentRuntime, logger } from '@elizaos/core';
+import { Client, GatewayIntentBits, Message, TextChannel, escapeMarkdown } from 'discord.js';
+import { HyperfyService } from '../plugin-hyperfy/service';
+import type { WorldSession } from '../plugin-hyperfy/session';
+import { hyperfyEventType, type HyperfyChatMessagePayload } from '../plugin-hyperfy/events';
+
+const DISCORD_BRIDGE_CHANNEL_ID = process.env.DISCORD_BRIDGE_CHANNEL_ID;
+// World to bridge, by its name in HYPERFY_WORLDS; the default session otherwise
+const DISCORD_BRIDGE_WORLD = process.env.DISCORD_BRIDGE_WORLD;
+const DISCORD_BRIDGE_TO_DISCORD = process.env.DISCORD_BRIDGE_TO_DISCORD !== 'false';
+const DISCORD_BRIDGE_TO_WORLD = process.env.DISCORD_BRIDGE_TO_WORLD !== 'false';
+// World chat is batched into one Discord message at most this often (ms)
+const DISCORD_BRIDGE_FLUSH_MS = parseInt(process.env.DISCORD_BRIDGE_FLUSH_MS || '2000', 10);
+// Messages each Discord user may relay into the world per minute
+const DISCORD_BRIDGE_USER_LIMIT = parseInt(process.env.DISCORD_BRIDGE_USER_LIMIT || '6', 10);
+// Messages relayed into the world per minute, across all Discord users
+const DISCORD_BRIDGE_WORLD_LIMIT = parseInt(process.env.DISCORD_BRIDGE_WORLD_LIMIT || '30', 10);
+const DISCORD_BRIDGE_MAX_LENGTH = parseInt(process.env.DISCORD_BRIDGE_MAX_LENGTH || '300', 10);
+
+export const WORLD_PREFIX = '[Discord]';
+const RATE_WINDOW_MS = 60000;
+const MAX_QUEUED_LINES = 40; // world chat waiting for Discord; older lines are dropped past this
+const DISCORD_MESSAGE_LIMIT = 2000;
+const RATE_LIMITED_REACTION = '⏳';
+const ZERO_WIDTH_SPACE = '\u200b';
+
+type QueuedLine = { from: string; body: string };
+
+/**
+ * Relays chat between a Hyperfy world and one Discord channel, so people in
+ * Discord can talk with visitors without loading the 3D client. World chat is
+ * posted to Discord under the speaker's name, batched to stay inside Discord's
+ * rate limits. Discord messages appear in world chat as
+ * `[Discord] name: text`, rate limited per user and overall. Mentions can't
+ * ping anyone in either direction, and nothing is relayed back to where it
+ * came from.
+ */
+export class DiscordChatBridge {
+  private runtime: IAgentRuntime;
+  private client: Client | null = null;
+  private channel: TextChannel | null = null;
+  private queue: QueuedLine[] = [];
+  private dropped = 0;
+  private flushTimer: NodeJS.Timeout | null = null;
+  private userMessages: Map<string, number[]> = new Map();
+  private worldMessages: number[] = [];
+  private listening = false;
+
+  constructor(runtime: IAgentRuntime) {
+    this.runtime = runtime;
+  }
+
+  async start(): Promise<void> {
+    const token = process.env.DISCORD_API_TOKEN;
+    if (!token) {
+      logger.warn('[DiscordBridge] No DISCORD_API_TOKEN found, skipping the chat bridge');
+      return;
+    }
+    if (!DISCORD_BRIDGE_CHANNEL_ID) {
+      logger.warn('[DiscordBridge] No DISCORD_BRIDGE_CHANNEL_ID set, skipping the chat bridge');
+      return;
+    }
+    if (!DISCORD_BRIDGE_TO_DISCORD && !DISCORD_BRIDGE_TO_WORLD) {
+      logger.info('[DiscordBridge] Both directions are disabled');
+      return;
+    }
+
+    this.client = new Client({
+      intents: [
+        GatewayIntentBits.Guilds,
+        GatewayIntentBits.GuildMessages,
+        // Privileged: must also be enabled for the bot in the Discord developer portal
+        GatewayIntentBits.MessageContent,
+      ],
+    });
+
+    try {
+      await this.client.login(token);
+      await new Promise<void>((resolve) => {
+        if (this.client!.isReady()) {
+          resolve();
+        } else {
+          this.client!.once('ready', () => resolve());
+        }
+      });
+
+      const channel = await this.client.channels.fetch(DISCORD_BRIDGE_CHANNEL_ID);
+      if (!channel || !(channel instanceof TextChannel)) {
+        logger.error('[DiscordBridge] Bridge channel not found or not a text channel');
+        await this.stop();
+        return;
+      }
+      this.channel = channel;
+
+      if (DISCORD_BRIDGE_TO_WORLD) {
+        this.client.on('messageCreate', (message) => {
+          this.handleDiscordMessage(message).catch((error) => {
+            logger.error('[DiscordBridge] Failed to relay a Discord message:', error);
+          });
+        });
+      }
+      if (DISCORD_BRIDGE_TO_DISCORD && !this.listening) {
+        // Events can't be unregistered; once stopped the handler just returns
+        this.listening = true;
+        this.runtime.registerEvent<HyperfyChatMessagePayload>(hyperfyEventType.CHAT_MESSAGE, async (payload) => {
+          this.handleWorldChat(payload);
+        });
+      }
+
+      const directions = [DISCORD_BRIDGE_TO_DISCORD && 'world → Discord', DISCORD_BRIDGE_TO_WORLD && 'Discord → world'].filter(Boolean);
+      logger.info(`[DiscordBridge] Bridging #${channel.name} (${directions.join(', ')})`);
+    } catch (error) {
+      logger.error('[DiscordBridge] Failed to start:', error);
+    }
+  }
+
+  async stop(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    this.queue = [];
+    this.channel = null;
+    if (this.client) {
+      this.client.destroy();
+      this.client = null;
+    }
+    logger.info('[DiscordBridge] Stopped');
+  }
+
+  /**
+   * The world being bridged: the one named by DISCORD_BRIDGE_WORLD if the
+   * agent is in it, otherwise the default session.
+   */
+  private getSession(): WorldSession | null {
+    const service = this.runtime.getService<HyperfyService>(HyperfyService.serviceType);
+    if (!service) return null;
+    if (DISCORD_BRIDGE_WORLD) {
+      const entry = service.getWorldDirectory().find(DISCORD_BRIDGE_WORLD);
+      const session = entry && service.getSessions().find((candidate) => candidate.currentWsUrl === entry.wsUrl);
+      if (session) return session;
+    }
+    return service.getDefaultSession();
+  }
+
+  private handleWorldChat(payload: HyperfyChatMessagePayload): void {
+    if (!this.channel) return;
+    const { message } = payload;
+    if (payload.sessionId !== this.getSession()?.id) return;
+    // Our own relays of Discord messages; sending them back would echo
+    if (payload.fromAgent && message.body.startsWith(WORLD_PREFIX)) return;
+    if (!message.body.trim()) return;
+
+    if (this.queue.length >= MAX_QUEUED_LINES) {
+      this.queue.shift();
+      this.dropped++;
+    }
+    this.queue.push({ from: message.from, body: message.body });
+    this.flushTimer ??= setTimeout(() => {
+      this.flushTimer = null;
+      this.flushToDiscord();
+    }, DISCORD_BRIDGE_FLUSH_MS);
+  }
+
+  /**
+   * Posts queued world chat, packing as many lines as fit into each message.
+   */
+  private async flushToDiscord(): Promise<void> {
+    const channel = this.channel;
+    if (!channel || !this.queue.length) return;
+    const lines = this.queue.map((line) => `**${escapeMarkdown(sanitizeForDiscord(line.from))}**: ${sanitizeForDiscord(line.body)}`);
+    if (this.dropped) {
+      lines.unshift(`*(${this.dropped} earlier message(s) skipped)*`);
+      this.dropped = 0;
+    }
+    this.queue = [];
+
+    for (const content of packLines(lines, DISCORD_MESSAGE_LIMIT)) {
+      try {
+        await channel.send({ content, allowedMentions: { parse: [] } });
+      } catch (error) {
+        logger.error('[DiscordBridge] Failed to post world chat to Discord:', error);
+        return;
+      }
+    }
+  }
+
+  private async handleDiscordMessage(message: Message): Promise<void> {
+    if (message.channelId !== DISCORD_BRIDGE_CHANNEL_ID) return;
+    // Bots (including this one posting world chat) and webhooks aren't relayed, so nothing loops
+    if (message.author.bot || message.webhookId || message.system) return;
+
+    const text = sanitizeForWorld(message.cleanContent, message.attachments.size > 0);
+    if (!text) return;
+
+    const session = this.getSession();
+    if (!session?.isConnected()) {
+      logger.debug('[DiscordBridge] Not in the bridged world, dropping Discord message');
+      return;
+    }
+
+    if (!this.allowRelay(message.author.id)) {
+      logger.info(`[DiscordBridge] ${message.author.username} is over the relay rate limit`);
+      await message.react(RATE_LIMITED_REACTION).catch(() => {});
+      return;
+    }
+
+    const name = message.member?.displayName || message.author.globalName || message.author.username;
+    await session.getMessageManager()?.sendMessage(`${WORLD_PREFIX} ${name}: ${text}`, { relayed: true });
+  }
+
+  /**
+   * Sliding-window limits on Discord → world, per user and overall.
+   */
+  private allowRelay(userId: string): boolean {
+    const now = Date.now();
+    const recent = (timestamps: number[]) => timestamps.filter((at) => now - at < RATE_WINDOW_MS);
+    const userRecent = recent(this.userMessages.get(userId) ?? []);
+    this.worldMessages = recent(this.worldMessages);
+    if (userRecent.length >= DISCORD_BRIDGE_USER_LIMIT || this.worldMessages.length >= DISCORD_BRIDGE_WORLD_LIMIT) {
+      this.userMessages.set(userId, userRecent);
+      return false;
+    }
+    userRecent.push(now);
+    this.userMessages.set(userId, userRecent);
+    this.worldMessages.push(now);
+    return true;
+  }
+}
+
+/**
+ * Defuses anything Discord would turn into a ping or a link to a user,
+ * role or channel (`@everyone`, `@here`, `<@123>`, `<@&123>`, `<#123>`).
+ * Sends also disable mentions outright; this keeps them from rendering.
+ */
+export function sanitizeForDiscord(text: string): string {
+  return text
+    .replace(/@(everyone|here)/gi, `@${ZERO_WIDTH_SPACE}$1`)
+    .replace(/<(@[!&]?|#)(\d+)>/g, `<${ZERO_WIDTH_SPACE}$1$2>`);
+}
+
+/**
+ * Turns a Discord message (with mentions already resolved to names) into a
+ * single line of plain world chat: custom emoji become `:name:`, newlines
+ * become spaces, and long messages are cut.
+ */
+export function sanitizeForWorld(text: string, hasAttachments = false): string {
+  let line = text
+    .replace(/<a?:(\w+):\d+>/g, ':$1:')
+    .replace(/\s+/g, ' ')
+    .trim();
+  if (hasAttachments) line = line ? `${line} [attachment]` : '[attachment]';
+  if (line.length > DISCORD_BRIDGE_MAX_LENGTH) line = `${line.slice(0, DISCORD_BRIDGE_MAX_LENGTH - 1)}…`;
+  return line;
+}
+
+function packLines(lines: string[], limit: number): string[] {
+  const messages: string[] = [];
+  let current = '';
+  for (const line of lines) {
+    const clipped = line.length > limit ? `${line.slice(0, limit - 1)}…` : line;
+    if (current && current.length + 1 + clipped.length > limit) {
+      messages.push(current);
+      current = '';
+    }
+    current = current ? `${current}\n${clipped}` : clipped;
+  }
+  if (current) messages.push(current);
+  return messages;
+}
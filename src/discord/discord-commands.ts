@@ -0,0 +1,442 @@
+import { IAgentRuntime, logger } from '@elizaos/core';
+import {
+  ChatInputCommandInteraction,
+  Client,
+  GatewayIntentBits,
+  Guild,
+  Interaction,
+  InteractionContextType,
+  MessageFlags,
+  PermissionFlagsBits,
+  SlashCommandBuilder,
+  SlashCommandSubcommandBuilder,
+  TextChannel,
+  escapeMarkdown,
+} from 'discord.js';
+import { HyperfyService } from '../plugin-hyperfy/service';
+import type { WorldSession } from '../plugin-hyperfy/session';
+import { BudgetLevel, getBudgetManager } from '../plugin-hyperfy/budget';
+import { EMOTES_LIST } from '../plugin-hyperfy/constants';
+import type { AgentControls, NavigationOutcome } from '../plugin-hyperfy/systems/controls';
+
+// Role IDs or names allowed to use the commands; without any, only members who can manage the server
+const DISCORD_COMMANDS_ROLES = (process.env.DISCORD_COMMANDS_ROLES || '')
+  .split(',')
+  .map((role) => role.trim())
+  .filter(Boolean);
+// Register in this server only; every server the bot is in otherwise
+const DISCORD_COMMANDS_GUILD_ID = process.env.DISCORD_COMMANDS_GUILD_ID;
+// Channel every command is logged to, besides the agent's log and the database
+const DISCORD_COMMANDS_AUDIT_CHANNEL_ID = process.env.DISCORD_COMMANDS_AUDIT_CHANNEL_ID;
+
+const COMMAND_NAME = 'coo';
+const AUDIT_CACHE_KEY = 'discord/commands/audit';
+const AUDIT_MAX_ENTRIES = 200;
+const MAX_SAY_LENGTH = 500;
+const PLUGIN_READY_TIMEOUT_MS = 120000;
+const PLUGIN_SETTLE_MS = 10000; // the Discord plugin sets its commands per server after it is ready
+
+export type CommandAuditEntry = {
+  at: number;
+  userId: string;
+  user: string;
+  guildId: string | null;
+  channelId: string | null;
+  subcommand: string;
+  options: Record<string, string | number | boolean>;
+  world: string | null;
+  outcome: 'ok' | 'denied' | 'failed';
+  detail?: string;
+};
+
+const NAVIGATION_FAILURES: Record<Exclude<NavigationOutcome, 'reached'>, string> = {
+  unreachable: 'no way there, stopped as close as possible',
+  stuck: 'got stuck on the way',
+  interrupted: 'stopped by another command or action',
+};
+
+type CommandResult = {
+  content: string;
+  files?: { attachment: Buffer; name: string }[];
+  /** What happened, for the audit trail. */
+  detail: string;
+};
+
+const withWorld = (subcommand: SlashCommandSubcommandBuilder) =>
+  subcommand.addStringOption((option) =>
+    option.setName('world').setDescription('World name from HYPERFY_WORLDS (default: the main world)')
+  );
+
+const COMMAND = new SlashCommandBuilder()
+  .setName(COMMAND_NAME)
+  .setDescription('Operate the agent in the Hyperfy world')
+  .setContexts(InteractionContextType.Guild)
+  .addSubcommand((subcommand) =>
+    withWorld(subcommand.setName('status').setDescription('Connection, world, players and what the agent is doing'))
+  )
+  .addSubcommand((subcommand) =>
+    withWorld(
+      subcommand
+        .setName('say')
+        .setDescription('Say something in world chat and out loud')
+        .addStringOption((option) =>
+          option.setName('text').setDescription('What to say').setRequired(true).setMaxLength(MAX_SAY_LENGTH)
+        )
+        .addBooleanOption((option) => option.setName('voice').setDescription('Also speak it (default: yes)'))
+    )
+  )
+  .addSubcommand((subcommand) =>
+    withWorld(
+      subcommand
+        .setName('goto')
+        .setDescription('Walk to a landmark or a position')
+        .addStringOption((option) =>
+          option.setName('target').setDescription('Landmark name, or "x z"').setRequired(true)
+        )
+    )
+  )
+  .addSubcommand((subcommand) =>
+    withWorld(
+      subcommand
+        .setName('emote')
+        .setDescription('Play an emote')
+        .addStringOption((option) =>
+          option
+            .setName('name')
+            .setDescription('Emote to play')
+            .setRequired(true)
+            .addChoices(...EMOTES_LIST.map((emote) => ({ name: emote.name, value: emote.name })))
+        )
+    )
+  )
+  .addSubcommand((subcommand) =>
+    withWorld(
+      subcommand
+        .setName('snapshot')
+        .setDescription("Take a picture of what the agent sees")
+        .addStringOption((option) =>
+          option
+            .setName('view')
+            .setDescription('Direction to look, or a 360° panorama (default: front)')
+            .addChoices(
+              { name: 'front', value: 'front' },
+              { name: 'back', value: 'back' },
+              { name: 'left', value: 'left' },
+              { name: 'right', value: 'right' },
+              { name: 'panorama', value: 'panorama' }
+            )
+        )
+    )
+  )
+  .addSubcommand((subcommand) =>
+    withWorld(subcommand.setName('reconnect').setDescription('Drop the connection and join the world again'))
+  );
+
+/**
+ * `/coo` application commands, so moderators can check on and steer the agent
+ * from Discord instead of restarting the process: status, say, goto, emote,
+ * snapshot and reconnect. Only members with an allowed role can use them,
+ * replies are visible to the caller alone, and every use (including refused
+ * ones) goes to the audit trail.
+ */
+export class DiscordCommandManager {
+  private runtime: IAgentRuntime;
+  private client: Client | null = null;
+  private auditWrite: Promise<void> = Promise.resolve();
+
+  constructor(runtime: IAgentRuntime) {
+    this.runtime = runtime;
+  }
+
+  async start(): Promise<void> {
+    const token = process.env.DISCORD_API_TOKEN;
+    if (!token) {
+      logger.warn('[DiscordCommands] No DISCORD_API_TOKEN found, skipping slash commands');
+      return;
+    }
+
+    this.client = new Client({ intents: [GatewayIntentBits.Guilds] });
+
+    try {
+      await this.client.login(token);
+      await new Promise<void>((resolve) => {
+        if (this.client!.isReady()) {
+          resolve();
+        } else {
+          this.client!.once('ready', () => resolve());
+        }
+      });
+
+      this.client.on('interactionCreate', (interaction) => {
+        this.handleInteraction(interaction).catch((error) => {
+          logger.error('[DiscordCommands] Failed to handle a command:', error);
+        });
+      });
+      this.client.on('guildCreate', (guild) => {
+        this.registerIn(guild);
+      });
+
+      // Registering can wait for the Discord plugin; don't hold up startup for it
+      this.registerCommands().catch((error) => {
+        logger.error('[DiscordCommands] Failed to register commands:', error);
+      });
+      logger.info(`[DiscordCommands] Started (${DISCORD_COMMANDS_ROLES.length ? `roles: ${DISCORD_COMMANDS_ROLES.join(', ')}` : 'server managers only'})`);
+    } catch (error) {
+      logger.error('[DiscordCommands] Failed to start:', error);
+    }
+  }
+
+  async stop(): Promise<void> {
+    if (this.client) {
+      this.client.destroy();
+      this.client = null;
+    }
+    logger.info('[DiscordCommands] Stopped');
+  }
+
+  private async registerCommands(): Promise<void> {
+    // The Discord plugin replaces all of the application's commands when it
+    // starts, so ours are added after it has
+    if (this.runtime.character.plugins?.includes('@elizaos/plugin-discord')) {
+      const deadline = Date.now() + PLUGIN_READY_TIMEOUT_MS;
+      while (Date.now() < deadline) {
+        const discord = this.runtime.getService('discord') as { client?: Client | null } | null;
+        if (discord?.client?.isReady()) break;
+        await new Promise((resolve) => setTimeout(resolve, 1000));
+      }
+      await new Promise((resolve) => setTimeout(resolve, PLUGIN_SETTLE_MS));
+    }
+
+    const guilds = this.client?.guilds.cache.filter((guild) => !DISCORD_COMMANDS_GUILD_ID || guild.id === DISCORD_COMMANDS_GUILD_ID);
+    for (const guild of guilds?.values() ?? []) {
+      await this.registerIn(guild);
+    }
+  }
+
+  private async registerIn(guild: Guild): Promise<void> {
+    if (DISCORD_COMMANDS_GUILD_ID && guild.id !== DISCORD_COMMANDS_GUILD_ID) return;
+    try {
+      // create() adds or updates this one command, leaving the plugin's alone
+      await guild.commands.create(COMMAND.toJSON());
+      logger.info(`[DiscordCommands] Registered /${COMMAND_NAME} in ${guild.name}`);
+    } catch (error) {
+      logger.error(`[DiscordCommands] Failed to register /${COMMAND_NAME} in ${guild.name}:`, error);
+    }
+  }
+
+  private async handleInteraction(interaction: Interaction): Promise<void> {
+    if (!interaction.isChatInputCommand() || interaction.commandName !== COMMAND_NAME) return;
+
+    const subcommand = interaction.options.getSubcommand();
+    const options: Record<string, string | number | boolean> = {};
+    for (const option of interaction.options.data[0]?.options ?? []) {
+      if (option.value !== undefined) options[option.name] = option.value;
+    }
+    const worldName = interaction.options.getString('world');
+    const audit = (outcome: CommandAuditEntry['outcome'], detail?: string) =>
+      this.audit({
+        at: Date.now(),
+        userId: interaction.user.id,
+        user: interaction.user.username,
+        guildId: interaction.guildId,
+        channelId: interaction.channelId,
+        subcommand,
+        options,
+        world: worldName,
+        outcome,
+        detail,
+      });
+
+    if (!this.isAuthorized(interaction)) {
+      await interaction.reply({ content: `You don't have a role that can operate ${this.runtime.character.name}.`, flags: MessageFlags.Ephemeral });
+      await audit('denied');
+      return;
+    }
+
+    await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+    try {
+      const result = await this.runSubcommand(subcommand, interaction, worldName);
+      await interaction.editReply({ content: result.content, files: result.files ?? [] });
+      await audit('ok', result.detail);
+    } catch (error: any) {
+      const message = error?.message || String(error);
+      await interaction.editReply({ content: `⚠️ ${message}` }).catch(() => {});
+      await audit('failed', message);
+    }
+  }
+
+  private isAuthorized(interaction: ChatInputCommandInteraction): boolean {
+    const permissions = interaction.memberPermissions;
+    if (permissions?.has(PermissionFlagsBits.Administrator)) return true;
+    if (!DISCORD_COMMANDS_ROLES.length) return !!permissions?.has(PermissionFlagsBits.ManageGuild);
+
+    const roles = interaction.member?.roles;
+    const roleIds: string[] = Array.isArray(roles) ? roles : roles ? [...roles.cache.keys()] : [];
+    return roleIds.some((id) => {
+      const name = interaction.guild?.roles.cache.get(id)?.name;
+      return DISCORD_COMMANDS_ROLES.includes(id) || (!!name && DISCORD_COMMANDS_ROLES.includes(name));
+    });
+  }
+
+  private async runSubcommand(subcommand: string, interaction: ChatInputCommandInteraction, worldName: string | null): Promise<CommandResult> {
+    const service = this.runtime.getService<HyperfyService>(HyperfyService.serviceType);
+    if (!service) throw new Error('The Hyperfy service is not running.');
+
+    if (subcommand === 'status') {
+      const sessions = worldName ? [this.findSession(service, worldName)] : service.getSessions();
+      const report = sessions.map((session) => this.describe(service, session)).join('\n\n');
+      const budget = BudgetLevel[getBudgetManager(this.runtime).getLevel()];
+      return { content: `${report || 'Not in any world.'}\n\nLLM budget: ${budget}`, detail: 'status' };
+    }
+
+    const session = this.findSession(service, worldName);
+    const label = this.worldLabel(service, session);
+
+    if (subcommand === 'reconnect') {
+      await session.reconnect(`/${COMMAND_NAME} reconnect by ${interaction.user.username}`);
+      return { content: `Reconnected to ${label}.`, detail: `reconnected to ${label}` };
+    }
+
+    const world = session.getWorld();
+    if (!session.isConnected() || !world) {
+      throw new Error(`Not connected to ${label} right now. Try \`/${COMMAND_NAME} reconnect\`.`);
+    }
+
+    switch (subcommand) {
+      case 'say': {
+        const text = interaction.options.getString('text', true).trim();
+        const voice = interaction.options.getBoolean('voice') ?? true;
+        await session.getMessageManager().sendMessage(text);
+        if (voice) {
+          // Playback takes as long as the speech; the reply doesn't wait for it
+          session.getVoiceManager()?.speak(text).catch((error) => {
+            logger.error('[DiscordCommands] Failed to speak:', error);
+          });
+        }
+        return { content: `Said in ${label}${voice ? ' (chat and voice)' : ''}: ${text}`, detail: text };
+      }
+
+      case 'goto': {
+        const target = interaction.options.getString('target', true).trim();
+        const coordinates = target.match(/^(-?\d+(?:\.\d+)?)[\s,]+(-?\d+(?:\.\d+)?)$/);
+        const landmark = coordinates ? null : session.getLandmarkManager()?.find(target);
+        if (!coordinates && !landmark) {
+          const known = session.getLandmarkManager()?.list().map((entry) => entry.name) ?? [];
+          throw new Error(`Unknown landmark "${target}".${known.length ? ` Known landmarks: ${known.join(', ')}` : ''}`);
+        }
+        const [x, z] = coordinates ? [Number(coordinates[1]), Number(coordinates[2])] : [landmark!.position[0], landmark!.position[2]];
+
+        session.getTourManager()?.stop(`/${COMMAND_NAME} goto`);
+        const controls = world.controls as AgentControls;
+        const destination = landmark ? landmark.name : `(${x}, ${z})`;
+        // The reply is deferred, so it can wait for the walk and say how it went
+        const outcome = await controls.goto(x, z);
+        if (outcome !== 'reached') {
+          throw new Error(`Couldn't reach ${destination} in ${label}: ${NAVIGATION_FAILURES[outcome]}.`);
+        }
+        if (typeof landmark?.rotationY === 'number') controls.faceRotationY(landmark.rotationY);
+        return { content: `Arrived at ${destination} in ${label}.`, detail: destination };
+      }
+
+      case 'emote': {
+        const name = interaction.options.getString('name', true);
+        session.getEmoteManager().playEmote(name);
+        return { content: `Playing "${name}" in ${label}.`, detail: name };
+      }
+
+      case 'snapshot': {
+        const view = (interaction.options.getString('view') ?? 'front') as 'front' | 'back' | 'left' | 'right' | 'panorama';
+        const puppeteer = session.getPuppeteerManager();
+        const dataUrl = view === 'panorama' ? await puppeteer.snapshotEquirectangular() : await puppeteer.snapshotFacingDirection(view);
+        const image = Buffer.from(dataUrl.replace(/^data:image\/\w+;base64,/, ''), 'base64');
+        return { content: `${label}, ${view}:`, files: [{ attachment: image, name: `${view}.jpg` }], detail: view };
+      }
+    }
+    throw new Error(`Unknown subcommand "${subcommand}".`);
+  }
+
+  /**
+   * The session in the named world, or the default session.
+   */
+  private findSession(service: HyperfyService, worldName: string | null): WorldSession {
+    if (worldName) {
+      const entry = service.getWorldDirectory().find(worldName);
+      const session = entry && service.getSessions().find((candidate) => candidate.getConnectionStatus().wsUrl === entry.wsUrl);
+      if (!session) throw new Error(`${this.runtime.character.name} isn't in a world called "${worldName}".`);
+      return session;
+    }
+    const session = service.getDefaultSession();
+    if (!session) throw new Error(`${this.runtime.character.name} isn't in any world.`);
+    return session;
+  }
+
+  private worldLabel(service: HyperfyService, session: WorldSession): string {
+    const wsUrl = session.getConnectionStatus().wsUrl;
+    return (wsUrl && service.getWorldDirectory().findByUrl(wsUrl)?.name) || 'the world';
+  }
+
+  private describe(service: HyperfyService, session: WorldSession): string {
+    const status = session.getConnectionStatus();
+    const lines = [`**${escapeMarkdown(this.worldLabel(service, session))}** (${status.wsUrl ?? 'no URL'})`];
+
+    if (!status.connected) {
+      lines.push(status.reconnecting ? `Disconnected, reconnecting (attempt ${status.reconnectAttempts})` : 'Disconnected');
+      return lines.join('\n');
+    }
+    lines.push(`Connected for ${formatDuration(Date.now() - (status.connectedSince ?? Date.now()))}`);
+
+    const world = session.getWorld();
+    const agentId = world?.entities?.player?.data?.id;
+    let players = 0;
+    for (const [id, entity] of world?.entities?.items ?? []) {
+      if (id !== agentId && entity?.data?.type === 'player') players++;
+    }
+    lines.push(`Players: ${players}`);
+    lines.push(`Doing: ${this.describeActivity(session)}`);
+    return lines.join('\n');
+  }
+
+  private describeActivity(session: WorldSession): string {
+    const tour = session.getTourManager()?.getActiveTour();
+    if (tour) return `giving the "${tour.tour.name}" tour (stop ${tour.stopIndex + 1} of ${tour.tour.stops.length})`;
+    const controls = session.getWorld()?.controls;
+    const follow = controls?.getFollowState?.();
+    if (follow) return `following ${follow.name}`;
+    if (controls?.getIsNavigating?.()) return 'walking somewhere';
+    if (controls?.getIsWalkingRandomly?.()) return 'wandering around';
+    return 'idle';
+  }
+
+  private async audit(entry: CommandAuditEntry): Promise<void> {
+    const summary = `/${COMMAND_NAME} ${entry.subcommand} by ${entry.user} (${entry.userId})${entry.world ? ` in ${entry.world}` : ''}: ${entry.outcome}${entry.detail ? ` - ${entry.detail}` : ''}`;
+    logger.info(`[DiscordCommands] ${summary}`);
+
+    // Appends one at a time so concurrent commands don't drop each other's entries
+    this.auditWrite = this.auditWrite.then(async () => {
+      try {
+        const entries = (await this.runtime.getCache<CommandAuditEntry[]>(AUDIT_CACHE_KEY)) || [];
+        entries.push(entry);
+        await this.runtime.setCache<CommandAuditEntry[]>(AUDIT_CACHE_KEY, entries.slice(-AUDIT_MAX_ENTRIES));
+      } catch (error) {
+        logger.error('[DiscordCommands] Failed to save the audit trail:', error);
+      }
+    });
+    await this.auditWrite;
+
+    if (!DISCORD_COMMANDS_AUDIT_CHANNEL_ID || !this.client) return;
+    try {
+      const channel = await this.client.channels.fetch(DISCORD_COMMANDS_AUDIT_CHANNEL_ID);
+      if (channel instanceof TextChannel) {
+        await channel.send({ content: escapeMarkdown(summary), allowedMentions: { parse: [] } });
+      }
+    } catch (error) {
+      logger.error('[DiscordCommands] Failed to post to the audit channel:', error);
+    }
+  }
+}
+
+function formatDuration(ms: number): string {
+  const minutes = Math.floor(ms / 60000);
+  const hours = Math.floor(minutes / 60);
+  return hours ? `${hours}h ${minutes % 60}m` : `${minutes}m`;
+}
@@ -0,0 +1,356 @@
+import { IAgentRuntime, logger } from '@elizaos/core';
+import { Client, GatewayIntentBits, type VoiceBasedChannel } from 'discord.js';
+import {
+  AudioPlayer,
+  EndBehaviorType,
+  NoSubscriberBehavior,
+  StreamType,
+  VoiceConnection,
+  VoiceConnectionStatus,
+  createAudioPlayer,
+  createAudioResource,
+  entersState,
+  joinVoiceChannel,
+  type DiscordGatewayAdapterCreator,
+} from '@discordjs/voice';
+import { opus as prismOpus } from 'prism-media';
+import { PassThrough } from 'stream';
+import { HyperfyService } from '../plugin-hyperfy/service';
+import type { WorldSession } from '../plugin-hyperfy/session';
+import { FrameClock, PcmMixer } from '../plugin-hyperfy/audio-mixer';
+
+const DISCORD_VOICE_CHANNEL_ID = process.env.DISCORD_VOICE_CHANNEL_ID;
+// World to bridge, by its name in HYPERFY_WORLDS; the default session otherwise
+const DISCORD_VOICE_BRIDGE_WORLD = process.env.DISCORD_VOICE_BRIDGE_WORLD;
+
+// Discord sends and expects 48kHz stereo Opus in 20ms frames; LiveKit here is 48kHz mono
+const SAMPLE_RATE = 48000;
+const DISCORD_CHANNELS = 2;
+const FRAME_DURATION_MS = 20;
+const SAMPLES_PER_FRAME = (SAMPLE_RATE * FRAME_DURATION_MS) / 1000;
+const PREBUFFER_FRAMES = 3; // written ahead when playback starts, so timer jitter doesn't starve Discord
+const END_AFTER_SILENT_FRAMES = 25; // stop "speaking" in Discord after this much quiet
+const SPEAKER_END_SILENCE_MS = 1000; // a Discord user's stream is closed after this much silence
+const READY_TIMEOUT_MS = 30000;
+const RECONNECT_GRACE_MS = 5000; // Discord moving the call to another server looks like a brief disconnect
+const REJOIN_DELAY_MS = 10000;
+const WORLD_CHECK_INTERVAL_MS = 2000;
+const AGENT_SOURCE = 'agent';
+
+type LiveKitAudioData = { participant: string; buffer: Buffer };
+
+/**
+ * Joins a Discord voice channel and bridges it with a Hyperfy world's voice
+ * chat, for calls with people both in-world and on Discord. Each Discord
+ * speaker is decoded and mixed into the agent's LiveKit track; the world's
+ * voices and the agent's own speech are mixed and played into Discord.
+ * Nobody hears themselves back: Discord audio only goes to the world, and
+ * world audio only to Discord.
+ */
+export class DiscordVoiceBridge {
+  private runtime: IAgentRuntime;
+  private client: Client | null = null;
+  private channel: VoiceBasedChannel | null = null;
+  private connection: VoiceConnection | null = null;
+  private player: AudioPlayer | null = null;
+  private output: PassThrough | null = null;
+  private mixer = new PcmMixer(SAMPLE_RATE);
+  private clock = new FrameClock(FRAME_DURATION_MS);
+  private silentFrames = 0;
+  private speakers: Map<string, prismOpus.Decoder> = new Map();
+  private livekit: any | null = null;
+  private livekitListeners: { audio: (data: LiveKitAudioData) => void; speech: (samples: Int16Array) => void } | null = null;
+  private frameTimer: NodeJS.Timeout | null = null;
+  private worldTimer: NodeJS.Timeout | null = null;
+  private rejoinTimer: NodeJS.Timeout | null = null;
+  private stopped = false;
+
+  constructor(runtime: IAgentRuntime) {
+    this.runtime = runtime;
+  }
+
+  async start(): Promise<void> {
+    const token = process.env.DISCORD_API_TOKEN;
+    if (!token) {
+      logger.warn('[DiscordVoiceBridge] No DISCORD_API_TOKEN found, skipping the voice bridge');
+      return;
+    }
+    if (!DISCORD_VOICE_CHANNEL_ID) {
+      logger.warn('[DiscordVoiceBridge] No DISCORD_VOICE_CHANNEL_ID set, skipping the voice bridge');
+      return;
+    }
+
+    this.stopped = false;
+    this.client = new Client({
+      intents: [GatewayIntentBits.Guilds, GatewayIntentBits.GuildVoiceStates],
+    });
+
+    try {
+      await this.client.login(token);
+      await new Promise<void>((resolve) => {
+        if (this.client!.isReady()) {
+          resolve();
+        } else {
+          this.client!.once('ready', () => resolve());
+        }
+      });
+
+      const channel = await this.client.channels.fetch(DISCORD_VOICE_CHANNEL_ID);
+      if (!channel?.isVoiceBased()) {
+        logger.error('[DiscordVoiceBridge] Voice channel not found or not a voice channel');
+        await this.stop();
+        return;
+      }
+      this.channel = channel;
+
+      this.player = createAudioPlayer({
+        behaviors: { noSubscriber: NoSubscriberBehavior.Play },
+      });
+      this.player.on('error', (error) => {
+        logger.warn(`[DiscordVoiceBridge] Playback error: ${error.message}`);
+      });
+
+      this.frameTimer = setInterval(() => this.sendFrames(), FRAME_DURATION_MS);
+      this.worldTimer = setInterval(() => this.syncWorld(), WORLD_CHECK_INTERVAL_MS);
+      this.syncWorld();
+      await this.join();
+    } catch (error) {
+      logger.error('[DiscordVoiceBridge] Failed to start:', error);
+    }
+  }
+
+  async stop(): Promise<void> {
+    this.stopped = true;
+    for (const timer of [this.frameTimer, this.worldTimer]) {
+      if (timer) clearInterval(timer);
+    }
+    if (this.rejoinTimer) clearTimeout(this.rejoinTimer);
+    this.frameTimer = null;
+    this.worldTimer = null;
+    this.rejoinTimer = null;
+    this.detachWorld();
+    this.endOutput();
+    this.closeSpeakers();
+    this.player?.stop(true);
+    this.player = null;
+    this.connection?.destroy();
+    this.connection = null;
+    this.channel = null;
+    if (this.client) {
+      this.client.destroy();
+      this.client = null;
+    }
+    logger.info('[DiscordVoiceBridge] Stopped');
+  }
+
+  /**
+   * The world being bridged: the one named by DISCORD_VOICE_BRIDGE_WORLD if
+   * the agent is in it, otherwise the default session.
+   */
+  private getSession(): WorldSession | null {
+    const service = this.runtime.getService<HyperfyService>(HyperfyService.serviceType);
+    if (!service) return null;
+    if (DISCORD_VOICE_BRIDGE_WORLD) {
+      const entry = service.getWorldDirectory().find(DISCORD_VOICE_BRIDGE_WORLD);
+      const session = entry && service.getSessions().find((candidate) => candidate.currentWsUrl === entry.wsUrl);
+      if (session) return session;
+    }
+    return service.getDefaultSession();
+  }
+
+  private async join(): Promise<void> {
+    const channel = this.channel;
+    if (!channel || this.stopped) return;
+
+    const connection = joinVoiceChannel({
+      channelId: channel.id,
+      guildId: channel.guild.id,
+      adapterCreator: channel.guild.voiceAdapterCreator as DiscordGatewayAdapterCreator,
+      // Kept apart from the Discord plugin's own voice connections
+      group: 'voice-bridge',
+      selfDeaf: false,
+      selfMute: false,
+    });
+    this.connection = connection;
+
+    connection.on(VoiceConnectionStatus.Disconnected, async () => {
+      try {
+        await Promise.race([
+          entersState(connection, VoiceConnectionStatus.Signalling, RECONNECT_GRACE_MS),
+          entersState(connection, VoiceConnectionStatus.Connecting, RECONNECT_GRACE_MS),
+        ]);
+      } catch {
+        logger.warn(`[DiscordVoiceBridge] Lost #${channel.name}, rejoining in ${REJOIN_DELAY_MS / 1000}s`);
+        this.closeSpeakers();
+        connection.destroy();
+        if (this.connection === connection) this.connection = null;
+        this.scheduleRejoin();
+      }
+    });
+    connection.on('error', (error) => {
+      logger.warn(`[DiscordVoiceBridge] Voice connection error: ${error.message}`);
+    });
+    connection.receiver.speaking.on('start', (userId) => this.receive(userId));
+
+    try {
+      await entersState(connection, VoiceConnectionStatus.Ready, READY_TIMEOUT_MS);
+    } catch (error) {
+      logger.error(`[DiscordVoiceBridge] Couldn't connect to #${channel.name} (needs Connect and Speak):`, error);
+      connection.destroy();
+      if (this.connection === connection) this.connection = null;
+      this.scheduleRejoin();
+      return;
+    }
+    if (this.player) connection.subscribe(this.player);
+    logger.info(`[DiscordVoiceBridge] Bridging #${channel.name} with the world's voice chat`);
+  }
+
+  private scheduleRejoin(): void {
+    if (this.stopped || this.rejoinTimer) return;
+    this.rejoinTimer = setTimeout(() => {
+      this.rejoinTimer = null;
+      this.join().catch((error) => logger.error('[DiscordVoiceBridge] Failed to rejoin:', error));
+    }, REJOIN_DELAY_MS);
+  }
+
+  /**
+   * Decodes a Discord user's voice while they talk and mixes it into the
+   * agent's LiveKit track. Their stream ends after a second of silence and
+   * starts again next time they speak.
+   */
+  private receive(userId: string): void {
+    const connection = this.connection;
+    if (!connection || this.speakers.has(userId) || userId === this.client?.user?.id) return;
+
+    const opus = connection.receiver.subscribe(userId, {
+      end: { behavior: EndBehaviorType.AfterSilence, duration: SPEAKER_END_SILENCE_MS },
+    });
+    const decoder = new prismOpus.Decoder({ rate: SAMPLE_RATE, channels: DISCORD_CHANNELS, frameSize: SAMPLES_PER_FRAME });
+    this.speakers.set(userId, decoder);
+
+    const close = () => {
+      if (this.speakers.get(userId) !== decoder) return;
+      this.speakers.delete(userId);
+      opus.destroy();
+      decoder.destroy();
+    };
+    opus.on('error', (error) => {
+      logger.debug(`[DiscordVoiceBridge] Receive error for ${userId}: ${error.message}`);
+      close();
+    });
+    decoder.on('error', (error) => {
+      // A single corrupt packet; the stream goes on
+      logger.debug(`[DiscordVoiceBridge] Couldn't decode audio from ${userId}: ${error.message}`);
+    });
+    opus.once('end', close);
+    opus.once('close', close);
+
+    decoder.on('data', (pcm: Buffer) => {
+      this.livekit?.mixIn(`discord:${userId}`, stereoToMono(pcm));
+    });
+    opus.pipe(decoder);
+  }
+
+  private closeSpeakers(): void {
+    for (const decoder of this.speakers.values()) decoder.destroy();
+    this.speakers.clear();
+  }
+
+  /**
+   * Follows the bridged world's LiveKit system, which is replaced whenever
+   * the agent reconnects or moves to another world.
+   */
+  private syncWorld(): void {
+    const livekit = this.getSession()?.getWorld()?.livekit ?? null;
+    if (livekit === this.livekit) return;
+    this.detachWorld();
+    if (!livekit) return;
+
+    const listeners = {
+      audio: (data: LiveKitAudioData) => {
+        this.mixer.push(`hyperfy:${data.participant}`, toSamples(data.buffer));
+      },
+      speech: (samples: Int16Array) => {
+        this.mixer.push(AGENT_SOURCE, samples);
+      },
+    };
+    livekit.on('audio', listeners.audio);
+    livekit.on('speech', listeners.speech);
+    this.livekit = livekit;
+    this.livekitListeners = listeners;
+    logger.info('[DiscordVoiceBridge] Attached to the world\'s voice chat');
+  }
+
+  private detachWorld(): void {
+    if (this.livekit && this.livekitListeners) {
+      this.livekit.off('audio', this.livekitListeners.audio);
+      this.livekit.off('speech', this.livekitListeners.speech);
+    }
+    this.livekit = null;
+    this.livekitListeners = null;
+    this.mixer.clear();
+  }
+
+  /**
+   * Plays the world's mixed audio into Discord in 20ms frames. Discord only
+   * shows the bot as speaking while there is something to play.
+   */
+  private sendFrames(): void {
+    for (let due = this.clock.due(); due > 0; due--) {
+      const frame = this.mixer.read(SAMPLES_PER_FRAME);
+      if (!frame) {
+        if (this.output && ++this.silentFrames >= END_AFTER_SILENT_FRAMES) this.endOutput();
+        continue;
+      }
+      this.silentFrames = 0;
+      this.ensureOutput()?.write(monoToStereo(frame));
+    }
+  }
+
+  private ensureOutput(): PassThrough | null {
+    if (this.output) return this.output;
+    if (!this.player || !this.connection) return null;
+
+    const output = new PassThrough();
+    const silence = Buffer.alloc(SAMPLES_PER_FRAME * DISCORD_CHANNELS * 2);
+    for (let i = 0; i < PREBUFFER_FRAMES; i++) output.write(silence);
+    this.player.play(createAudioResource(output, { inputType: StreamType.Raw }));
+    this.output = output;
+    return output;
+  }
+
+  private endOutput(): void {
+    this.output?.end();
+    this.output = null;
+    this.silentFrames = 0;
+  }
+}
+
+/**
+ * 16-bit stereo PCM from Discord to 16-bit mono, by averaging the channels.
+ */
+function stereoToMono(pcm: Buffer): Int16Array {
+  const mono = new Int16Array(Math.floor(pcm.length / 4));
+  for (let i = 0; i < mono.length; i++) {
+    mono[i] = (pcm.readInt16LE(i * 4) + pcm.readInt16LE(i * 4 + 2)) >> 1;
+  }
+  return mono;
+}
+
+/**
+ * 16-bit mono PCM to the interleaved stereo Discord expects.
+ */
+function monoToStereo(samples: Int16Array): Buffer {
+  const pcm = Buffer.alloc(samples.length * 4);
+  for (let i = 0; i < samples.length; i++) {
+    pcm.writeInt16LE(samples[i], i * 4);
+    pcm.writeInt16LE(samples[i], i * 4 + 2);
+  }
+  return pcm;
+}
+
+function toSamples(buffer: Buffer): Int16Array {
+  const samples = new Int16Array(Math.floor(buffer.length / 2));
+  for (let i = 0; i < samples.length; i++) samples[i] = buffer.readInt16LE(i * 2);
+  return samples;
+}
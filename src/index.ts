@@ -13,6 +13,9 @@ import {
 } from '@elizaos/core';
 import hyperfyPlugin from './plugin-hyperfy';
 import { DiscordAutoPostManager } from './discord/discord-auto-post';
+import { DiscordChatBridge } from './discord/discord-bridge';
+import { DiscordCommandManager } from './discord/discord-commands';
+import { DiscordVoiceBridge } from './discord/discord-voice-bridge';
 
 /**
  * Represents the default character (Eliza) with her specific attributes and behaviors.
@@ -41,6 +44,10 @@ export const character: Character = {
     voice: {
       model: 'tts-1',
       voice: 'nova',
+      // TTS engines to try in order; 'local' keeps Coo talking without any cloud key
+      providers: ['elevenlabs', 'openai', 'model', 'local'],
+      // What speech-to-text makes of "Coo"; any of these in a voice message counts as addressing her
+      aliases: ['Ku', 'Koo', 'Kuu', 'クー', 'くー'],
     },
     mcp: {
       servers: {
@@ -233,6 +240,24 @@ const initCharacter = async ({ runtime }: { runtime: IAgentRuntime }) => {
     await discordAutoPost.start();
     logger.info('[Discord] Auto-post manager started');
   }
+
+  // Relay chat between the Hyperfy world and a Discord channel
+  if (process.env.DISCORD_API_TOKEN && process.env.DISCORD_BRIDGE_ENABLED === 'true') {
+    const discordBridge = new DiscordChatBridge(runtime);
+    await discordBridge.start();
+  }
+
+  // /coo slash commands for moderators
+  if (process.env.DISCORD_API_TOKEN && process.env.DISCORD_COMMANDS_ENABLED === 'true') {
+    const discordCommands = new DiscordCommandManager(runtime);
+    await discordCommands.start();
+  }
+
+  // Bridge a Discord voice channel with the world's voice chat
+  if (process.env.DISCORD_API_TOKEN && process.env.DISCORD_VOICE_BRIDGE_ENABLED === 'true') {
+    const discordVoiceBridge = new DiscordVoiceBridge(runtime);
+    await discordVoiceBridge.start();
+  }
 };
 
 export const projectAgent: ProjectAgent = {
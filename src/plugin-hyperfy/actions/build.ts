@@ -9,6 +9,7 @@ import {
     ModelType,
     parseKeyValueXml
   } from '@elizaos/core';
+import { useModelWithBudget } from '../budget';
   import { HyperfyService } from '../service';
   import { AgentControls } from '../systems/controls';
   const MAX_RETRIES = 3;
@@ -167,9 +168,9 @@ ${summary}
     name: 'HYPERFY_EDIT_ENTITY',
     similes: ['EDIT_ENTITY_IN_WORLD', 'MODIFY_SCENE', 'BUILD_STRUCTURE'],
     description: `Performs scene edits in Hyperfy, including duplicating, moving, rotating, scaling, deleting, or importing entities. Use when the user asks to modify or add something in the 3D world.`,
-    validate: async (runtime: IAgentRuntime): Promise<boolean> => {
-      const service = runtime.getService<HyperfyService>(HyperfyService.serviceType);
-      return !!service && service.isConnected() && !!service.getWorld()?.controls;
+    validate: async (runtime: IAgentRuntime, message: Memory): Promise<boolean> => {
+      const session = runtime.getService<HyperfyService>(HyperfyService.serviceType)?.getSessionForMessage(message);
+      return !!session && session.isConnected() && !!session.getWorld()?.controls;
     },
     handler: async (
       runtime: IAgentRuntime,
@@ -179,11 +180,11 @@ ${summary}
       callback: HandlerCallback,
       responses,
     ) => {
-      const service = runtime.getService<HyperfyService>(HyperfyService.serviceType);
-      const world = service?.getWorld();
-      const buildManager = service.getBuildManager();
+      const session = runtime.getService<HyperfyService>(HyperfyService.serviceType)?.getSessionForMessage(message);
+      const world = session?.getWorld();
+      const buildManager = session.getBuildManager();
     
-      if (!service || !world || !buildManager) {
+      if (!session || !world || !buildManager) {
         logger.error('[EDIT_ENTITY Action] Hyperfy service, world, or buildManager not found.');
         return;
       }
@@ -199,7 +200,7 @@ ${summary}
             template: sceneEditOperationExtractionTemplate,
           });
     
-          operationResults = await runtime.useModel(ModelType.OBJECT_LARGE, { prompt });
+          operationResults = await useModelWithBudget(runtime, 'build', ModelType.OBJECT_LARGE, { prompt });
     
           if (Array.isArray(operationResults?.operations)) break;
     
@@ -259,7 +260,7 @@ ${summary}
             break;
         }
         if (description) {
-          const messageManager = service.getMessageManager();
+          const messageManager = session.getMessageManager();
           messageManager.sendMessage(description);
         }
       }
@@ -279,7 +280,7 @@ ${summary}
       
       let finalXml: string;
       try {
-        finalXml = await runtime.useModel(ModelType.TEXT_SMALL, { prompt: agentResponsePrompt });
+        finalXml = await useModelWithBudget(runtime, 'build', ModelType.TEXT_SMALL, { prompt: agentResponsePrompt });
       } catch (err) {
         logger.error('[EDIT_ENTITY Action] Final summarization failed:', err);
         await callback({
@@ -0,0 +1,100 @@
+import {
+    type Action,
+    type HandlerCallback,
+    type IAgentRuntime,
+    type Memory,
+    type State,
+    logger
+} from '@elizaos/core';
+import { HyperfyService } from '../service';
+import { AgentControls } from '../systems/controls'; // Import AgentControls type
+
+/**
+ * Picks who to follow: an explicit entity ID, a player named in the message,
+ * or otherwise the player who sent it.
+ */
+function resolveFollowTarget(world: any, message: Memory, options?: { entityId?: string }): string | null {
+  if (options?.entityId) return options.entityId;
+
+  const agentId = world?.entities?.player?.data?.id;
+  const text = message.content?.text?.toLowerCase() || '';
+  for (const [id, entity] of world?.entities?.items?.entries() ?? []) {
+    const name = entity?.data?.name;
+    if (entity?.data?.type !== 'player' || id === agentId || !name) continue;
+    if (text.includes(name.toLowerCase())) return id;
+  }
+
+  const senderId = (message.content?.metadata as any)?.hyperfyFromId;
+  return senderId && world?.entities?.items?.has(senderId) ? senderId : null;
+}
+
+export const hyperfyFollowPlayerAction: Action = {
+    name: 'HYPERFY_FOLLOW_PLAYER',
+    similes: ['FOLLOW', 'FOLLOW_ME', 'TAG_ALONG', 'ACCOMPANY_PLAYER'],
+    description: 'Keeps following a player around the world until they ask you to stop or leave; use when someone says "follow me" or asks you to come along with them.',
+    validate: async (runtime: IAgentRuntime, message: Memory): Promise<boolean> => {
+      const session = runtime.getService<HyperfyService>(HyperfyService.serviceType)?.getSessionForMessage(message);
+      return !!session && session.isConnected() && !!session.getWorld()?.controls;
+    },
+    handler: async (
+      runtime: IAgentRuntime,
+      message: Memory,
+      _state: State,
+      options: { entityId?: string },
+      callback: HandlerCallback
+    ) => {
+      const session = runtime.getService<HyperfyService>(HyperfyService.serviceType)?.getSessionForMessage(message);
+      const world = session?.getWorld();
+      const controls = world?.controls as AgentControls | undefined;
+
+      if (!session || !controls) {
+        logger.error('[FOLLOW Action] Hyperfy service or controls not found.');
+        await callback({ thought: 'Prerequisites failed.', error: 'Cannot follow. Hyperfy connection/controls unavailable.' });
+        return;
+      }
+
+      const targetId = resolveFollowTarget(world, message, options);
+      if (!targetId) {
+        await callback({
+          text: "I can't see who I should follow.",
+          metadata: { error: 'follow_target_not_found' },
+        });
+        return;
+      }
+
+      const targetName = world.entities.items.get(targetId)?.data?.name || 'you';
+
+      // Following runs until stopped, so don't hold up the response on it
+      controls.startFollowing(targetId).then(async (reason) => {
+        logger.info(`[FOLLOW Action] Follow mode for ${targetName} ended: ${reason}`);
+        if (reason === 'timeout' && session.isConnected()) {
+          await session.getMessageManager()?.sendMessage(`I'll stop following you now, ${targetName}. Just ask if you want me to tag along again!`);
+        } else if (reason === 'unreachable' && session.isConnected()) {
+          await session.getMessageManager()?.sendMessage(`Sorry ${targetName}, I can't find a way to get to you, so I'll stop following.`);
+        }
+      }).catch((error) => {
+        logger.error('[FOLLOW Action] Follow mode failed:', error);
+      });
+
+      await callback({
+        text: `I'm right behind you, ${targetName}!`,
+        actions: ['HYPERFY_FOLLOW_PLAYER'],
+        source: 'hyperfy',
+        metadata: { status: 'following', entityId: targetId },
+      });
+    },
+    examples: [
+      [
+        { name: '{{name1}}', content: { text: 'Follow me, I want to show you something' } },
+        { name: '{{name2}}', content: { text: "I'm right behind you!", actions: ['HYPERFY_FOLLOW_PLAYER'], source: 'hyperfy' } }
+      ],
+      [
+        { name: '{{name1}}', content: { text: 'Can you follow Alice around?' } },
+        { name: '{{name2}}', content: { text: "Sure, I'll tag along with Alice.", actions: ['HYPERFY_FOLLOW_PLAYER'], source: 'hyperfy' } }
+      ],
+      [
+        { name: '{{name1}}', content: { text: 'ついてきて！' } },
+        { name: '{{name2}}', content: { text: 'はーい、ついていきます！', actions: ['HYPERFY_FOLLOW_PLAYER'], source: 'hyperfy' } }
+      ]
+    ]
+  };
@@ -11,26 +11,46 @@ import {
     type EventHandler
 } from '@elizaos/core';
 import { HyperfyService } from '../service';
-import { AgentControls } from '../systems/controls'; // Import AgentControls type
+import { AgentControls, type NavigationOutcome } from '../systems/controls'; // Import AgentControls type
 // Import THREE types if needed, e.g., for metadata typing
 // import type * as THREE from 'three';
+import { useModelWithBudget } from '../budget';
 
 export enum NavigationType {
   ENTITY = 'entity',
   POSITION = 'position',
+  LANDMARK = 'landmark',
 }
 
+/**
+ * What to tell the user once a walk to `place` has ended.
+ */
+const describeOutcome = (outcome: NavigationOutcome, place: string, arrived = `Arrived at ${place}.`): string => {
+  switch (outcome) {
+    case 'reached':
+      return arrived;
+    case 'unreachable':
+      return `I couldn't find a way all the way to ${place}, so I stopped as close as I could get.`;
+    case 'stuck':
+      return `I got stuck on the way to ${place} and gave up.`;
+    case 'interrupted':
+      return `I stopped before reaching ${place}.`;
+  }
+};
+
 const navigationTargetExtractionTemplate = (thoughts?: string) => {
   return `
 # Task:
-Decide whether the agent should navigate to a specific **Entity** or a direct **Position** in the Hyperfy world.
+Decide whether the agent should navigate to a specific **Entity**, a named **Landmark** or a direct **Position** in the Hyperfy world.
 
 # Navigation Types:
 - "entity": Navigate to a known entity by its ID.
+- "landmark": Navigate to a named place listed under **Landmarks** in the world state (e.g., "go to the stage").
 - "position": Navigate to a specific X,Z coordinate (e.g., from user input like "go to the fountain at 5, 10").
 
 # Constraints:
 - Only use **Entity IDs** listed in the current world state.
+- Only use **Landmark names** listed in the current world state. Prefer a landmark when the user names a place.
 - Positions must be 2D coordinates in the format { "x": <number>, "z": <number> }.
 - Never invent or assume entities that are not in the world state.
 - Use "position" only if a direct coordinate is clearly specified or derivable.
@@ -55,6 +75,15 @@ Return your answer as a JSON object in **one** of the following forms:
 
 or
 
+\`\`\`json
+{
+  "navigationType": "${NavigationType.LANDMARK}",
+  "parameter": { "landmark": "<landmark name>" }
+}
+\`\`\`
+
+or
+
 \`\`\`json
 {
   "navigationType": "${NavigationType.POSITION}",
@@ -72,10 +101,10 @@ export const hyperfyGotoEntityAction: Action = {
     name: 'HYPERFY_GOTO_ENTITY',
     similes: ['GO_TO_ENTITY_IN_WORLD', 'MOVE_TO_ENTITY', 'NAVIGATE_TO_ENTITY'],
     description: 'Moves your character to a specified player, object, or world position; use when you need to approach something or go somewhere before interacting.',
-    validate: async (runtime: IAgentRuntime): Promise<boolean> => {
-      const service = runtime.getService<HyperfyService>(HyperfyService.serviceType);
+    validate: async (runtime: IAgentRuntime, message: Memory): Promise<boolean> => {
+      const session = runtime.getService<HyperfyService>(HyperfyService.serviceType)?.getSessionForMessage(message);
       // Check if connected and if controls are available
-      return !!service && service.isConnected() && !!service.getWorld()?.controls;
+      return !!session && session.isConnected() && !!session.getWorld()?.controls;
     },
     handler: async (
       runtime: IAgentRuntime,
@@ -91,11 +120,11 @@ export const hyperfyGotoEntityAction: Action = {
           .filter(Boolean)
           .join('\n') ?? '';
 
-      const service = runtime.getService<HyperfyService>(HyperfyService.serviceType);
-      const world = service?.getWorld(); // Use the getter
+      const session = runtime.getService<HyperfyService>(HyperfyService.serviceType)?.getSessionForMessage(message);
+      const world = session?.getWorld(); // Use the getter
       const controls = world?.controls as AgentControls | undefined; // Get controls and cast type
 
-      if (!service || !world || !controls) {
+      if (!session || !world || !controls) {
         logger.error('[GOTO Action] Hyperfy service, world, or controls not found.');
         await callback({ thought: 'Prerequisites failed.', error: "Cannot navigate. Hyperfy connection/controls unavailable." });
         return;
@@ -110,7 +139,7 @@ export const hyperfyGotoEntityAction: Action = {
           template: navigationTargetExtractionTemplate(thoughtSnippets),
         });
 
-        navigationResult = await runtime.useModel(ModelType.OBJECT_LARGE, { prompt });
+        navigationResult = await useModelWithBudget(runtime, 'action', ModelType.OBJECT_LARGE, { prompt });
         logger.info('[GOTO Action] Navigation target extracted:', navigationResult);
       } catch (error) {
         logger.error(`[GOTO Action] Error during navigation target extraction:`, error);
@@ -144,7 +173,7 @@ export const hyperfyGotoEntityAction: Action = {
             if (!entityId) throw new Error('Missing entityId in parameter.');
 
             logger.info(`Navigating to entity ${entityId}`);
-            await controls.followEntity(entityId);
+            const outcome = await controls.followEntity(entityId);
 
             const targetEntity = world.entities.items.get(parameter.entityId);
             const entityName =
@@ -153,9 +182,30 @@ export const hyperfyGotoEntityAction: Action = {
               `entity ${entityId}`;
 
             await callback({
-              text: `Arrived at ${entityName}.`,
+              text: describeOutcome(outcome, entityName),
               actions: ['HYPERFY_GOTO_ENTITY'],
               source: 'hyperfy',
+              metadata: { outcome },
+            });
+            break;
+          }
+
+          case NavigationType.LANDMARK: {
+            const landmark = session.getLandmarkManager()?.find(parameter?.landmark);
+            if (!landmark) throw new Error(`Unknown landmark "${parameter?.landmark}".`);
+
+            const [x, , z] = landmark.position;
+            logger.info(`Navigating to landmark ${landmark.name} (${x}, ${z})`);
+            const outcome = await controls.goto(x, z);
+            if (outcome === 'reached' && typeof landmark.rotationY === 'number') {
+              controls.faceRotationY(landmark.rotationY);
+            }
+
+            await callback({
+              text: describeOutcome(outcome, landmark.name),
+              actions: ['HYPERFY_GOTO_ENTITY'],
+              source: 'hyperfy',
+              metadata: { outcome },
             });
             break;
           }
@@ -167,12 +217,13 @@ export const hyperfyGotoEntityAction: Action = {
             }
 
             logger.info(`Navigating to position (${pos.x}, ${pos.z})`);
-            await controls.goto(pos.x, pos.z);
+            const outcome = await controls.goto(pos.x, pos.z);
 
             await callback({
-              text: `Reached position (${pos.x}, ${pos.z}).`,
+              text: describeOutcome(outcome, `(${pos.x}, ${pos.z})`, `Reached position (${pos.x}, ${pos.z}).`),
               actions: ['HYPERFY_GOTO_ENTITY'],
               source: 'hyperfy',
+              metadata: { outcome },
             });
             break;
           }
@@ -207,6 +258,10 @@ export const hyperfyGotoEntityAction: Action = {
         { name: '{{name1}}', content: { text: 'Go to the fountain at 12, 8' } },
         { name: '{{name2}}', content: { text: 'Navigating to position (12, 8)...', actions: ['HYPERFY_GOTO_ENTITY'], source: 'hyperfy' } }
       ],
+      [
+        { name: '{{name1}}', content: { text: 'Take me to the stage' } }, // Assuming a landmark named "stage" exists
+        { name: '{{name2}}', content: { text: 'Heading to the stage!', actions: ['HYPERFY_GOTO_ENTITY'], source: 'hyperfy' } }
+      ],
       [
         { name: '{{name1}}', content: { text: 'Walk to coordinate x: 5 z: -3' } },
         { name: '{{name2}}', content: { text: 'Navigating to position (5, -3)...', actions: ['HYPERFY_GOTO_ENTITY'], source: 'hyperfy' } }
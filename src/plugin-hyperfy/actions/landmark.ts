@@ -0,0 +1,192 @@
+import {
+    type Action,
+    composePromptFromState,
+    ModelType,
+    type HandlerCallback,
+    type IAgentRuntime,
+    type Memory,
+    type State,
+    logger,
+} from '@elizaos/core';
+import { HyperfyService } from '../service';
+import { useModelWithBudget } from '../budget';
+
+export enum LandmarkOperation {
+  SAVE_HERE = 'save_here',
+  UPDATE = 'update',
+  REMOVE = 'remove',
+}
+
+const landmarkEditTemplate = (thoughts?: string) => {
+  return `
+# Task:
+Work out how {{agentName}} has been asked to change the named places (landmarks) in this Hyperfy world.
+
+# Operations:
+- "save_here": Remember the spot where {{agentName}} is standing under a name (e.g. "remember this spot as the stage").
+- "update": Rename an existing landmark, or change its aliases or description, without moving it.
+- "remove": Forget an existing landmark.
+
+# Constraints:
+- For "update" and "remove", "name" must be a landmark listed in the world state.
+- Set "keepFacing" to true when the place has a natural front (a stage, a screen, a view) that {{agentName}} should face on arrival.
+- Leave fields you don't need as null.
+
+# Agent Thought:
+${thoughts || 'None'}
+
+# World State:
+{{hyperfyStatus}}
+
+# Instructions:
+Return a JSON object in this form:
+
+\`\`\`json
+{
+  "operation": "save_here" | "update" | "remove",
+  "name": "<landmark name>",
+  "newName": "<string or null>",
+  "aliases": ["<string>"] | null,
+  "description": "<string or null>",
+  "keepFacing": true | false
+}
+\`\`\`
+
+Only return the JSON object. Do not include any extra text or comments.
+  `.trim();
+};
+
+export const hyperfyEditLandmarkAction: Action = {
+    name: 'HYPERFY_EDIT_LANDMARK',
+    similes: ['REMEMBER_PLACE', 'SAVE_LANDMARK', 'NAME_THIS_SPOT', 'FORGET_PLACE'],
+    description: 'Saves, renames or forgets a named place in the world; use when someone asks you to remember where you are standing as a named spot, or to change or forget one.',
+    validate: async (runtime: IAgentRuntime, message: Memory): Promise<boolean> => {
+      const session = runtime.getService<HyperfyService>(HyperfyService.serviceType)?.getSessionForMessage(message);
+      return !!session && session.isConnected() && !!session.getLandmarkManager();
+    },
+    handler: async (
+      runtime: IAgentRuntime,
+      message: Memory,
+      _state: State,
+      _options: {},
+      callback: HandlerCallback,
+      responses,
+    ) => {
+      const thoughtSnippets =
+        responses
+          ?.map((res) => res.content?.thought)
+          .filter(Boolean)
+          .join('\n') ?? '';
+
+      const session = runtime.getService<HyperfyService>(HyperfyService.serviceType)?.getSessionForMessage(message);
+      const landmarkManager = session?.getLandmarkManager();
+
+      if (!session || !landmarkManager) {
+        logger.error('[LANDMARK Action] Hyperfy service or landmark manager not found.');
+        await callback({ thought: 'Prerequisites failed.', error: 'Cannot edit landmarks. Hyperfy connection unavailable.' });
+        return;
+      }
+
+      let edit: any = null;
+      try {
+        const state = await runtime.composeState(message);
+        const prompt = composePromptFromState({
+          state,
+          template: landmarkEditTemplate(thoughtSnippets),
+        });
+        edit = await useModelWithBudget(runtime, 'action', ModelType.OBJECT_LARGE, { prompt });
+        logger.info('[LANDMARK Action] Landmark edit extracted:', edit);
+      } catch (error) {
+        logger.error('[LANDMARK Action] Error during landmark edit extraction:', error);
+        await callback({
+          thought: 'Failed to extract landmark edit.',
+          text: 'Action failed: Could not work out which place to remember.',
+          metadata: { error: 'extraction_failed' },
+        });
+        return;
+      }
+
+      if (!edit?.operation || !edit?.name) {
+        await callback({
+          thought: 'Landmark edit missing or malformed.',
+          text: 'Action failed: Invalid landmark edit.',
+          metadata: { error: 'invalid_landmark_edit' },
+        });
+        return;
+      }
+
+      const aliases = Array.isArray(edit.aliases) ? edit.aliases.filter((a: unknown) => typeof a === 'string') : undefined;
+      const description = edit.description || undefined;
+
+      try {
+        switch (edit.operation) {
+          case LandmarkOperation.SAVE_HERE: {
+            const landmark = await landmarkManager.saveHere(edit.name, {
+              aliases,
+              description,
+              keepFacing: !!edit.keepFacing,
+              createdBy: message.entityId,
+            });
+            await callback({
+              text: `Got it, this spot is now "${landmark.name}".`,
+              actions: ['HYPERFY_EDIT_LANDMARK'],
+              source: 'hyperfy',
+            });
+            break;
+          }
+
+          case LandmarkOperation.UPDATE: {
+            const landmark = await landmarkManager.update(edit.name, {
+              name: edit.newName || undefined,
+              aliases,
+              description,
+            });
+            await callback({
+              text: `Updated "${landmark.name}".`,
+              actions: ['HYPERFY_EDIT_LANDMARK'],
+              source: 'hyperfy',
+            });
+            break;
+          }
+
+          case LandmarkOperation.REMOVE: {
+            const removed = await landmarkManager.remove(edit.name);
+            if (!removed) throw new Error(`No landmark called "${edit.name}".`);
+            await callback({
+              text: `Okay, I've forgotten "${edit.name}".`,
+              actions: ['HYPERFY_EDIT_LANDMARK'],
+              source: 'hyperfy',
+            });
+            break;
+          }
+
+          default:
+            throw new Error(`Unsupported landmark operation: ${edit.operation}`);
+        }
+      } catch (error: any) {
+        logger.error('[LANDMARK Action] Landmark edit failed:', error);
+        await callback({
+          text: `Landmark edit failed: ${error.message}`,
+          metadata: { error: 'landmark_error', detail: error.message },
+        });
+      }
+    },
+    examples: [
+      [
+        { name: '{{name1}}', content: { text: 'Coo, remember this spot as the stage' } },
+        { name: '{{name2}}', content: { text: 'Got it, this spot is now "stage".', actions: ['HYPERFY_EDIT_LANDMARK'], source: 'hyperfy' } }
+      ],
+      [
+        { name: '{{name1}}', content: { text: 'Call the stage "main stage" from now on' } },
+        { name: '{{name2}}', content: { text: 'Updated "main stage".', actions: ['HYPERFY_EDIT_LANDMARK'], source: 'hyperfy' } }
+      ],
+      [
+        { name: '{{name1}}', content: { text: 'Forget the fountain, it was removed' } },
+        { name: '{{name2}}', content: { text: 'Okay, I\'ve forgotten "fountain".', actions: ['HYPERFY_EDIT_LANDMARK'], source: 'hyperfy' } }
+      ],
+      [
+        { name: '{{name1}}', content: { text: 'ここを「噴水」として覚えて' } },
+        { name: '{{name2}}', content: { text: 'ここを「噴水」として覚えました！', actions: ['HYPERFY_EDIT_LANDMARK'], source: 'hyperfy' } }
+      ]
+    ]
+  };
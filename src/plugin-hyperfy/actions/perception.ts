@@ -11,6 +11,7 @@ import {
 } from '@elizaos/core';
 
 import { HyperfyService } from '../service';
+import { useModelWithBudget } from '../budget';
 export enum SnapshotType {
   LOOK_AROUND     = 'LOOK_AROUND',
   LOOK_DIRECTION  = 'LOOK_DIRECTION',
@@ -156,9 +157,9 @@ export const hyperfyScenePerceptionAction: Action = {
   name: 'HYPERFY_SCENE_PERCEPTION',
   similes: ['LOOK_AROUND', 'OBSERVE_SURROUNDINGS', 'LOOK_AT_SCENE', 'CHECK_VIEW'],
   description: 'Choose this when the user asks the agent to look around, look in a specific direction, or examine a visible object — it captures and interprets a scene snapshot to generate a context-aware response.',
-  validate: async (runtime: IAgentRuntime): Promise<boolean> => {
-    const service = runtime.getService<HyperfyService>(HyperfyService.serviceType);
-    return !!service && service.isConnected() && !!service.getWorld();
+  validate: async (runtime: IAgentRuntime, message: Memory): Promise<boolean> => {
+    const session = runtime.getService<HyperfyService>(HyperfyService.serviceType)?.getSessionForMessage(message);
+    return !!session && session.isConnected() && !!session.getWorld();
   },
 
   handler: async (
@@ -168,14 +169,14 @@ export const hyperfyScenePerceptionAction: Action = {
     _options: {},
     callback: HandlerCallback
   ) => {
-    const service = runtime.getService<HyperfyService>(HyperfyService.serviceType);
-    const world = service?.getWorld();
-    const puppeteerManager = service?.getPuppeteerManager();
+    const session = runtime.getService<HyperfyService>(HyperfyService.serviceType)?.getSessionForMessage(message);
+    const world = session?.getWorld();
+    const puppeteerManager = session?.getPuppeteerManager();
     const controls = world.controls;
 
     controls.stopAllActions();
 
-    if (!service || !world || !puppeteerManager) {
+    if (!session || !world || !puppeteerManager) {
       logger.error('Hyperfy service/world unavailable.');
       await callback({ text: 'Unable to observe environment. Hyperfy world not available.' });
       return;
@@ -187,7 +188,7 @@ export const hyperfyScenePerceptionAction: Action = {
     const selectionPrompt = composePromptFromState({ state, template: sceneSnapshotSelectionTemplate });
     let selectionRaw: string;
     try {
-      selectionRaw = await runtime.useModel(ModelType.TEXT_LARGE, { prompt: selectionPrompt });
+      selectionRaw = await useModelWithBudget(runtime, 'perception', ModelType.TEXT_LARGE, { prompt: selectionPrompt });
     } catch (err) {
       logger.error('Snapshot‑selector model failed:', err);
       await callback({ thought: 'Cannot decide how to look.', metadata: { error: 'selector_failure' } });
@@ -239,7 +240,7 @@ export const hyperfyScenePerceptionAction: Action = {
     const imgDescPrompt = composePromptFromState({ state, template: detailedImageDescriptionTemplate });
     let sceneDescription: string;
     try {
-      const res = await runtime.useModel(ModelType.IMAGE_DESCRIPTION, { imageUrl: imgBase64, prompt: imgDescPrompt });
+      const res = await useModelWithBudget(runtime, 'perception', ModelType.IMAGE_DESCRIPTION, { imageUrl: imgBase64, prompt: imgDescPrompt });
       sceneDescription = typeof res === 'string' ? res : res.description;
     } catch (err) {
       logger.error('IMAGE_DESCRIPTION failed:', err);
@@ -270,7 +271,7 @@ export const hyperfyScenePerceptionAction: Action = {
     const responsePrompt = composePromptFromState({ state, template: responseGenerationTemplate(fullSceneDescription) });
     let xmlRaw: string;
     try {
-      xmlRaw = await runtime.useModel(ModelType.TEXT_LARGE, { prompt: responsePrompt });
+      xmlRaw = await useModelWithBudget(runtime, 'perception', ModelType.TEXT_LARGE, { prompt: responsePrompt });
     } catch (err) {
       logger.error('Response generator failed:', err);
       await callback({ thought: 'No response generated.', metadata: { error: 'text_large_failure' } });
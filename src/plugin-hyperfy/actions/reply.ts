@@ -9,6 +9,7 @@ import {
   ModelType,
   type State,
 } from '@elizaos/core';
+import { useModelWithBudget } from '../budget';
 
 /**
  * Template for generating dialog and actions for a character.
@@ -109,7 +110,7 @@ export const replyAction = {
       template: replyTemplate,
     });
 
-    const response = await runtime.useModel(ModelType.OBJECT_LARGE, {
+    const response = await useModelWithBudget(runtime, 'action', ModelType.OBJECT_LARGE, {
       prompt,
     });
 
@@ -11,24 +11,24 @@ import { AgentControls } from '../systems/controls'; // Import AgentControls typ
 
 export const hyperfyStopMovingAction: Action = {
     name: 'HYPERFY_STOP_MOVING',
-    similes: ['STOP', 'HALT', 'STOP_WALKING', 'CANCEL_MOVEMENT', 'STOP_PATROLLING'],
-    description: 'Instantly stops your current walking or pathing; use to pause movement before speaking or performing another action.',
-    validate: async (runtime: IAgentRuntime): Promise<boolean> => {
-      const service = runtime.getService<HyperfyService>(HyperfyService.serviceType);
-      const controls = service?.getWorld()?.controls as AgentControls | undefined;
+    similes: ['STOP', 'HALT', 'STOP_WALKING', 'CANCEL_MOVEMENT', 'STOP_PATROLLING', 'STOP_FOLLOWING'],
+    description: 'Instantly stops your current walking, pathing or following; use to pause movement before speaking or performing another action, or when asked to stop following someone.',
+    validate: async (runtime: IAgentRuntime, message: Memory): Promise<boolean> => {
+      const session = runtime.getService<HyperfyService>(HyperfyService.serviceType)?.getSessionForMessage(message);
+      const controls = session?.getWorld()?.controls as AgentControls | undefined;
       // Valid only if connected and controls are available
       // Optional: Could check if getIsNavigating() or getIsPatrolling() is true
-      return !!service && service.isConnected() && !!controls;
+      return !!session && session.isConnected() && !!controls;
     },
     handler: async (
       runtime: IAgentRuntime,
-      _message: Memory,
+      message: Memory,
       _state: State,
       options: { reason?: string }, // Optional reason for stopping
       callback: HandlerCallback
     ) => {
-      const service = runtime.getService<HyperfyService>(HyperfyService.serviceType);
-      const controls = service?.getWorld()?.controls as AgentControls | undefined;
+      const session = runtime.getService<HyperfyService>(HyperfyService.serviceType)?.getSessionForMessage(message);
+      const controls = session?.getWorld()?.controls as AgentControls | undefined;
 
       if (!controls) {
         // Should not happen if validate works, but good practice
@@ -47,6 +47,8 @@ export const hyperfyStopMovingAction: Action = {
       const reason = options?.reason || "stop action called";
 
       try {
+        // A tour would just walk on to its next stop, so end it too
+        session.getTourManager()?.stop(reason);
         // Call the stop navigation method
         controls.stopAllActions(reason);
 
@@ -66,6 +68,10 @@ export const hyperfyStopMovingAction: Action = {
       [
         { name: '{{name1}}', content: { text: 'Stop walking.' } }, // Assumes agent is moving via GOTO
         { name: '{{name2}}', content: { text: 'Stopped current movement. Reason: stop action called', actions: ['HYPERFY_STOP_MOVING'], source: 'hyperfy' } }
+      ],
+       [
+        { name: '{{name1}}', content: { text: "You can stop following me now, thanks!" } }, // Assumes agent is in follow mode
+        { name: '{{name2}}', content: { text: 'Stopped current movement. Reason: stop action called', actions: ['HYPERFY_STOP_MOVING'], source: 'hyperfy' } }
       ],
        [
         { name: '{{name1}}', content: { text: 'Halt!' } }, // Assumes agent is moving via GOTO
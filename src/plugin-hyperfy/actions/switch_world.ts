@@ -0,0 +1,172 @@
+import {
+    type Action,
+    composePromptFromState,
+    ModelType,
+    type HandlerCallback,
+    type IAgentRuntime,
+    type Memory,
+    type State,
+    logger,
+} from '@elizaos/core';
+import { HyperfyService } from '../service';
+import { WorldSwitchError } from '../session';
+import type { WorldDirectoryEntry } from '../world-directory';
+import { useModelWithBudget } from '../budget';
+
+const formatWorldList = (worlds: WorldDirectoryEntry[]) =>
+  worlds
+    .map((w) => {
+      const aliases = w.aliases?.length ? ` (also called: ${w.aliases.join(', ')})` : '';
+      const description = w.description ? ` — ${w.description}` : '';
+      return `- "${w.name}"${aliases}${description}`;
+    })
+    .join('\n');
+
+const switchWorldTemplate = (currentWorld: string, worldList: string, thoughts?: string) => {
+  return `
+# Task:
+Decide which Hyperfy world {{agentName}} has been asked to travel to.
+
+# Current World:
+${currentWorld}
+
+# Known Worlds:
+${worldList}
+
+# Constraints:
+- Only choose a world from the **Known Worlds** list, using its exact name.
+- Never choose the current world.
+- If no listed world matches the request, use null.
+
+# Agent Thought:
+${thoughts || 'None'}
+
+{{providers}}
+
+# Instructions:
+Return a JSON object with the chosen world and a short, friendly line {{agentName}} says in chat before leaving.
+
+\`\`\`json
+{
+  "world": "<world name or null>",
+  "announcement": "<string>"
+}
+\`\`\`
+
+Only return the JSON object. Do not include any extra text or comments.
+  `.trim();
+};
+
+export const hyperfySwitchWorldAction: Action = {
+    name: 'HYPERFY_SWITCH_WORLD',
+    similes: ['CHANGE_WORLD', 'TRAVEL_TO_WORLD', 'VISIT_WORLD', 'GO_TO_WORLD'],
+    description: 'Leaves the current Hyperfy world and travels to another named world; use only when someone explicitly asks you to visit or move to a different world.',
+    validate: async (runtime: IAgentRuntime, message: Memory): Promise<boolean> => {
+      const service = runtime.getService<HyperfyService>(HyperfyService.serviceType);
+      const session = service?.getSessionForMessage(message);
+      if (!session || !session.isConnected()) return false;
+      // Only offer the action when there's somewhere else to go
+      return service
+        .getWorldDirectory()
+        .list()
+        .some((entry) => entry.wsUrl !== session.currentWsUrl);
+    },
+    handler: async (
+      runtime: IAgentRuntime,
+      message: Memory,
+      _state: State,
+      _options: {},
+      callback: HandlerCallback,
+      responses,
+    ) => {
+      const thoughtSnippets =
+        responses
+          ?.map((res) => res.content?.thought)
+          .filter(Boolean)
+          .join('\n') ?? '';
+
+      const service = runtime.getService<HyperfyService>(HyperfyService.serviceType);
+      const session = service?.getSessionForMessage(message);
+
+      if (!service || !session) {
+        logger.error('[SWITCH_WORLD Action] Hyperfy service or world session not found.');
+        await callback({ thought: 'Prerequisites failed.', error: 'Cannot switch worlds. Hyperfy connection unavailable.' });
+        return;
+      }
+
+      const directory = service.getWorldDirectory();
+      const currentWorld = service.getWorldName(session);
+      const destinations = directory.list().filter((entry) => entry.wsUrl !== session.currentWsUrl);
+
+      let selection: any = null;
+      try {
+        const state = await runtime.composeState(message);
+        const prompt = composePromptFromState({
+          state,
+          template: switchWorldTemplate(currentWorld, formatWorldList(destinations), thoughtSnippets),
+        });
+        selection = await useModelWithBudget(runtime, 'action', ModelType.OBJECT_LARGE, { prompt });
+        logger.info('[SWITCH_WORLD Action] World selection extracted:', selection);
+      } catch (error) {
+        logger.error('[SWITCH_WORLD Action] Error during world selection:', error);
+        await callback({
+          thought: 'Failed to decide which world to visit.',
+          text: 'Action failed: Could not determine a destination world.',
+          metadata: { error: 'extraction_failed' },
+        });
+        return;
+      }
+
+      const entry = selection?.world ? directory.find(selection.world) : null;
+      if (!entry || entry.wsUrl === session.currentWsUrl) {
+        await callback({
+          thought: `No known world matches the request. Known worlds: ${destinations.map((w) => w.name).join(', ')}.`,
+          text: `I don't know how to get there yet. I can visit: ${destinations.map((w) => w.name).join(', ')}.`,
+          metadata: { error: 'unknown_world', requested: selection?.world ?? null },
+        });
+        return;
+      }
+
+      // Say goodbye in the current world before the connection goes away
+      await callback({
+        text: selection.announcement || `I'm heading over to ${entry.name}. See you later!`,
+        actions: ['HYPERFY_SWITCH_WORLD'],
+        source: 'hyperfy',
+      });
+
+      try {
+        await service.switchWorld(entry, { sessionId: session.id });
+        logger.info(`[SWITCH_WORLD Action] Moved from ${currentWorld} to ${entry.name}`);
+      } catch (error: any) {
+        logger.error('[SWITCH_WORLD Action] World switch failed:', error);
+        if (error instanceof WorldSwitchError && error.returned) {
+          await callback({
+            text: `I couldn't make it to ${entry.name}, so I'm staying here.`,
+            metadata: { error: 'switch_failed', detail: error.message },
+          });
+          return;
+        }
+        // Not back in either world, so there is nowhere to say it; the reconnect loop takes over
+        logger.error(`[SWITCH_WORLD Action] Couldn't reach ${entry.name} or get back to ${currentWorld}, reconnecting`);
+        await callback({
+          thought: `The switch to ${entry.name} failed and so did returning to ${currentWorld}.`,
+          text: `Action failed: couldn't reach ${entry.name} or return to ${currentWorld}.`,
+          metadata: { error: 'switch_and_return_failed', detail: error.message },
+        });
+      }
+    },
+    examples: [
+      [
+        { name: '{{name1}}', content: { text: 'Coo, come visit the gallery world' } },
+        { name: '{{name2}}', content: { text: "Ooh, the gallery! I'm heading over there now. See you all later!", actions: ['HYPERFY_SWITCH_WORLD'], source: 'hyperfy' } }
+      ],
+      [
+        { name: '{{name1}}', content: { text: 'Can you go back home?' } },
+        { name: '{{name2}}', content: { text: 'Sure, heading home. Bye everyone!', actions: ['HYPERFY_SWITCH_WORLD'], source: 'hyperfy' } }
+      ],
+      [
+        { name: '{{name1}}', content: { text: 'ギャラリーのワールドに来て！' } },
+        { name: '{{name2}}', content: { text: 'ギャラリーに行きますね！またね！', actions: ['HYPERFY_SWITCH_WORLD'], source: 'hyperfy' } }
+      ]
+    ]
+  };
@@ -24,13 +24,13 @@ export const teleportToUserAction: Action = {
         callback: HandlerCallback
     ) => {
         elizaLogger.info("[Teleport Action] Handler triggered.");
-        const service = runtime.getService<HyperfyService>(HyperfyService.serviceType);
-        if (!service) {
-            elizaLogger.error("[Teleport Action] HyperfyService not found.");
+        const session = runtime.getService<HyperfyService>(HyperfyService.serviceType)?.getSessionForMessage(message);
+        if (!session) {
+            elizaLogger.error("[Teleport Action] Hyperfy world session not found.");
             return false;
         }
 
-        const world = service.getWorld();
+        const world = session.getWorld();
         if (!world) {
             elizaLogger.warn("[Teleport Action] World not ready.");
             return false;
@@ -0,0 +1,150 @@
+import {
+    type Action,
+    composePromptFromState,
+    ModelType,
+    type HandlerCallback,
+    type IAgentRuntime,
+    type Memory,
+    type State,
+    logger,
+} from '@elizaos/core';
+import { HyperfyService } from '../service';
+import type { Tour } from '../managers/tour-manager';
+import { useModelWithBudget } from '../budget';
+
+const formatTourList = (tours: Tour[]) =>
+  tours
+    .map((tour) => {
+      const aliases = tour.aliases?.length ? ` (also called: ${tour.aliases.join(', ')})` : '';
+      const description = tour.description ? ` — ${tour.description}` : '';
+      return `- "${tour.name}"${aliases}${description}`;
+    })
+    .join('\n');
+
+const tourSelectionTemplate = (tourList: string, thoughts?: string) => {
+  return `
+# Task:
+Decide which guided tour {{agentName}} has been asked to give.
+
+# Available Tours:
+${tourList}
+
+# Constraints:
+- Only choose a tour from the **Available Tours** list, using its exact name.
+- If the request is general ("show me around"), pick the tour that fits best.
+- If no tour fits, use null.
+
+# Agent Thought:
+${thoughts || 'None'}
+
+{{providers}}
+
+# Instructions:
+Return a JSON object with the chosen tour and a short, friendly line {{agentName}} says to gather everyone before setting off.
+
+\`\`\`json
+{
+  "tour": "<tour name or null>",
+  "announcement": "<string>"
+}
+\`\`\`
+
+Only return the JSON object. Do not include any extra text or comments.
+  `.trim();
+};
+
+export const hyperfyStartTourAction: Action = {
+    name: 'HYPERFY_START_TOUR',
+    similes: ['GIVE_TOUR', 'GUIDED_TOUR', 'SHOW_AROUND', 'START_TOUR'],
+    description: 'Starts a guided tour that walks visitors through a series of stops with narration; use when someone asks for a tour or to be shown around.',
+    validate: async (runtime: IAgentRuntime, message: Memory): Promise<boolean> => {
+      const session = runtime.getService<HyperfyService>(HyperfyService.serviceType)?.getSessionForMessage(message);
+      const tourManager = session?.getTourManager();
+      return !!session && session.isConnected() && !!tourManager && !tourManager.isRunning() && tourManager.listTours().length > 0;
+    },
+    handler: async (
+      runtime: IAgentRuntime,
+      message: Memory,
+      _state: State,
+      _options: {},
+      callback: HandlerCallback,
+      responses,
+    ) => {
+      const thoughtSnippets =
+        responses
+          ?.map((res) => res.content?.thought)
+          .filter(Boolean)
+          .join('\n') ?? '';
+
+      const session = runtime.getService<HyperfyService>(HyperfyService.serviceType)?.getSessionForMessage(message);
+      const tourManager = session?.getTourManager();
+
+      if (!session || !tourManager) {
+        logger.error('[TOUR Action] Hyperfy service or tour manager not found.');
+        await callback({ thought: 'Prerequisites failed.', error: 'Cannot start a tour. Hyperfy connection unavailable.' });
+        return;
+      }
+
+      const tours = tourManager.listTours();
+      let selection: any = null;
+      try {
+        const state = await runtime.composeState(message);
+        const prompt = composePromptFromState({
+          state,
+          template: tourSelectionTemplate(formatTourList(tours), thoughtSnippets),
+        });
+        selection = await useModelWithBudget(runtime, 'action', ModelType.OBJECT_LARGE, { prompt });
+        logger.info('[TOUR Action] Tour selection extracted:', selection);
+      } catch (error) {
+        logger.error('[TOUR Action] Error during tour selection:', error);
+        await callback({
+          thought: 'Failed to decide which tour to give.',
+          text: 'Action failed: Could not determine a tour.',
+          metadata: { error: 'extraction_failed' },
+        });
+        return;
+      }
+
+      const tour = selection?.tour ? tourManager.findTour(selection.tour) : null;
+      if (!tour) {
+        await callback({
+          thought: `No tour matches the request. Available tours: ${tours.map((t) => t.name).join(', ')}.`,
+          text: `I don't have a tour like that yet. I can show you: ${tours.map((t) => t.name).join(', ')}.`,
+          metadata: { error: 'unknown_tour', requested: selection?.tour ?? null },
+        });
+        return;
+      }
+
+      // Announce first, so the first stop's narration doesn't talk over it
+      await callback({
+        text: selection.announcement || `Let's go! Follow me for the ${tour.name} tour.`,
+        actions: ['HYPERFY_START_TOUR'],
+        source: 'hyperfy',
+        metadata: { status: 'tour_started', tourId: tour.id },
+      });
+
+      try {
+        tourManager.start(tour, (message.content?.metadata as any)?.hyperfyFromId);
+      } catch (error: any) {
+        logger.error('[TOUR Action] Failed to start tour:', error);
+        await callback({
+          text: `Sorry, I can't start that tour right now: ${error.message}`,
+          metadata: { error: 'tour_start_failed', detail: error.message },
+        });
+      }
+    },
+    examples: [
+      [
+        { name: '{{name1}}', content: { text: 'Can you show me around?' } },
+        { name: '{{name2}}', content: { text: "I'd love to! Stick close, the tour starts now.", actions: ['HYPERFY_START_TOUR'], source: 'hyperfy' } }
+      ],
+      [
+        { name: '{{name1}}', content: { text: 'Give us the gallery tour please' } },
+        { name: '{{name2}}', content: { text: 'Gallery tour it is! Follow me, everyone.', actions: ['HYPERFY_START_TOUR'], source: 'hyperfy' } }
+      ],
+      [
+        { name: '{{name1}}', content: { text: 'ツアーお願いします！' } },
+        { name: '{{name2}}', content: { text: 'はい！ついてきてくださいね、ツアーを始めます！', actions: ['HYPERFY_START_TOUR'], source: 'hyperfy' } }
+      ]
+    ]
+  };
@@ -13,23 +13,23 @@ import {
     name: 'HYPERFY_UNUSE_ITEM',
     similes: ['RELEASE_ITEM', 'DROP_ITEM', 'CANCEL_INTERACTION'],
     description: `Drops or stops interacting with the currently held item; use when a player tells you to release it or you're done using it.`,
-    validate: async (runtime: IAgentRuntime): Promise<boolean> => {
-      const service = runtime.getService<HyperfyService>(HyperfyService.serviceType);
-      const world = service?.getWorld();
-      return !!service && service.isConnected() && !!world?.actions;
+    validate: async (runtime: IAgentRuntime, message: Memory): Promise<boolean> => {
+      const session = runtime.getService<HyperfyService>(HyperfyService.serviceType)?.getSessionForMessage(message);
+      const world = session?.getWorld();
+      return !!session && session.isConnected() && !!world?.actions;
     },
     handler: async (
       runtime: IAgentRuntime,
-      _message: Memory,
+      message: Memory,
       _state: State,
       _options: {},
       callback: HandlerCallback
     ) => {
-      const service = runtime.getService<HyperfyService>(HyperfyService.serviceType);
-      const world = service?.getWorld();
+      const session = runtime.getService<HyperfyService>(HyperfyService.serviceType)?.getSessionForMessage(message);
+      const world = session?.getWorld();
       const actions = world?.actions as AgentActions | undefined;
   
-      if (!service || !world || !actions) {
+      if (!session || !world || !actions) {
         logger.error('[UNUSE ITEM] Hyperfy service, world, or actions system not found.');
         await callback({ text: "Error: Cannot unuse item. Required systems are unavailable." });
         return;
@@ -11,6 +11,7 @@ import {
 import { HyperfyService } from '../service';
 import { AgentActions } from '../systems/actions';
 import { AgentControls } from '../systems/controls';
+import { useModelWithBudget } from '../budget';
 
 // Template to extract entity to interact with
 const useItemTemplate = `
@@ -35,10 +36,10 @@ export const hyperfyUseItemAction: Action = {
   name: 'HYPERFY_USE_ITEM',
   similes: ['INTERACT_WITH_ITEM', 'USE_NEARBY_OBJECT', 'PICK_UP_ITEM'],
   description: 'Walks to and interacts with a nearby usable item (like picking it up); use when a player asks you to use or grab something.',
-  validate: async (runtime: IAgentRuntime): Promise<boolean> => {
-    const service = runtime.getService<HyperfyService>(HyperfyService.serviceType);
-    const world = service?.getWorld();
-    return !!service && service.isConnected() && !!world?.controls && !!world?.actions;
+  validate: async (runtime: IAgentRuntime, message: Memory): Promise<boolean> => {
+    const session = runtime.getService<HyperfyService>(HyperfyService.serviceType)?.getSessionForMessage(message);
+    const world = session?.getWorld();
+    return !!session && session.isConnected() && !!world?.controls && !!world?.actions;
   },
   handler: async (
     runtime: IAgentRuntime,
@@ -47,12 +48,12 @@ export const hyperfyUseItemAction: Action = {
     options: { entityId?: string },
     callback: HandlerCallback
   ) => {
-    const service = runtime.getService<HyperfyService>(HyperfyService.serviceType);
-    const world = service?.getWorld();
+    const session = runtime.getService<HyperfyService>(HyperfyService.serviceType)?.getSessionForMessage(message);
+    const world = session?.getWorld();
     const controls = world?.controls as AgentControls;
     const actions = world?.actions as AgentActions | undefined;
 
-    if (!service || !world || !actions) {
+    if (!session || !world || !actions) {
       logger.error('Hyperfy service, world, or actions not found for HYPERFY_USE_ITEM action.');
       await callback({ text: "Error: Cannot use item. Agent action system unavailable." });
       return;
@@ -65,7 +66,7 @@ export const hyperfyUseItemAction: Action = {
       try {
         const useState = await runtime.composeState(message, ['HYPERFY_WORLD_STATE', 'RECENT_MESSAGES'], true);
         const prompt = composePromptFromState({ state: useState, template: useItemTemplate });
-        const response = await runtime.useModel(ModelType.OBJECT_SMALL, { prompt });
+        const response = await useModelWithBudget(runtime, 'action', ModelType.OBJECT_SMALL, { prompt });
 
         if (response?.entityId && typeof response.entityId === 'string') {
           targetEntityId = response.entityId;
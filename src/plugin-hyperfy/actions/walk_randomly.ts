@@ -20,23 +20,23 @@ export const hyperfyWalkRandomlyAction: Action = {
     name: 'HYPERFY_WALK_RANDOMLY',
     similes: ['WANDER', 'PACE_AROUND', 'WALK_AROUND', 'MOVE_RANDOMLY'], // Reverted similes/desc
     description: 'Makes your character wander to random points nearby; use for idle behavior or ambient movement.',
-    validate: async (runtime: IAgentRuntime): Promise<boolean> => {
-      const service = runtime.getService<HyperfyService>(HyperfyService.serviceType);
+    validate: async (runtime: IAgentRuntime, message: Memory): Promise<boolean> => {
+      const session = runtime.getService<HyperfyService>(HyperfyService.serviceType)?.getSessionForMessage(message);
       // Keep validation simple: Check if controls exist
-      return !!service && service.isConnected() && !!service.getWorld()?.controls;
+      return !!session && session.isConnected() && !!session.getWorld()?.controls;
     },
     handler: async (
       runtime: IAgentRuntime,
-      _message: Memory,
+      message: Memory,
       _state: State,
       options: { interval?: number, distance?: number, command?: 'start' | 'stop' }, // Reverted options
       callback: HandlerCallback,
     ) => {
-      const service = runtime.getService<HyperfyService>(HyperfyService.serviceType);
-      const world = service?.getWorld();
+      const session = runtime.getService<HyperfyService>(HyperfyService.serviceType)?.getSessionForMessage(message);
+      const world = session?.getWorld();
       const controls = world?.controls as AgentControls | undefined;
 
-      if (!service || !world || !controls) {
+      if (!session || !world || !controls) {
         logger.error('Hyperfy service, world, or controls not found for HYPERFY_WALK_RANDOMLY action.');
         await callback({ text: "Error: Cannot wander. Hyperfy connection/controls unavailable." });
         return;
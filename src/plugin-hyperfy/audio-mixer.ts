@@ -0,0 +1,136 @@
+type MixerSource = { data: Int16Array; playing: boolean; lastPushAt: number };
+
+/**
+ * Mixes live mono 16-bit PCM streams (one per speaker) into one. Each source
+ * is buffered on its own: it starts playing once a little audio has built up,
+ * so network jitter doesn't chop it, and anything beyond `maxBufferedMs` is
+ * dropped so a stalled source can't add latency. A source that runs dry is
+ * silence until it has built up again. One that stops short of the prebuffer
+ * plays what it has once nothing more arrived for a prebuffer's worth of time.
+ */
+export class PcmMixer {
+  private sources: Map<string, MixerSource> = new Map();
+  private prebufferMs: number;
+  private prebufferSamples: number;
+  private maxBufferedSamples: number;
+
+  constructor(sampleRate: number, prebufferMs = 60, maxBufferedMs = 500) {
+    this.prebufferMs = prebufferMs;
+    this.prebufferSamples = Math.round((sampleRate * prebufferMs) / 1000);
+    this.maxBufferedSamples = Math.round((sampleRate * maxBufferedMs) / 1000);
+  }
+
+  push(source: string, samples: Int16Array): void {
+    if (!samples.length) return;
+    const current = this.sources.get(source);
+    let data = samples;
+    if (current) {
+      data = new Int16Array(current.data.length + samples.length);
+      data.set(current.data);
+      data.set(samples, current.data.length);
+    }
+    if (data.length > this.maxBufferedSamples) data = data.slice(data.length - this.maxBufferedSamples);
+    this.sources.set(source, {
+      data,
+      playing: current?.playing || data.length >= this.prebufferSamples,
+      lastPushAt: Date.now(),
+    });
+  }
+
+  /**
+   * Whether any source has audio waiting.
+   */
+  hasAudio(): boolean {
+    this.flushStalled();
+    return this.sources.size > 0;
+  }
+
+  /**
+   * The next `length` samples of every playing source mixed together, or
+   * null if none is playing.
+   */
+  read(length: number): Int16Array | null {
+    this.flushStalled();
+    for (const source of this.sources.values()) {
+      if (source.playing) return this.mixInto(new Int16Array(length));
+    }
+    return null;
+  }
+
+  /**
+   * Adds the next `base.length` samples of every playing source to `base`,
+   * clipping to 16 bits. Returns a new array; `base` is left as it was.
+   */
+  mixInto(base: Int16Array): Int16Array {
+    this.flushStalled();
+    const sum = Int32Array.from(base);
+    for (const [name, source] of this.sources) {
+      if (!source.playing) continue;
+      const count = Math.min(sum.length, source.data.length);
+      for (let i = 0; i < count; i++) sum[i] += source.data[i];
+      if (source.data.length > count) {
+        source.data = source.data.subarray(count);
+      } else {
+        this.sources.delete(name);
+      }
+    }
+    const mixed = new Int16Array(sum.length);
+    for (let i = 0; i < sum.length; i++) mixed[i] = Math.max(-32768, Math.min(32767, sum[i]));
+    return mixed;
+  }
+
+  clear(): void {
+    this.sources.clear();
+  }
+
+  /**
+   * Starts playing sources that are still buffering but went quiet (the tail
+   * of an utterance), so their audio gets out and they don't linger forever.
+   */
+  private flushStalled(): void {
+    const now = Date.now();
+    for (const source of this.sources.values()) {
+      if (!source.playing && now - source.lastPushAt >= this.prebufferMs) source.playing = true;
+    }
+  }
+}
+
+/**
+ * Counts fixed-length frames against the wall clock, so a timer that fires
+ * late produces the frames it missed instead of slowly falling behind. After
+ * a long stall it starts over rather than bursting.
+ */
+export class FrameClock {
+  private frameMs: number;
+  private maxCatchUp: number;
+  private startedAt: number | null = null;
+  private frames = 0;
+
+  constructor(frameMs: number, maxCatchUp = 5) {
+    this.frameMs = frameMs;
+    this.maxCatchUp = maxCatchUp;
+  }
+
+  /**
+   * How many frames are due since the last call (at least one on the first).
+   */
+  due(now = Date.now()): number {
+    if (this.startedAt === null) {
+      this.startedAt = now;
+      this.frames = 0;
+    }
+    let due = Math.floor((now - this.startedAt) / this.frameMs) + 1 - this.frames;
+    if (due > this.maxCatchUp) {
+      this.startedAt = now;
+      this.frames = 0;
+      due = 1;
+    }
+    due = Math.max(0, due);
+    this.frames += due;
+    return due;
+  }
+
+  reset(): void {
+    this.startedAt = null;
+  }
+}
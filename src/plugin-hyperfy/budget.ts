@@ -0,0 +1,230 @@
+import { logger, ModelType, type IAgentRuntime } from '@elizaos/core'
+import { mentionsName } from './utils'
+
+const parseLimit = (value: string | undefined): number => {
+  const parsed = Number(value)
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : 0
+}
+
+// Ceilings on LLM usage; 0 (or unset) means no limit
+const HYPERFY_BUDGET_HOURLY_TOKENS = parseLimit(process.env.HYPERFY_BUDGET_HOURLY_TOKENS)
+const HYPERFY_BUDGET_DAILY_TOKENS = parseLimit(process.env.HYPERFY_BUDGET_DAILY_TOKENS)
+const HYPERFY_BUDGET_HOURLY_CALLS = parseLimit(process.env.HYPERFY_BUDGET_HOURLY_CALLS)
+const HYPERFY_BUDGET_DAILY_CALLS = parseLimit(process.env.HYPERFY_BUDGET_DAILY_CALLS)
+
+// Share of the tightest ceiling at which each degradation step kicks in
+const NO_AUTONOMY_AT = 0.7
+const SMALL_MODEL_AT = 0.85
+const MENTIONS_ONLY_AT = 1.0
+
+// Audio is billed by length; ~10 tokens per second of 16kHz 16-bit mono
+const AUDIO_BYTES_PER_TOKEN = 3200
+
+const HOUR = 60 * 60 * 1000
+const DAY = 24 * HOUR
+
+export enum BudgetLevel {
+  NORMAL = 0,
+  NO_AUTONOMY = 1,
+  SMALL_MODEL = 2,
+  MENTIONS_ONLY = 3,
+}
+
+export type BudgetSubsystem = 'behavior' | 'message' | 'voice' | 'action' | 'perception' | 'build' | 'discord' | 'profile' | 'tts'
+
+export type BudgetLimits = {
+  hourlyTokens: number
+  dailyTokens: number
+  hourlyCalls: number
+  dailyCalls: number
+}
+
+type UsageRecord = {
+  at: number
+  modelType: string
+  subsystem: BudgetSubsystem
+  tokens: number
+  downgradedFrom?: string
+}
+
+export type UsageSummary = {
+  calls: number
+  tokens: number
+  downgraded: number
+  byModelType: Record<string, { calls: number; tokens: number }>
+  bySubsystem: Record<string, { calls: number; tokens: number }>
+}
+
+export type BudgetReport = {
+  level: keyof typeof BudgetLevel
+  limits: BudgetLimits
+  lastHour: UsageSummary
+  lastDay: UsageSummary
+}
+
+const DOWNGRADES: Record<string, string> = {
+  [ModelType.TEXT_LARGE]: ModelType.TEXT_SMALL,
+  [ModelType.OBJECT_LARGE]: ModelType.OBJECT_SMALL,
+}
+
+/**
+ * Rough token estimate (~4 characters per token). Audio buffers are counted
+ * by size, see AUDIO_BYTES_PER_TOKEN.
+ */
+export function estimateTokens(value: unknown): number {
+  if (value == null) return 0
+  if (Buffer.isBuffer(value)) return Math.ceil(value.length / AUDIO_BYTES_PER_TOKEN)
+  if (typeof value === 'string') return Math.ceil(value.length / 4)
+  if (typeof (value as any).prompt === 'string') return Math.ceil((value as any).prompt.length / 4)
+  if (typeof value === 'object') {
+    try {
+      return Math.ceil(JSON.stringify(value).length / 4)
+    } catch {
+      return 0
+    }
+  }
+  return 0
+}
+
+/**
+ * Counts LLM calls and estimated tokens over rolling hour and day windows and
+ * degrades the agent as spend approaches the configured ceilings: autonomous
+ * behavior stops first, then large models are swapped for small ones, then the
+ * agent only answers messages that mention it by name.
+ */
+export class BudgetManager {
+  private records: UsageRecord[] = []
+  private lastLevel: BudgetLevel = BudgetLevel.NORMAL
+
+  constructor(private limits: BudgetLimits = {
+    hourlyTokens: HYPERFY_BUDGET_HOURLY_TOKENS,
+    dailyTokens: HYPERFY_BUDGET_DAILY_TOKENS,
+    hourlyCalls: HYPERFY_BUDGET_HOURLY_CALLS,
+    dailyCalls: HYPERFY_BUDGET_DAILY_CALLS,
+  }) {}
+
+  record(subsystem: BudgetSubsystem, modelType: string, tokens: number, downgradedFrom?: string): void {
+    this.records.push({ at: Date.now(), modelType, subsystem, tokens, downgradedFrom })
+    this.prune()
+
+    const level = this.getLevel()
+    if (level !== this.lastLevel) {
+      const message = `[Budget] Level changed: ${BudgetLevel[this.lastLevel]} → ${BudgetLevel[level]}`
+      if (level > this.lastLevel) logger.warn(message)
+      else logger.info(message)
+      this.lastLevel = level
+    }
+  }
+
+  getLevel(): BudgetLevel {
+    const hour = this.summarize(HOUR)
+    const day = this.summarize(DAY)
+    const ratios = [
+      this.limits.hourlyTokens && hour.tokens / this.limits.hourlyTokens,
+      this.limits.dailyTokens && day.tokens / this.limits.dailyTokens,
+      this.limits.hourlyCalls && hour.calls / this.limits.hourlyCalls,
+      this.limits.dailyCalls && day.calls / this.limits.dailyCalls,
+    ]
+    const usage = Math.max(0, ...ratios.map(ratio => ratio || 0))
+
+    if (usage >= MENTIONS_ONLY_AT) return BudgetLevel.MENTIONS_ONLY
+    if (usage >= SMALL_MODEL_AT) return BudgetLevel.SMALL_MODEL
+    if (usage >= NO_AUTONOMY_AT) return BudgetLevel.NO_AUTONOMY
+    return BudgetLevel.NORMAL
+  }
+
+  /**
+   * Whether self-initiated work (behavior loop, scheduled posts) may run.
+   */
+  allowsAutonomy(): boolean {
+    return this.getLevel() < BudgetLevel.NO_AUTONOMY
+  }
+
+  /**
+   * Whether to spend a call deciding on a reply to this message.
+   */
+  allowsReplyTo(text: string | undefined, agentName: string): boolean {
+    if (this.getLevel() < BudgetLevel.MENTIONS_ONLY) return true
+    return !!text && mentionsName(text, agentName)
+  }
+
+  /**
+   * The model type to actually use, swapping large models for small ones
+   * once the budget is tight.
+   */
+  resolveModelType(modelType: string): string {
+    if (this.getLevel() >= BudgetLevel.SMALL_MODEL && DOWNGRADES[modelType]) {
+      return DOWNGRADES[modelType]
+    }
+    return modelType
+  }
+
+  getReport(): BudgetReport {
+    return {
+      level: BudgetLevel[this.getLevel()] as keyof typeof BudgetLevel,
+      limits: { ...this.limits },
+      lastHour: this.summarize(HOUR),
+      lastDay: this.summarize(DAY),
+    }
+  }
+
+  private summarize(window: number): UsageSummary {
+    const since = Date.now() - window
+    const summary: UsageSummary = { calls: 0, tokens: 0, downgraded: 0, byModelType: {}, bySubsystem: {} }
+    for (const record of this.records) {
+      if (record.at < since) continue
+      summary.calls++
+      summary.tokens += record.tokens
+      if (record.downgradedFrom) summary.downgraded++
+      const byModel = (summary.byModelType[record.modelType] ??= { calls: 0, tokens: 0 })
+      byModel.calls++
+      byModel.tokens += record.tokens
+      const bySubsystem = (summary.bySubsystem[record.subsystem] ??= { calls: 0, tokens: 0 })
+      bySubsystem.calls++
+      bySubsystem.tokens += record.tokens
+    }
+    return summary
+  }
+
+  private prune(): void {
+    const since = Date.now() - DAY
+    let firstKept = 0
+    while (firstKept < this.records.length && this.records[firstKept].at < since) firstKept++
+    if (firstKept > 0) this.records.splice(0, firstKept)
+  }
+}
+
+const budgetManagers = new Map<string, BudgetManager>()
+
+export function getBudgetManager(runtime: IAgentRuntime): BudgetManager {
+  let budget = budgetManagers.get(runtime.agentId)
+  if (!budget) {
+    budget = new BudgetManager()
+    budgetManagers.set(runtime.agentId, budget)
+  }
+  return budget
+}
+
+/**
+ * `runtime.useModel` with budget accounting and large → small model downgrades.
+ */
+export async function useModelWithBudget(
+  runtime: IAgentRuntime,
+  subsystem: BudgetSubsystem,
+  modelType: string,
+  params: any
+): Promise<any> {
+  const budget = getBudgetManager(runtime)
+  const resolvedType = budget.resolveModelType(modelType)
+  if (resolvedType !== modelType) {
+    logger.info(`[Budget] Using ${resolvedType} instead of ${modelType} for ${subsystem}`)
+  }
+  const result = await runtime.useModel(resolvedType as any, params)
+  budget.record(
+    subsystem,
+    resolvedType,
+    estimateTokens(params) + estimateTokens(result),
+    resolvedType !== modelType ? modelType : undefined
+  )
+  return result
+}
@@ -1,11 +1,34 @@
-import { MessagePayload } from "@elizaos/core";
+import { EventPayload, MessagePayload, UUID } from "@elizaos/core";
 import { messageReceivedHandler } from "./handlers/messageReceivedHandler";
 
 export enum hyperfyEventType {
   MESSAGE_RECEIVED = 'HYPERFY_MESSAGE_RECEIVED',
-  VOICE_MESSAGE_RECEIVED = 'HYPERFY_VOICE_MESSAGE_RECEIVED'
+  VOICE_MESSAGE_RECEIVED = 'HYPERFY_VOICE_MESSAGE_RECEIVED',
+  RECONNECT_SCHEDULED = 'HYPERFY_RECONNECT_SCHEDULED',
+  RECONNECTING = 'HYPERFY_RECONNECTING',
+  RECONNECTED = 'HYPERFY_RECONNECTED',
+  RECONNECT_FAILED = 'HYPERFY_RECONNECT_FAILED',
+  WORLD_SWITCHED = 'HYPERFY_WORLD_SWITCHED',
+  PLAYER_JOINED = 'HYPERFY_PLAYER_JOINED',
+  PLAYER_LEFT = 'HYPERFY_PLAYER_LEFT',
+  CHAT_MESSAGE = 'HYPERFY_CHAT_MESSAGE'
 }
 
+/** Payload of CHAT_MESSAGE: a new line in a world's chat. */
+export type HyperfyChatMessagePayload = EventPayload & {
+  sessionId: string;
+  worldId: UUID | null;
+  message: {
+    id: string | undefined;
+    from: string;
+    fromId: string | null;
+    body: string;
+    createdAt?: string;
+  };
+  /** Posted by the agent itself (its replies, or text it relayed). */
+  fromAgent: boolean;
+};
+
 export const hyperfyEvents = {
   [hyperfyEventType.MESSAGE_RECEIVED]: [
     async (payload: MessagePayload) => {
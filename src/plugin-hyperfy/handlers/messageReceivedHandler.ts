@@ -1,6 +1,7 @@
 import { Content, EventType, Memory, MessageReceivedHandlerParams, ModelType, asUUID, composePromptFromState, createUniqueUuid, logger, parseKeyValueXml, truncateToCompleteSentence } from "@elizaos/core";
 import { v4 } from 'uuid';
 import { hyperfyShouldRespondTemplate, hyperfyMessageHandlerTemplate } from "../templates";
+import { getBudgetManager, useModelWithBudget } from "../budget";
 
 const latestResponseIds = new Map<string, Map<string, string>>();
 
@@ -101,6 +102,11 @@ export const messageReceivedHandler = async ({
           return;
         }
 
+        if (!getBudgetManager(runtime).allowsReplyTo(message.content.text, runtime.character.name)) {
+          logger.info(`[Bootstrap] LLM budget exhausted, only answering messages that mention ${runtime.character.name}`);
+          return;
+        }
+
         let state = await runtime.composeState(
           message,
         );
@@ -121,7 +127,7 @@ export const messageReceivedHandler = async ({
           `[Bootstrap] Evaluating response for ${runtime.character.name}\nPrompt: ${shouldRespondPrompt}`
         );
 
-        const response = await runtime.useModel(ModelType.TEXT_SMALL, {
+        const response = await useModelWithBudget(runtime, 'message', ModelType.TEXT_SMALL, {
           prompt: shouldRespondPrompt,
         });
 
@@ -155,7 +161,7 @@ export const messageReceivedHandler = async ({
           const maxRetries = 3;
 
           while (retries < maxRetries && (!responseContent?.thought || !responseContent?.actions)) {
-            let response = await runtime.useModel(ModelType.TEXT_LARGE, {
+            let response = await useModelWithBudget(runtime, 'message', ModelType.TEXT_LARGE, {
               prompt,
             });
 
@@ -16,17 +16,20 @@ import { hyperfyAmbientSpeechAction } from './actions/ambient';
 import { hyperfyScenePerceptionAction } from './actions/perception';
 import { hyperfyEditEntityAction } from './actions/build';
 import { teleportToUserAction } from './actions/teleport';
+import { hyperfySwitchWorldAction } from './actions/switch_world';
+import { hyperfyEditLandmarkAction } from './actions/landmark';
+import { hyperfyFollowPlayerAction } from './actions/follow';
+import { hyperfyStartTourAction } from './actions/tour';
 import { replyAction } from './actions/reply';
 import { ignoreAction } from './actions/ignore';
 import { hyperfyProvider } from './providers/world';
 import { hyperfyEmoteProvider } from './providers/emote';
+import { hyperfyVisitorsProvider } from './providers/visitors';
 import { hyperfyActionsProvider } from './providers/actions';
 import { characterProvider } from './providers/character';
 import { hyperfyEvents } from './events';
-
-// --- Hardcoded values matching agent/index.mjs ---
-const HYPERFY_WS_URL = process.env.WS_URL || 'wss://chill.hyperfy.xyz/ws'
-// ---------------------------------------------
+import { hyperfyRoutes } from './routes';
+import { DEFAULT_HYPERFY_WS_URL } from './world-directory';
 
 
 // Define the plugin configuration schema (optional, adjust as needed)
@@ -41,7 +44,7 @@ export const hyperfyPlugin: Plugin = {
   description: 'Integrates ElizaOS agents with Hyperfy worlds',
   config: {
     // Map environment variables to config keys
-    DEFAULT_HYPERFY_WS_URL: HYPERFY_WS_URL,
+    DEFAULT_HYPERFY_WS_URL: DEFAULT_HYPERFY_WS_URL,
   },
   async init(config: Record<string, string | undefined>) {
     logger.info('*** Initializing Hyperfy Integration plugin ***');
@@ -66,6 +69,7 @@ export const hyperfyPlugin: Plugin = {
     HyperfyService
   ],
   events: hyperfyEvents,
+  routes: hyperfyRoutes,
   actions: [
     hyperfyScenePerceptionAction,
     hyperfyGotoEntityAction,
@@ -77,12 +81,17 @@ export const hyperfyPlugin: Plugin = {
     hyperfyEditEntityAction,
     hyperfyEditEntityAction,
     teleportToUserAction,
+    hyperfySwitchWorldAction,
+    hyperfyEditLandmarkAction,
+    hyperfyFollowPlayerAction,
+    hyperfyStartTourAction,
     replyAction,
     ignoreAction
   ],
   providers: [
     hyperfyProvider,
     hyperfyEmoteProvider,
+    hyperfyVisitorsProvider,
     hyperfyActionsProvider,
     characterProvider
   ],
@@ -0,0 +1,130 @@
+import { IAgentRuntime, UUID, logger } from '@elizaos/core';
+import type { WorldSession } from '../session';
+
+const ACTIVITY_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+const PERSIST_DELAY_MS = 10000;
+
+export type WorldActivity =
+  | { type: 'visit'; at: number; name: string; firstVisit: boolean }
+  /** A conversation the VisitorProfileManager summarized; topics only, no personal facts. */
+  | { type: 'conversation'; at: number; name: string; topics: string[]; lines: number }
+  | { type: 'build'; at: number; action: 'import' | 'duplicate' | 'move' | 'rotate' | 'scale' | 'delete'; target: string }
+  | { type: 'tour'; at: number; tour: string; participants: number; stops: number; completed: boolean };
+
+type DistributiveOmit<T, K extends keyof T> = T extends unknown ? Omit<T, K> : never;
+
+/**
+ * What actually happened in a world: who came by, what people talked about
+ * with the agent, what it built, and the tours it gave. Kept for a week in
+ * the runtime cache, for the daily digest to write about.
+ */
+export class ActivityLogManager {
+  private runtime: IAgentRuntime;
+  private session: WorldSession;
+  private activities: WorldActivity[] = [];
+  /** The world `activities` belong to, while loaded. */
+  private loadedWorldId: UUID | null = null;
+  private persistTimer: NodeJS.Timeout | null = null;
+  private unsubscribePresence: (() => void) | null = null;
+
+  constructor(runtime: IAgentRuntime, session: WorldSession) {
+    this.runtime = runtime;
+    this.session = session;
+  }
+
+  private getSession() {
+    return this.session;
+  }
+
+  private getCacheKey(worldId = this.getSession().currentWorldId): string | null {
+    return worldId ? `hyperfy/activity/${worldId}` : null;
+  }
+
+  async load(): Promise<void> {
+    const key = this.getCacheKey();
+    if (!key) return;
+    try {
+      const stored = await this.runtime.getCache<WorldActivity[]>(key);
+      const cutoff = Date.now() - ACTIVITY_RETENTION_MS;
+      this.activities = (stored || []).filter((activity) => activity.at >= cutoff);
+      this.loadedWorldId = this.getSession().currentWorldId;
+      logger.info(`[ActivityLogManager] Loaded ${this.activities.length} activity record(s).`);
+    } catch (error) {
+      logger.error('[ActivityLogManager] Failed to load activity:', error);
+    }
+  }
+
+  start(): void {
+    if (this.unsubscribePresence) return;
+    this.unsubscribePresence = this.getSession().getPresenceManager()?.onChange((type, event) => {
+      if (type === 'joined') this.record({ type: 'visit', name: event.name, firstVisit: event.firstSeen });
+    }) ?? null;
+  }
+
+  async stop(): Promise<void> {
+    this.unsubscribePresence?.();
+    this.unsubscribePresence = null;
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer);
+      this.persistTimer = null;
+      await this.persist();
+    }
+    this.loadedWorldId = null;
+  }
+
+  /**
+   * Adds an activity to the current world's log. Pass the world it happened
+   * in when recording after an await: unless that world's log is the one
+   * loaded here, it's appended to that world's stored log instead.
+   */
+  record(activity: DistributiveOmit<WorldActivity, 'at'>, worldId?: UUID | null): void {
+    const entry = { ...activity, at: Date.now() } as WorldActivity;
+    if (worldId && worldId !== this.loadedWorldId) {
+      this.appendToStored(worldId, entry);
+      return;
+    }
+    this.activities.push(entry);
+    this.schedulePersist();
+  }
+
+  /**
+   * Activity since a point in time, oldest first.
+   */
+  getSince(since: number): WorldActivity[] {
+    return this.activities.filter((activity) => activity.at >= since);
+  }
+
+  private schedulePersist(): void {
+    if (this.persistTimer) return;
+    this.persistTimer = setTimeout(() => {
+      this.persistTimer = null;
+      this.persist();
+    }, PERSIST_DELAY_MS);
+  }
+
+  private async appendToStored(worldId: UUID, entry: WorldActivity): Promise<void> {
+    const key = this.getCacheKey(worldId);
+    if (!key) return;
+    try {
+      const stored = await this.runtime.getCache<WorldActivity[]>(key);
+      const cutoff = Date.now() - ACTIVITY_RETENTION_MS;
+      const activities = (stored || []).filter((activity) => activity.at >= cutoff);
+      activities.push(entry);
+      await this.runtime.setCache<WorldActivity[]>(key, activities);
+    } catch (error) {
+      logger.error('[ActivityLogManager] Failed to save activity:', error);
+    }
+  }
+
+  private async persist(): Promise<void> {
+    const key = this.getCacheKey();
+    if (!key) return;
+    const cutoff = Date.now() - ACTIVITY_RETENTION_MS;
+    this.activities = this.activities.filter((activity) => activity.at >= cutoff);
+    try {
+      await this.runtime.setCache<WorldActivity[]>(key, this.activities);
+    } catch (error) {
+      logger.error('[ActivityLogManager] Failed to save activity:', error);
+    }
+  }
+}
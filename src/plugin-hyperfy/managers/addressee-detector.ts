@@ -0,0 +1,131 @@
+import { IAgentRuntime } from '@elizaos/core';
+import * as THREE from 'three';
+import type { WorldSession } from '../session';
+import { mentionsName } from '../utils';
+
+const HYPERFY_VOICE_ADDRESS_FILTER = process.env.HYPERFY_VOICE_ADDRESS_FILTER !== 'false';
+// A speaker this close (m) and facing the agent is taken to be talking to it
+const HYPERFY_VOICE_ADDRESS_DISTANCE = parseFloat(process.env.HYPERFY_VOICE_ADDRESS_DISTANCE || '4');
+// How far off pointing straight at the agent the speaker may be looking (degrees)
+const HYPERFY_VOICE_FACING_DEGREES = parseFloat(process.env.HYPERFY_VOICE_FACING_DEGREES || '35');
+// After an exchange, the same speaker's follow-ups are heard without the name for this long
+const HYPERFY_VOICE_CONVERSATION_MS = parseInt(process.env.HYPERFY_VOICE_CONVERSATION_MS || '20000', 10);
+
+// Players face down -Z
+const FORWARD = new THREE.Vector3(0, 0, -1);
+const v1 = new THREE.Vector3();
+const v2 = new THREE.Vector3();
+
+/**
+ * Why an utterance was taken to be meant for the agent:
+ * - `disabled`: the filter is off
+ * - `alone`: nobody else is around to be talking to
+ * - `name`: the agent's name or an alias is in the transcript
+ * - `conversation`: they're already talking with the agent
+ * - `facing`: they're close and looking at the agent
+ */
+export type AddressReason = 'disabled' | 'alone' | 'name' | 'conversation' | 'facing';
+
+/**
+ * Decides, without any LLM call, whether a transcribed utterance is meant for
+ * the agent, so crowds chatting among themselves don't each cost a
+ * shouldRespond round-trip. An utterance gets through if it names the agent
+ * (or an alias), comes from someone close by and facing the agent, or
+ * follows up a recent exchange with the same speaker.
+ */
+export class AddresseeDetector {
+  private runtime: IAgentRuntime;
+  private session: WorldSession;
+  private conversations: Map<string, number> = new Map();
+
+  constructor(runtime: IAgentRuntime, session: WorldSession) {
+    this.runtime = runtime;
+    this.session = session;
+  }
+
+  private getSession() {
+    return this.session;
+  }
+
+  /**
+   * Names the agent answers to: the character's name, plus
+   * `HYPERFY_VOICE_ALIASES` (comma-separated) or the character's
+   * `settings.voice.aliases`.
+   */
+  getNames(): string[] {
+    const configured = process.env.HYPERFY_VOICE_ALIASES
+      || (this.runtime.character?.settings?.voice as Record<string, unknown> | undefined)?.aliases;
+    const aliases = Array.isArray(configured)
+      ? configured
+      : typeof configured === 'string' ? configured.split(',') : [];
+    return [this.runtime.character.name, ...aliases].map((name) => String(name).trim()).filter(Boolean);
+  }
+
+  /**
+   * Why the utterance is meant for the agent, or null if it doesn't seem to be.
+   */
+  check(playerId: string, transcript: string): AddressReason | null {
+    if (!HYPERFY_VOICE_ADDRESS_FILTER) return 'disabled';
+
+    const now = Date.now();
+    if (this.mentionsName(transcript)) {
+      this.conversations.set(playerId, now);
+      return 'name';
+    }
+    if (now - (this.conversations.get(playerId) ?? 0) < HYPERFY_VOICE_CONVERSATION_MS) return 'conversation';
+    if (this.countOtherPlayers() <= 1) return 'alone';
+    if (this.isFacingAgent(playerId)) {
+      this.conversations.set(playerId, now);
+      return 'facing';
+    }
+    return null;
+  }
+
+  /**
+   * Opens (or extends) the conversation window with a player, e.g. after the
+   * agent has answered them.
+   */
+  noteConversation(playerId: string): void {
+    this.conversations.set(playerId, Date.now());
+  }
+
+  clear(): void {
+    this.conversations.clear();
+  }
+
+  private mentionsName(transcript: string): boolean {
+    return this.getNames().some((name) => mentionsName(transcript, name));
+  }
+
+  private countOtherPlayers(): number {
+    const world = this.getSession().getWorld();
+    const agentId = world?.entities?.player?.data?.id;
+    let count = 0;
+    for (const [id, entity] of world?.entities?.items?.entries() ?? []) {
+      if (id !== agentId && entity?.data?.type === 'player') count++;
+    }
+    return count;
+  }
+
+  /**
+   * Whether the speaker is within range and looking at the agent, judged on
+   * the ground plane.
+   */
+  private isFacingAgent(playerId: string): boolean {
+    const world = this.getSession().getWorld();
+    const agent = world?.entities?.player?.base;
+    const speaker = world?.entities?.items?.get(playerId)?.base;
+    if (!agent?.position || !speaker?.position || !speaker.quaternion) return false;
+
+    const toAgent = v1.copy(agent.position).sub(speaker.position).setY(0);
+    const distance = toAgent.length();
+    if (distance > HYPERFY_VOICE_ADDRESS_DISTANCE) return false;
+    // Standing on top of each other counts, whichever way they face
+    if (distance < 0.5) return true;
+
+    const facing = v2.copy(FORWARD).applyQuaternion(speaker.quaternion).setY(0);
+    if (facing.lengthSq() === 0) return false;
+    const angle = THREE.MathUtils.radToDeg(facing.angleTo(toAgent));
+    return angle <= HYPERFY_VOICE_FACING_DEGREES;
+  }
+}
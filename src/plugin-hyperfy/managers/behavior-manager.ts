@@ -1,21 +1,30 @@
 import { ChannelType, Content, HandlerCallback, IAgentRuntime, Memory, ModelType, composePromptFromState, createUniqueUuid, logger, parseKeyValueXml } from "@elizaos/core";
-import { HyperfyService } from "../service";
+import type { WorldSession } from "../session";
 import { autoTemplate } from "../templates";
-import { agentActivityLock } from "./guards";
-import { getHyperfyActions, formatActions, generateElevenLabsTTS, generateOpenAITTS } from "../utils";
+import { getHyperfyActions, formatActions } from "../utils";
+import { BehaviorTriggerWatcher, BEHAVIOR_TRIGGER_PRIORITY, type BehaviorTrigger } from "./behavior-triggers";
+import { getBudgetManager, useModelWithBudget } from "../budget";
 
-const TIME_INTERVAL_MIN = 15000; // 15 seconds
-const TIME_INTERVAL_MAX = 30000; // 30 seconds
-const TIME_INTERVAL_IDLE_MIN = 60000; // 60 seconds when no players around
-const TIME_INTERVAL_IDLE_MAX = 120000; // 120 seconds when no players around
+const FALLBACK_INTERVAL_MIN = 180000; // 3 minutes without any world event
+const FALLBACK_INTERVAL_MAX = 300000; // 5 minutes without any world event
+const MIN_BEHAVIOR_GAP = 5000; // ms, bursts of events collapse into one decision
+const TRIGGER_EXPIRY = 60000; // ms a skipped event is kept for a later decision
 
 
 export class BehaviorManager {
   private isRunning: boolean = false;
   private runtime: IAgentRuntime;
-
-  constructor(runtime: IAgentRuntime) {
+  private session: WorldSession;
+  private watcher: BehaviorTriggerWatcher;
+  private pendingTrigger: BehaviorTrigger | null = null;
+  private pendingTriggerAt = 0;
+  private wake: (() => void) | null = null;
+  private lastRunAt = 0;
+
+  constructor(runtime: IAgentRuntime, session: WorldSession) {
     this.runtime = runtime;
+    this.session = session;
+    this.watcher = new BehaviorTriggerWatcher(session, (trigger) => this.trigger(trigger));
   }
 
   /**
@@ -31,6 +40,7 @@ export class BehaviorManager {
     console.log(`[BehaviorManager] Starting behavior loop for player`);
     logger.info(`[BehaviorManager] Starting behavior loop for player`);
 
+    this.watcher.start();
     this.runLoop().catch((err) => {
       console.error("[BehaviorManager] Fatal error in run loop:", err);
       logger.error("[BehaviorManager] Fatal error in run loop:", err);
@@ -48,48 +58,105 @@ export class BehaviorManager {
     }
 
     this.isRunning = false;
+    this.watcher.stop();
+    this.pendingTrigger = null;
+    this.wake?.();
     logger.info("[BehaviorManager] Stopped behavior loop");
   }
 
   /**
-   * Main loop that waits for each behavior to finish
+   * Wakes the loop for a world event. If several events arrive before the
+   * next decision, only the most important one is kept.
+   */
+  public trigger(trigger: BehaviorTrigger): void {
+    if (!this.isRunning) return;
+    if (this.pendingTrigger &&
+        BEHAVIOR_TRIGGER_PRIORITY[this.pendingTrigger.type] >= BEHAVIOR_TRIGGER_PRIORITY[trigger.type]) {
+      return;
+    }
+    logger.debug(`[BehaviorManager] Trigger: ${trigger.type} — ${trigger.description}`);
+    this.pendingTrigger = trigger;
+    this.pendingTriggerAt = Date.now();
+    this.wake?.();
+  }
+
+  /**
+   * Main loop: sleeps until a world event (or the slow fallback timer) wakes it,
+   * then runs one behavior and waits for it to finish
    */
   private async runLoop(): Promise<void> {
     while (this.isRunning) {
-      let hasOtherPlayers = false;
+      const fallbackDelay = FALLBACK_INTERVAL_MIN + Math.floor(Math.random() * (FALLBACK_INTERVAL_MAX - FALLBACK_INTERVAL_MIN));
+      await this.waitForTrigger(fallbackDelay);
+      if (!this.isRunning) break;
+
+      const sinceLastRun = Date.now() - this.lastRunAt;
+      if (sinceLastRun < MIN_BEHAVIOR_GAP) {
+        await new Promise((resolve) => setTimeout(resolve, MIN_BEHAVIOR_GAP - sinceLastRun));
+        if (!this.isRunning) break;
+      }
+
+      const trigger: BehaviorTrigger = this.pendingTrigger ?? {
+        type: 'fallback',
+        description: 'Nothing in particular has happened for a while.',
+      };
+      const triggeredAt = this.pendingTrigger ? this.pendingTriggerAt : Date.now();
+      this.pendingTrigger = null;
+      this.lastRunAt = Date.now();
+
+      let ran = false;
       try {
-        hasOtherPlayers = await this.executeBehavior();
+        ran = await this.executeBehavior(trigger);
       } catch (error) {
         logger.error("[BehaviorManager] Error in behavior:", error);
       }
+      if (!ran && trigger.type !== 'fallback') this.requeue(trigger, triggeredAt);
+    }
+  }
 
-      // Adjust delay based on whether other players are present
-      // Longer delay when alone to save costs
-      const [minDelay, maxDelay] = hasOtherPlayers
-        ? [TIME_INTERVAL_MIN, TIME_INTERVAL_MAX]
-        : [TIME_INTERVAL_IDLE_MIN, TIME_INTERVAL_IDLE_MAX];
-
-      const delay = minDelay + Math.floor(Math.random() * (maxDelay - minDelay));
-      await new Promise((resolve) => setTimeout(resolve, delay));
+  /**
+   * Puts back an event the agent couldn't react to yet (busy talking,
+   * following, touring...), so it's tried again once the agent is free,
+   * unless it has gone stale or something more important came up meanwhile.
+   */
+  private requeue(trigger: BehaviorTrigger, triggeredAt: number): void {
+    if (!this.isRunning || Date.now() - triggeredAt >= TRIGGER_EXPIRY) return;
+    if (this.pendingTrigger &&
+        BEHAVIOR_TRIGGER_PRIORITY[this.pendingTrigger.type] >= BEHAVIOR_TRIGGER_PRIORITY[trigger.type]) {
+      return;
     }
+    this.pendingTrigger = trigger;
+    this.pendingTriggerAt = triggeredAt;
+  }
+
+  private waitForTrigger(timeout: number): Promise<void> {
+    if (this.pendingTrigger) return Promise.resolve();
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => this.wake?.(), timeout);
+      this.wake = () => {
+        clearTimeout(timer);
+        this.wake = null;
+        resolve();
+      };
+    });
   }
 
-  private getService() {
-    return this.runtime.getService<HyperfyService>(HyperfyService.serviceType);
+  private getSession() {
+    return this.session;
   }
 
   /**
-   * Executes a behavior
-   * @returns true if other players are present, false otherwise
+   * Executes a behavior in response to a trigger
+   * @returns true if the behavior ran, false if it was skipped (nobody around, budget, busy)
    */
-  private async executeBehavior(): Promise<boolean> {
-    const service = this.getService();
-    if (!service) {
-      logger.error("[BehaviorManager] Cannot start — service not available");
+  private async executeBehavior(trigger: BehaviorTrigger): Promise<boolean> {
+    const session = this.getSession();
+    if (!session) {
+      logger.error("[BehaviorManager] Cannot start — session not available");
       return false;
     }
 
-    const world = service.getWorld();
+    const world = session.getWorld();
     if (!world) {
       logger.warn("[BehaviorManager] World not found (disconnected or initializing). Skipping behavior.");
       return false;
@@ -125,14 +192,32 @@ export class BehaviorManager {
       return false;
     }
 
+    if (!getBudgetManager(this.runtime).allowsAutonomy()) {
+      logger.info("[BehaviorManager] LLM budget is running low. Skipping autonomous behavior.");
+      return false;
+    }
+
+    // Following someone is a commitment; don't wander off on our own
+    const followState = world.controls?.getFollowState?.();
+    if (followState) {
+      logger.info(`[BehaviorManager] Skipping behavior — following ${followState.name}`);
+      return false;
+    }
+
+    const activeTour = session.getTourManager()?.getActiveTour();
+    if (activeTour) {
+      logger.info(`[BehaviorManager] Skipping behavior — giving the "${activeTour.tour.name}" tour`);
+      return false;
+    }
+
     // TODO: There may be slow post-processing in the bootstrap plugin's message handler.
     // Investigate long tail after message handling, especially in emitEvent or runtime methods.
-    if (agentActivityLock.isActive()) {
+    if (session.getActivityLock().isActive()) {
       logger.info("[BehaviorManager] Skipping behavior — message activity in progress");
-      return hasOtherPlayers;
+      return false;
     }
 
-    const _currentWorldId = service.currentWorldId;
+    const _currentWorldId = session.currentWorldId;
 
     const elizaRoomId = createUniqueUuid(this.runtime, _currentWorldId || 'hyperfy-unknown-world')
     const entityId = createUniqueUuid(this.runtime, this.runtime.agentId);
@@ -167,10 +252,10 @@ export class BehaviorManager {
 
     const actionsText = actionsData.length > 0 ? formatActions(actionsData) : '';
 
-    const responsePrompt = composePromptFromState({ state, template: autoTemplate(actionsText) });
+    const responsePrompt = composePromptFromState({ state, template: autoTemplate(actionsText, trigger.description) });
 
     // decide
-    const response = await this.runtime.useModel(ModelType.TEXT_LARGE, {
+    const response = await useModelWithBudget(this.runtime, 'behavior', ModelType.TEXT_LARGE, {
       prompt: responsePrompt,
     });
 
@@ -223,32 +308,18 @@ export class BehaviorManager {
       await this.runtime.createMemory(callbackMemory, 'messages');
 
       if (emote) {
-        const emoteManager = service.getEmoteManager();
+        const emoteManager = session.getEmoteManager();
         emoteManager.playEmote(emote);
       }
 
       if (responseContent.text) {
-        const messageManager = service.getMessageManager();
+        const messageManager = session.getMessageManager();
         messageManager.sendMessage(responseContent.text);
 
-        // Generate TTS audio and play via LiveKit (prefer ElevenLabs, fallback to OpenAI)
+        // Speak via LiveKit, streamed sentence by sentence through the TTS provider chain
         try {
           console.log('[BehaviorManager] Starting TTS generation for:', responseContent.text.substring(0, 50) + '...');
-
-          let audioBuffer = await generateElevenLabsTTS(responseContent.text);
-          if (!audioBuffer) {
-            console.log('[BehaviorManager] ElevenLabs failed, trying OpenAI TTS...');
-            audioBuffer = await generateOpenAITTS(responseContent.text);
-          }
-
-          if (audioBuffer) {
-            const voiceManager = service.getVoiceManager();
-            if (voiceManager) {
-              console.log('[BehaviorManager] Playing audio via LiveKit...');
-              await voiceManager.playAudio(audioBuffer);
-              logger.info('[BehaviorManager] TTS audio played successfully');
-            }
-          }
+          await session.getVoiceManager()?.speak(responseContent.text);
         } catch (ttsError) {
           logger.warn('[BehaviorManager] TTS generation failed, text-only response sent:', ttsError);
         }
@@ -268,6 +339,6 @@ export class BehaviorManager {
       responseMemory,
     ]);
 
-    return hasOtherPlayers;
+    return true;
   }
 }
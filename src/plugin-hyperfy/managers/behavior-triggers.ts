@@ -0,0 +1,163 @@
+import { logger } from "@elizaos/core";
+import type { WorldSession } from "../session";
+import { getPlayersWithin } from "../utils";
+
+const WATCH_INTERVAL = 1000; // ms
+const PROXIMITY_RADIUS = 4; // meters, "walked up to the agent"
+const PROXIMITY_COOLDOWN = 120000; // ms before the same player can trigger a greeting again
+const CHAT_QUIET_AFTER = 45000; // ms of silence after chat activity
+const ENTITY_ADDED_COOLDOWN = 60000; // ms, building sprees add many entities at once
+
+export type BehaviorTriggerType =
+  | 'player_nearby'
+  | 'player_joined'
+  | 'chat_quiet'
+  | 'entity_added'
+  | 'player_left'
+  | 'fallback';
+
+export type BehaviorTrigger = {
+  type: BehaviorTriggerType;
+  /** What happened, in words the model can use. */
+  description: string;
+  entityId?: string;
+};
+
+/** Higher wins when several triggers are waiting */
+export const BEHAVIOR_TRIGGER_PRIORITY: Record<BehaviorTriggerType, number> = {
+  player_nearby: 5,
+  player_joined: 4,
+  chat_quiet: 3,
+  entity_added: 2,
+  player_left: 1,
+  fallback: 0,
+};
+
+/**
+ * Watches the world for changes worth reacting to and reports them as
+ * behavior triggers. Works by diffing entity snapshots once a second, so it
+ * doesn't depend on which events a given Hyperfy build emits. Joins and
+ * leaves come from the session's PresenceManager.
+ */
+export class BehaviorTriggerWatcher {
+  private session: WorldSession;
+  private onTrigger: (trigger: BehaviorTrigger) => void;
+  private interval: NodeJS.Timeout | null = null;
+  private unsubscribePresence: (() => void) | null = null;
+
+  private initialized = false;
+  private knownEntities: Set<string> = new Set();
+  private nearbyPlayers: Set<string> = new Set();
+  private lastProximityTrigger: Map<string, number> = new Map();
+  private lastEntityAddedTrigger = 0;
+  private lastChatAt = 0;
+  private lastQuietHandledAt = 0;
+
+  constructor(session: WorldSession, onTrigger: (trigger: BehaviorTrigger) => void) {
+    this.session = session;
+    this.onTrigger = onTrigger;
+  }
+
+  start(): void {
+    if (this.interval) return;
+    this.initialized = false;
+    this.unsubscribePresence = this.session.getPresenceManager()?.onChange((type, event) => {
+      if (type === 'left') {
+        this.onTrigger({ type: 'player_left', description: `${event.name} just left the world.`, entityId: event.playerId });
+        return;
+      }
+      // The presence manager already waves and says hello
+      if (this.session.getPresenceManager()?.greetsArrivals()) return;
+      const visit = event.firstSeen ? 'for the first time' : 'again';
+      this.onTrigger({ type: 'player_joined', description: `${event.name} just joined the world ${visit}.`, entityId: event.playerId });
+    }) ?? null;
+    this.interval = setInterval(() => {
+      try {
+        this.tick();
+      } catch (error) {
+        logger.error("[BehaviorTriggers] Error while watching world:", error);
+      }
+    }, WATCH_INTERVAL);
+  }
+
+  stop(): void {
+    this.unsubscribePresence?.();
+    this.unsubscribePresence = null;
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+  private tick(): void {
+    const world = this.session.getWorld();
+    const player = world?.entities?.player;
+    if (!player?.base) return;
+
+    const agentId = player.data.id;
+    const entities: Set<string> = new Set();
+    for (const [id, entity] of world.entities.items.entries()) {
+      if (id === agentId || entity?.data?.type === 'player') continue;
+      entities.add(id);
+    }
+    const nearby = new Map(getPlayersWithin(world, player.base.position, PROXIMITY_RADIUS).map(p => [p.id, p.name]));
+    const lastChatAt = this.getLastChatAt(world, agentId);
+
+    // First snapshot is the baseline; whoever was already here didn't just arrive
+    if (!this.initialized) {
+      this.knownEntities = entities;
+      this.nearbyPlayers = new Set(nearby.keys());
+      this.lastChatAt = lastChatAt;
+      this.lastQuietHandledAt = lastChatAt;
+      this.initialized = true;
+      return;
+    }
+
+    const now = Date.now();
+
+    for (const [id, name] of nearby) {
+      if (this.nearbyPlayers.has(id)) continue;
+      if (now - (this.lastProximityTrigger.get(id) ?? 0) < PROXIMITY_COOLDOWN) continue;
+      this.lastProximityTrigger.set(id, now);
+      this.onTrigger({
+        type: 'player_nearby',
+        description: `${name} just walked up to you (within ${PROXIMITY_RADIUS}m).`,
+        entityId: id,
+      });
+    }
+
+    const added = [...entities].filter(id => !this.knownEntities.has(id));
+    if (added.length && now - this.lastEntityAddedTrigger >= ENTITY_ADDED_COOLDOWN) {
+      this.lastEntityAddedTrigger = now;
+      const names = added
+        .map(id => world.entities.items.get(id)?.blueprint?.name || world.entities.items.get(id)?.data?.name)
+        .filter(Boolean)
+        .slice(0, 3);
+      this.onTrigger({
+        type: 'entity_added',
+        description: `Something new appeared in the world${names.length ? `: ${names.join(', ')}` : ''}.`,
+        entityId: added[0],
+      });
+    }
+
+    if (lastChatAt > this.lastChatAt) this.lastChatAt = lastChatAt;
+    if (this.lastChatAt > this.lastQuietHandledAt && now - this.lastChatAt >= CHAT_QUIET_AFTER) {
+      this.lastQuietHandledAt = this.lastChatAt;
+      this.onTrigger({ type: 'chat_quiet', description: 'The chat has gone quiet after a conversation.' });
+    }
+
+    this.knownEntities = entities;
+    this.nearbyPlayers = new Set(nearby.keys());
+  }
+
+  private getLastChatAt(world: any, agentId: string): number {
+    const msgs = world?.chat?.msgs || [];
+    for (let i = msgs.length - 1; i >= 0; i--) {
+      const msg = msgs[i];
+      if (!msg?.fromId || msg.fromId === agentId) continue;
+      const createdAt = msg.createdAt ? new Date(msg.createdAt).getTime() : 0;
+      return isNaN(createdAt) ? 0 : createdAt;
+    }
+    return 0;
+  }
+}
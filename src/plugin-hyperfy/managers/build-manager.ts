@@ -1,5 +1,5 @@
 import { IAgentRuntime } from "@elizaos/core";
-import { HyperfyService } from "../service";
+import type { WorldSession } from "../session";
 import { uuid } from '../hyperfy/src/core/utils.js'
 import { cloneDeep } from 'lodash-es'
 import { importApp } from '../hyperfy/src/core/extras/appTools.js'
@@ -9,14 +9,16 @@ import { resolveUrl } from "../utils.js";
 
 export class BuildManager {
   private runtime: IAgentRuntime;
+  private session: WorldSession;
   
-  constructor(runtime: IAgentRuntime) {
+  constructor(runtime: IAgentRuntime, session: WorldSession) {
     this.runtime = runtime;
+    this.session = session;
   }
   
   async translate(entityId, position: [number, number, number]) {
-    const service = this.getService();
-    const world = service.getWorld();
+    const session = this.getSession();
+    const world = session.getWorld();
     const entity = world.entities.items.get(entityId);
     if (entity) {
       const controls = world.controls;
@@ -25,12 +27,13 @@ export class BuildManager {
       }
       entity.root.position.fromArray(position);
       this.entityUpdate(entity);
+      this.recordBuild('move', entity.blueprint?.name);
     }
   }
 
   async rotate(entityId, quaternion: [number, number, number, number]) {
-    const service = this.getService();
-    const world = service.getWorld();
+    const session = this.getSession();
+    const world = session.getWorld();
     const entity = world.entities.items.get(entityId);
     if (entity) {
       const controls = world.controls;
@@ -39,12 +42,13 @@ export class BuildManager {
       }
       entity.root.quaternion.fromArray(quaternion);
       this.entityUpdate(entity);
+      this.recordBuild('rotate', entity.blueprint?.name);
     }
   }
   
   async scale(entityId, scale: [number, number, number]) {
-    const service = this.getService();
-    const world = service.getWorld();
+    const session = this.getSession();
+    const world = session.getWorld();
     const entity = world.entities.items.get(entityId);
     if (entity) {
       const controls = world.controls;
@@ -53,12 +57,13 @@ export class BuildManager {
       }
       entity.root.scale.fromArray(scale);
       this.entityUpdate(entity);
+      this.recordBuild('scale', entity.blueprint?.name);
     }
   }
 
   async duplicate(entityId) {
-    const service = this.getService();
-    const world = service.getWorld();
+    const session = this.getSession();
+    const world = session.getWorld();
     const entity = world.entities.items.get(entityId);
     const controls = world.controls;
     if (controls) {
@@ -102,12 +107,13 @@ export class BuildManager {
         state: {},
       }
       world.entities.add(data, true)
+      this.recordBuild('duplicate', entity.blueprint.name);
     }
   }
 
   async delete(entityId) {
-    const service = this.getService();
-    const world = service.getWorld();
+    const session = this.getSession();
+    const world = session.getWorld();
     const entity = world.entities.items.get(entityId);
     if (entity?.isApp && !entity.data.pinned) {
       const controls = world.controls;
@@ -116,6 +122,7 @@ export class BuildManager {
       }
       entity?.destroy(true)
       this.entityUpdate(entity);
+      this.recordBuild('delete', entity.blueprint?.name);
     }
   }
 
@@ -124,8 +131,8 @@ export class BuildManager {
     position?: any,
     quaternion?: any
   ) {
-    const service = this.getService();
-    const world = service.getWorld();
+    const session = this.getSession();
+    const world = session.getWorld();
     const resolvedUrl = await resolveUrl(url, world);
     let file
     
@@ -170,8 +177,8 @@ export class BuildManager {
   }
 
   async addApp(file, transform) {
-    const service = this.getService();
-    const world = service.getWorld();
+    const session = this.getSession();
+    const world = session.getWorld();
     const info = await importApp(file)
     
     const blueprint = {
@@ -212,6 +219,7 @@ export class BuildManager {
     try {
       await Promise.all(promises)
       app.onUploaded()
+      this.recordBuild('import', blueprint.name);
     } catch (err) {
       console.error('failed to upload .hyp assets')
       console.error(err)
@@ -220,8 +228,8 @@ export class BuildManager {
   }
 
   async addModel(file, transform) {
-    const service = this.getService();
-    const world = service.getWorld();
+    const session = this.getSession();
+    const world = session.getWorld();
     const hash = await hashFile(file)
     const ext = file.name.split('.').pop().toLowerCase()
     const filename = `${hash}.${ext}`
@@ -268,11 +276,12 @@ export class BuildManager {
     }
     const app = world.entities.add(data, true)
     app.onUploaded()
+    this.recordBuild('import', blueprint.name);
   }
   
   entityUpdate(entity) {
-    const service = this.getService();
-    const world = service.getWorld();
+    const session = this.getSession();
+    const world = session.getWorld();
     world.network.send('entityModified', {
         id: entity.data.id,
         position: entity.root.position.toArray(),
@@ -281,7 +290,14 @@ export class BuildManager {
     })
   }
 
-  private getService() {
-    return this.runtime.getService<HyperfyService>(HyperfyService.serviceType);
+  /**
+   * Notes a change to the world in the activity log, for the daily digest.
+   */
+  private recordBuild(action: 'import' | 'duplicate' | 'move' | 'rotate' | 'scale' | 'delete', name?: string | null) {
+    this.getSession().getActivityLogManager()?.record({ type: 'build', action, target: name || 'an object' });
+  }
+
+  private getSession() {
+    return this.session;
   }
 }
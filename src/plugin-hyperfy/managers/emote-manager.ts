@@ -4,16 +4,18 @@ import { EMOTES_LIST, LOCOMOTION_EMOTES } from '../constants.js'
 import { Emotes } from '../hyperfy/src/core/extras/playerEmotes.js'
 import { hashFileBuffer, getModuleDirectory } from '../utils'
 import { IAgentRuntime, logger } from '@elizaos/core'
-import { HyperfyService } from '../service.js'
+import type { WorldSession } from '../session.js'
 
 export class EmoteManager {
   private emoteHashMap: Map<string, string>
   private currentEmoteTimeout: NodeJS.Timeout | null
   private movementCheckInterval: NodeJS.Timeout | null = null;
   private runtime: IAgentRuntime;
+  private session: WorldSession;
 
-  constructor(runtime) {
+  constructor(runtime, session: WorldSession) {
     this.runtime = runtime;
+    this.session = session;
     this.emoteHashMap = new Map()
     this.currentEmoteTimeout = null
   }
@@ -42,8 +44,8 @@ export class EmoteManager {
           type: emoteMimeType,
         });
 
-        const service = this.getService();
-        const world = service.getWorld();
+        const session = this.getSession();
+        const world = session.getWorld();
         const emoteUploadPromise = world.network.upload(emoteFile);
         const emoteTimeout = new Promise((_resolve, reject) =>
           setTimeout(() => reject(new Error("Upload timed out")), 30000)
@@ -67,12 +69,12 @@ export class EmoteManager {
   playEmote(name: string) {
     const fallback = (Emotes as Record<string, string>)[name];
     const hashName = this.emoteHashMap.get(name) || fallback;
-    const service = this.getService();
-    if (!service) {
-      console.warn('[Emote] Cannot play emote - service not available');
+    const session = this.getSession();
+    if (!session) {
+      console.warn('[Emote] Cannot play emote - session not available');
       return;
     }
-    const world = service.getWorld();
+    const world = session.getWorld();
     if (!world) {
       console.warn('[Emote] Cannot play emote - world not available');
       return;
@@ -134,8 +136,8 @@ export class EmoteManager {
     }
   }
 
-  private getService() {
-    return this.runtime.getService<HyperfyService>(HyperfyService.serviceType);
+  private getSession() {
+    return this.session;
   }
 
   private async uploadLocomotionEmotes() {
@@ -158,8 +160,8 @@ export class EmoteManager {
           type: emoteMimeType,
         });
 
-        const service = this.getService();
-        const world = service.getWorld();
+        const session = this.getSession();
+        const world = session.getWorld();
         const emoteUploadPromise = world.network.upload(emoteFile);
         const emoteTimeout = new Promise((_resolve, reject) =>
           setTimeout(() => reject(new Error("Upload timed out")), 30000)
@@ -2,6 +2,8 @@
 /**
  * Guards any async task and tracks if something is running.
  * Used to prevent behavior execution during active message processing.
+ * Each WorldSession has its own, so a conversation in one world doesn't
+ * hold up the others.
  */
 
 export class AgentActivityLock {
@@ -28,8 +30,4 @@ export class AgentActivityLock {
       }
     }
   }
-  
-
-
-export const agentActivityLock = new AgentActivityLock();
   
\ No newline at end of file
@@ -0,0 +1,197 @@
+import { IAgentRuntime, logger } from '@elizaos/core';
+import * as THREE from 'three';
+import type { WorldSession } from '../session';
+
+export type Landmark = {
+  name: string;
+  aliases: string[];
+  description?: string;
+  position: [number, number, number];
+  /** Yaw (radians) to face after arriving, if the spot has a "front". */
+  rotationY?: number;
+  createdBy?: string;
+  updatedAt: number;
+};
+
+const e1 = new THREE.Euler(0, 0, 0, 'YXZ');
+
+/**
+ * Named places in the current world ("the stage", "the fountain"), persisted
+ * in the agent's cache table so they survive restarts. Each world keeps its
+ * own set, keyed by the Eliza world ID.
+ */
+export class LandmarkManager {
+  private runtime: IAgentRuntime;
+  private session: WorldSession;
+  private landmarks: Map<string, Landmark> = new Map();
+  private loaded = false;
+
+  constructor(runtime: IAgentRuntime, session: WorldSession) {
+    this.runtime = runtime;
+    this.session = session;
+  }
+
+  private getSession() {
+    return this.session;
+  }
+
+  private getCacheKey(): string | null {
+    const worldId = this.getSession().currentWorldId;
+    return worldId ? `hyperfy/landmarks/${worldId}` : null;
+  }
+
+  async load(): Promise<void> {
+    const key = this.getCacheKey();
+    if (!key) return;
+    try {
+      const stored = await this.runtime.getCache<Landmark[]>(key);
+      this.landmarks.clear();
+      for (const landmark of stored || []) {
+        this.landmarks.set(landmark.name.toLowerCase(), landmark);
+      }
+      this.loaded = true;
+      logger.info(`[LandmarkManager] Loaded ${this.landmarks.size} landmark(s) for world ${this.getSession().currentWorldId}.`);
+    } catch (error) {
+      logger.error('[LandmarkManager] Failed to load landmarks:', error);
+    }
+  }
+
+  private async persist(): Promise<void> {
+    const key = this.getCacheKey();
+    if (!key) return;
+    await this.runtime.setCache<Landmark[]>(key, this.list());
+  }
+
+  list(): Landmark[] {
+    return Array.from(this.landmarks.values());
+  }
+
+  /**
+   * Looks up a landmark by name or alias (case-insensitive).
+   */
+  find(nameOrAlias: string): Landmark | null {
+    const key = nameOrAlias?.trim().toLowerCase();
+    if (!key) return null;
+    const direct = this.landmarks.get(key);
+    if (direct) return direct;
+    for (const landmark of this.landmarks.values()) {
+      if (landmark.aliases.some(alias => alias.toLowerCase() === key)) return landmark;
+    }
+    return null;
+  }
+
+  /**
+   * Adds or replaces a landmark. Names are unique per world.
+   */
+  async save(landmark: Omit<Landmark, 'updatedAt'>): Promise<Landmark> {
+    return this.store(landmark);
+  }
+
+  /**
+   * Stores a landmark, removing `previousName`'s entry once the new one is in
+   * place (for renames), then persists.
+   */
+  private async store(landmark: Omit<Landmark, 'updatedAt'>, previousName?: string): Promise<Landmark> {
+    if (!landmark.name?.trim()) {
+      throw new Error('Landmark name is required.');
+    }
+    if (!this.loaded) await this.load();
+    const entry: Landmark = {
+      ...landmark,
+      name: landmark.name.trim(),
+      aliases: (landmark.aliases || []).map(alias => alias.trim()).filter(Boolean),
+      updatedAt: Date.now(),
+    };
+    this.landmarks.set(entry.name.toLowerCase(), entry);
+    if (previousName && previousName.toLowerCase() !== entry.name.toLowerCase()) {
+      this.landmarks.delete(previousName.toLowerCase());
+    }
+    await this.persist();
+    logger.info(`[LandmarkManager] Saved landmark "${entry.name}" at [${entry.position.map(p => p.toFixed(2)).join(', ')}]`);
+    return entry;
+  }
+
+  /**
+   * Saves the agent's current position (and optionally facing) under a name,
+   * for requests like "remember this spot as the stage".
+   */
+  async saveHere(
+    name: string,
+    options: { aliases?: string[]; description?: string; keepFacing?: boolean; createdBy?: string } = {}
+  ): Promise<Landmark> {
+    const player = this.getSession().getWorld()?.entities?.player;
+    if (!player?.base) {
+      throw new Error('Cannot find the agent in the world.');
+    }
+    const pos = player.base.position;
+    const existing = this.find(name);
+    return this.save({
+      name: existing?.name ?? name,
+      aliases: options.aliases ?? existing?.aliases ?? [],
+      description: options.description ?? existing?.description,
+      position: [pos.x, pos.y, pos.z],
+      rotationY: options.keepFacing ? e1.setFromQuaternion(player.base.quaternion, 'YXZ').y : undefined,
+      createdBy: options.createdBy ?? existing?.createdBy,
+    });
+  }
+
+  /**
+   * Edits the metadata of an existing landmark without moving it. A name or
+   * alias another landmark already answers to is refused.
+   */
+  async update(
+    nameOrAlias: string,
+    changes: { name?: string; aliases?: string[]; description?: string }
+  ): Promise<Landmark> {
+    const existing = this.find(nameOrAlias);
+    if (!existing) {
+      throw new Error(`No landmark called "${nameOrAlias}".`);
+    }
+    const name = changes.name !== undefined ? changes.name.trim() : existing.name;
+    if (!name) {
+      throw new Error('Landmark name is required.');
+    }
+    const nameClash = this.find(name);
+    if (nameClash && nameClash !== existing) {
+      throw new Error(`There is already a landmark called "${nameClash.name}".`);
+    }
+    const aliases = (changes.aliases ?? existing.aliases).map(alias => alias.trim()).filter(Boolean);
+    for (const alias of aliases) {
+      const clash = this.find(alias);
+      if (clash && clash !== existing) {
+        throw new Error(`"${alias}" already refers to the landmark "${clash.name}".`);
+      }
+    }
+    return this.store({
+      ...existing,
+      name,
+      aliases,
+      description: changes.description ?? existing.description,
+    }, existing.name);
+  }
+
+  async remove(nameOrAlias: string): Promise<boolean> {
+    const existing = this.find(nameOrAlias);
+    if (!existing) return false;
+    this.landmarks.delete(existing.name.toLowerCase());
+    await this.persist();
+    logger.info(`[LandmarkManager] Removed landmark "${existing.name}"`);
+    return true;
+  }
+
+  /**
+   * Text block for the world state provider.
+   */
+  formatForPrompt(): string {
+    const landmarks = this.list();
+    if (!landmarks.length) {
+      return '## Landmarks (0)\nNo named places have been saved in this world yet.';
+    }
+    const lines = landmarks.map(landmark => {
+      const aliases = landmark.aliases.length ? `, Also called: ${landmark.aliases.join(', ')}` : '';
+      const description = landmark.description ? `, Description: ${landmark.description}` : '';
+      return `- Name: ${landmark.name}${aliases}, Position: [${landmark.position.map(p => p.toFixed(2)).join(', ')}]${description}`;
+    });
+    return `## Landmarks (${landmarks.length})\nNamed places you can walk to by name.\n${lines.join('\n')}`;
+  }
+}
@@ -0,0 +1,219 @@
+import { fft } from './voice-activity-detector';
+import type { SpeechAlignment } from '../tts';
+
+export const VISEMES = ['aa', 'ih', 'ou', 'ee', 'oh'] as const;
+export type Viseme = typeof VISEMES[number];
+export type VisemeWeights = Record<Viseme, number>;
+
+const STEP_MS = 1000 / 30; // viseme update rate
+const FFT_SIZE = 2048;
+// Mouth opening follows loudness between these levels (dBFS)
+const SILENT_DB = -45;
+const LOUD_DB = -15;
+// Rough first/second formant (Hz) of each mouth shape
+const FORMANTS: Record<Viseme, [number, number]> = {
+  aa: [750, 1250],
+  oh: [500, 850],
+  ou: [330, 800],
+  ee: [290, 2300],
+  ih: [420, 1900],
+};
+const F1_RANGE: [number, number] = [250, 1000];
+const F2_RANGE: [number, number] = [700, 3000];
+// Smoothing per step: the mouth opens faster than it closes
+const ATTACK = 0.6;
+const RELEASE = 0.35;
+
+const CLOSED: VisemeWeights = { aa: 0, ih: 0, ou: 0, ee: 0, oh: 0 };
+
+const KANA_VOWELS: [Viseme, string][] = [
+  ['aa', 'あかさたなはまやらわがざだばぱぁゃアカサタナハマヤラワガザダバパァャ'],
+  ['ih', 'いきしちにひみりぎじぢびぴぃイキシチニヒミリギジヂビピィ'],
+  ['ou', 'うくすつぬふむゆるぐずづぶぷぅゅゥュウクスツヌフムユルグズヅブプ'],
+  ['ee', 'えけせてねへめれげぜでべぺぇエケセテネヘメレゲゼデベペェ'],
+  ['oh', 'おこそとのほもよろをごぞどぼぽぉょオコソトノホモヨロヲゴゾドボポォョ'],
+];
+const LATIN_VOWELS: Record<string, Viseme> = { a: 'aa', i: 'ih', y: 'ih', u: 'ou', w: 'ou', e: 'ee', o: 'oh' };
+const LIP_CLOSURES = new Set(['b', 'm', 'p']);
+
+type AlignedSegment = {
+  startSample: number;
+  endSample: number;
+  alignment: SpeechAlignment;
+};
+
+/**
+ * Drives the avatar's mouth from outgoing speech. Each 100ms frame sent to
+ * LiveKit is turned into ~30Hz viseme weights (aa/ih/ou/ee/oh), either from
+ * the TTS provider's character timings or, without those, from the audio's
+ * loudness and formants. Updates are scheduled against the frame's playout
+ * delay so the mouth moves with what listeners hear.
+ */
+export class LipSyncDriver {
+  private setExpression: (name: Viseme, weight: number) => void;
+  private sampleRate: number;
+  private segments: AlignedSegment[] = [];
+  private queuedSamples = 0;
+  private current: VisemeWeights = { ...CLOSED };
+  private timers: Set<NodeJS.Timeout> = new Set();
+  private stopped = false;
+
+  constructor(setExpression: (name: Viseme, weight: number) => void, sampleRate = 48000) {
+    this.setExpression = setExpression;
+    this.sampleRate = sampleRate;
+  }
+
+  /**
+   * Registers the next chunk of audio in the stream, with its alignment if
+   * the provider gave one. Chunks must be added in the order they're played.
+   */
+  addChunk(samples: number, alignment?: SpeechAlignment): void {
+    const startSample = this.queuedSamples;
+    this.queuedSamples += samples;
+    if (alignment?.characters.length) {
+      this.segments.push({ startSample, endSample: this.queuedSamples, alignment });
+    }
+  }
+
+  /**
+   * Called for every frame as it goes out. `startSample` is the frame's
+   * position in the stream and `playoutDelayMs` how long until it's heard.
+   */
+  onFrame(frame: Int16Array, startSample: number, playoutDelayMs: number): void {
+    if (this.stopped) return;
+    const stepSamples = Math.round((this.sampleRate * STEP_MS) / 1000);
+    for (let offset = 0; offset < frame.length; offset += stepSamples) {
+      const window = frame.subarray(offset, Math.min(frame.length, offset + stepSamples));
+      const target = this.visemesAt(startSample + offset, window);
+      const delay = Math.max(0, playoutDelayMs + (offset / this.sampleRate) * 1000);
+      const timer = setTimeout(() => {
+        this.timers.delete(timer);
+        this.apply(target);
+      }, delay);
+      this.timers.add(timer);
+    }
+  }
+
+  /**
+   * Cancels pending updates and closes the mouth.
+   */
+  stop(): void {
+    this.stopped = true;
+    for (const timer of this.timers) clearTimeout(timer);
+    this.timers.clear();
+    this.current = { ...CLOSED };
+    for (const viseme of VISEMES) this.setExpression(viseme, 0);
+  }
+
+  private visemesAt(sample: number, window: Int16Array): VisemeWeights {
+    const segment = this.segments.find((s) => sample >= s.startSample && sample < s.endSample);
+    const openness = opennessOf(window);
+    if (segment) {
+      const timeMs = ((sample - segment.startSample) / this.sampleRate) * 1000;
+      return visemeFromAlignment(segment.alignment, timeMs, openness);
+    }
+    return analyzeVisemes(window, this.sampleRate, openness);
+  }
+
+  private apply(target: VisemeWeights): void {
+    if (this.stopped) return;
+    for (const viseme of VISEMES) {
+      const previous = this.current[viseme];
+      const rate = target[viseme] > previous ? ATTACK : RELEASE;
+      const next = previous + (target[viseme] - previous) * rate;
+      this.current[viseme] = next < 0.01 ? 0 : next;
+      if (Math.abs(this.current[viseme] - previous) > 0.005) {
+        this.setExpression(viseme, this.current[viseme]);
+      }
+    }
+  }
+}
+
+/**
+ * How open the mouth should be for a slice of audio (0-1), from its loudness.
+ */
+function opennessOf(samples: Int16Array): number {
+  if (!samples.length) return 0;
+  let sumSquares = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const value = samples[i] / 32768;
+    sumSquares += value * value;
+  }
+  const db = 20 * Math.log10(Math.sqrt(sumSquares / samples.length) + 1e-10);
+  return Math.min(1, Math.max(0, (db - SILENT_DB) / (LOUD_DB - SILENT_DB)));
+}
+
+/**
+ * Estimates mouth shape from a slice of audio: the spectral centroids of the
+ * first and second formant regions are compared with each vowel's formants,
+ * and the two closest shapes share the mouth opening.
+ */
+export function analyzeVisemes(samples: Int16Array, sampleRate: number, openness = opennessOf(samples)): VisemeWeights {
+  if (openness <= 0 || samples.length < 64) return { ...CLOSED };
+
+  const re = new Float64Array(FFT_SIZE);
+  const im = new Float64Array(FFT_SIZE);
+  const length = Math.min(samples.length, FFT_SIZE);
+  for (let i = 0; i < length; i++) {
+    re[i] = (samples[i] / 32768) * (0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (length - 1)));
+  }
+  fft(re, im);
+
+  const binHz = sampleRate / FFT_SIZE;
+  const centroid = ([low, high]: [number, number]) => {
+    let weighted = 0;
+    let total = 0;
+    for (let k = Math.ceil(low / binHz); k <= Math.floor(high / binHz); k++) {
+      const power = re[k] * re[k] + im[k] * im[k];
+      weighted += power * k * binHz;
+      total += power;
+    }
+    return total > 0 ? weighted / total : (low + high) / 2;
+  };
+  const f1 = centroid(F1_RANGE);
+  const f2 = centroid(F2_RANGE);
+
+  // Distance in log-frequency, so a 100Hz shift matters more for F1 than F2
+  const scores = VISEMES.map((viseme) => {
+    const [t1, t2] = FORMANTS[viseme];
+    const distance = Math.hypot(Math.log(f1 / t1), Math.log(f2 / t2));
+    return { viseme, score: 1 / (distance + 0.05) };
+  }).sort((a, b) => b.score - a.score);
+
+  const weights = { ...CLOSED };
+  const [first, second] = scores;
+  const total = first.score + second.score;
+  weights[first.viseme] = openness * (first.score / total);
+  weights[second.viseme] = openness * (second.score / total);
+  return weights;
+}
+
+/**
+ * Mouth shape from TTS character timings: the vowel being spoken at `timeMs`,
+ * opened as far as the audio is loud. Lip closures (b/m/p) shut the mouth.
+ */
+export function visemeFromAlignment(alignment: SpeechAlignment, timeMs: number, openness: number): VisemeWeights {
+  let index = -1;
+  for (let i = 0; i < alignment.startTimesMs.length && alignment.startTimesMs[i] <= timeMs; i++) index = i;
+  const weights = { ...CLOSED };
+  if (index < 0) return weights;
+
+  const char = alignment.characters[index]?.toLowerCase() ?? '';
+  if (LIP_CLOSURES.has(char) || openness < 0.05) return weights;
+  // Other consonants take the shape of the vowel that follows
+  const viseme = [char, ...alignment.characters.slice(index + 1, index + 3)]
+    .map((c) => visemeForCharacter(c.toLowerCase()))
+    .find(Boolean);
+  if (viseme) weights[viseme] = Math.max(openness, 0.3);
+  return weights;
+}
+
+function visemeForCharacter(char: string): Viseme | null {
+  if (!char) return null;
+  const latin = LATIN_VOWELS[char.normalize('NFD').charAt(0)];
+  if (latin) return latin;
+  for (const [viseme, kana] of KANA_VOWELS) {
+    if (kana.includes(char)) return viseme;
+  }
+  return null;
+}
@@ -1,16 +1,16 @@
 import { ChannelType, Entity, Content, HandlerCallback, IAgentRuntime, Memory, UUID, formatTimestamp, createUniqueUuid, getEntityDetails, logger } from "@elizaos/core";
-import { HyperfyService } from "../service";
-import { agentActivityLock } from "./guards";
+import type { WorldSession } from "../session";
 import { hyperfyEventType } from "../events";
-import { generateElevenLabsTTS, generateOpenAITTS } from "../utils";
 import moment from 'moment'
 import { uuid } from '../hyperfy/src/core/utils';
 
 export class MessageManager {
   private runtime: IAgentRuntime;
+  private session: WorldSession;
   
-  constructor(runtime: IAgentRuntime) {
+  constructor(runtime: IAgentRuntime, session: WorldSession) {
     this.runtime = runtime;
+    this.session = session;
     if (!this.runtime.character.templates) {
       this.runtime.character.templates = {};
     }
@@ -18,18 +18,20 @@ export class MessageManager {
 
   async handleMessage(msg): Promise<void> {
     // maybe a thinking emote here?
-    await agentActivityLock.run(async () => {
-      const service = this.getService();
-      const world = service.getWorld();
+    const activityLock = this.getSession().getActivityLock();
+    await activityLock.run(async () => {
+      const session = this.getSession();
+      const world = session.getWorld();
       const agentPlayerId = world.entities.player.data.id // Get agent's ID
       const senderName = msg.from || 'System'
       const messageBody = msg.body || ''
-      const _currentWorldId = service.currentWorldId;
+      const _currentWorldId = session.currentWorldId;
       console.info(`[Chat Received] From: ${senderName}, ID: ${msg.id}, Body: "${messageBody}"`)
 
       // Respond only to messages not from the agent itself
       if (msg.fromId && msg.fromId !== agentPlayerId) {
         console.info(`[Hyperfy Chat] Processing message from ${senderName}`)
+        session.getVisitorProfileManager()?.noteVisitorMessage(msg.fromId, senderName, messageBody)
 
         // First, ensure we register the entity (world, room, sender) in Eliza properly
         const hyperfyWorldId = createUniqueUuid(this.runtime, 'hyperfy-world') as UUID
@@ -78,36 +80,17 @@ export class MessageManager {
           console.log(`[Hyperfy Chat Response] ${responseContent}`)
           const emote = responseContent.emote as string;
           // Send response back to Hyperfy
-          const emoteManager = service.getEmoteManager();
+          const emoteManager = session.getEmoteManager();
           if (emote) {
             emoteManager.playEmote(emote);
           }
           if (responseContent.text) {
             this.sendMessage(responseContent.text);
 
-            // Generate TTS audio and play via LiveKit (prefer ElevenLabs, fallback to OpenAI)
+            // Speak the reply via LiveKit, streamed sentence by sentence through the TTS provider chain
             try {
               console.log('[MessageManager] Starting TTS generation for:', responseContent.text.substring(0, 50) + '...');
-
-              // Try ElevenLabs first, then fallback to OpenAI
-              let audioBuffer = await generateElevenLabsTTS(responseContent.text);
-              if (!audioBuffer) {
-                console.log('[MessageManager] ElevenLabs failed, trying OpenAI TTS...');
-                audioBuffer = await generateOpenAITTS(responseContent.text);
-              }
-
-              console.log('[MessageManager] Audio buffer result:', audioBuffer ? `${audioBuffer.length} bytes` : 'null');
-              if (audioBuffer) {
-                const voiceManager = service.getVoiceManager();
-                console.log('[MessageManager] VoiceManager exists:', !!voiceManager);
-                if (voiceManager) {
-                  console.log('[MessageManager] Playing audio via LiveKit...');
-                  await voiceManager.playAudio(audioBuffer);
-                  logger.info('[MessageManager] TTS audio played successfully');
-                }
-              } else {
-                console.log('[MessageManager] No audio generated - check ELEVENLABS_XI_API_KEY or OPENAI_API_KEY in .env');
-              }
+              await session.getVoiceManager()?.speak(responseContent.text);
             } catch (ttsError) {
               logger.warn('[MessageManager] TTS generation failed, text-only response sent:', ttsError);
             }
@@ -156,14 +139,14 @@ export class MessageManager {
 
         // Emit the MESSAGE_RECEIVED event to trigger the message handler
         console.info(`[Hyperfy Chat] Emitting MESSAGE_RECEIVED event for message: ${messageId}`)
-        agentActivityLock.enter();
+        activityLock.enter();
         await this.runtime.emitEvent(hyperfyEventType.MESSAGE_RECEIVED as string, {
             runtime: this.runtime,
             message: memory,
             callback: callback,
             source: 'hyperfy',
             onComplete: () => {
-              agentActivityLock.exit();
+              activityLock.exit();
             }
           } as any,
         )
@@ -173,19 +156,23 @@ export class MessageManager {
     });
   }
 
-  async sendMessage(text: string): Promise<void> {
-    const service = this.runtime.getService<HyperfyService>(HyperfyService.serviceType);
-    const world = service.getWorld();
-    if (!service.isConnected() || !world?.chat || !world?.entities?.player) {
-      console.error('HyperfyService: Cannot send message. Not ready.')
+  /**
+   * Posts a chat line as the agent. `relayed` is for text passed through from
+   * elsewhere (e.g. Discord), which isn't the agent talking to its visitors.
+   */
+  async sendMessage(text: string, options: { relayed?: boolean } = {}): Promise<void> {
+    const session = this.getSession();
+    const world = session.getWorld();
+    if (!session.isConnected() || !world?.chat || !world?.entities?.player) {
+      console.error('WorldSession: Cannot send message. Not ready.')
       return
     }
 
     try {
       const agentPlayerId = world.entities.player.data.id
-      const agentPlayerName = service.getEntityName(agentPlayerId) || world.entities.player.data?.name || 'Hyperliza'
+      const agentPlayerName = session.getEntityName(agentPlayerId) || world.entities.player.data?.name || 'Hyperliza'
 
-      console.info(`HyperfyService sending message: "${text}" as ${agentPlayerName} (${agentPlayerId})`)
+      console.info(`WorldSession sending message: "${text}" as ${agentPlayerName} (${agentPlayerId})`)
 
       if (typeof world.chat.add !== 'function') {
         throw new Error('world.chat.add is not a function')
@@ -201,6 +188,7 @@ export class MessageManager {
         },
         true
       )
+      if (!options.relayed) session.getVisitorProfileManager()?.noteAgentMessage(text)
 
     } catch (error: any) {
       console.error('Error sending Hyperfy message:', error.message, error.stack)
@@ -316,7 +304,7 @@ export class MessageManager {
     };
   }
 
-  private getService() {
-    return this.runtime.getService<HyperfyService>(HyperfyService.serviceType);
+  private getSession() {
+    return this.session;
   }
 }
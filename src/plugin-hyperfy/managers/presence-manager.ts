@@ -0,0 +1,359 @@
+import { IAgentRuntime, Memory, ModelType, composePromptFromState, createUniqueUuid, logger } from '@elizaos/core';
+import type { WorldSession } from '../session';
+import type { AgentControls } from '../systems/controls';
+import { hyperfyEventType } from '../events';
+import { greetingTemplate } from '../templates';
+import { getBudgetManager, useModelWithBudget } from '../budget';
+
+const PRESENCE_POLL_INTERVAL = 1000; // ms
+// Someone still here after a reconnect this soon is on the same visit, not a new one
+const PRESENCE_REJOIN_WINDOW = 5 * 60 * 1000; // ms
+
+const HYPERFY_GREETING_ENABLED = process.env.HYPERFY_GREETING_ENABLED !== 'false';
+const HYPERFY_FAREWELL_ENABLED = process.env.HYPERFY_FAREWELL_ENABLED === 'true';
+// Give the newcomer's avatar time to load before turning and waving
+const HYPERFY_GREETING_DELAY_MS = parseInt(process.env.HYPERFY_GREETING_DELAY_MS || '2000', 10);
+// The same visitor isn't greeted again within this window (e.g. after a quick rejoin)
+const HYPERFY_GREETING_COOLDOWN_MS = parseInt(process.env.HYPERFY_GREETING_COOLDOWN_MS || '600000', 10);
+
+const GREETING_EMOTE = 'waving both hands';
+
+export type VisitorRecord = {
+  /** Hyperfy user ID, stable across visits (entity IDs change every time). */
+  userId: string;
+  name: string;
+  firstSeenAt: number;
+  lastSeenAt: number;
+  visits: number;
+};
+
+export type PresenceEvent = {
+  playerId: string;
+  userId: string;
+  name: string;
+  position: [number, number, number] | null;
+  /** True the first time this user is ever seen in this world. */
+  firstSeen: boolean;
+  visits: number;
+  /** When they were last here, for returning visitors. */
+  previousVisitAt?: number;
+};
+
+export type PresenceListener = (type: 'joined' | 'left', event: PresenceEvent) => void;
+
+type TrackedPlayer = {
+  userId: string;
+  name: string;
+  position: [number, number, number] | null;
+};
+
+/**
+ * Tracks who is in the world. Diffs the player list once a second and emits
+ * HYPERFY_PLAYER_JOINED / HYPERFY_PLAYER_LEFT runtime events. Visit history
+ * is kept per world in the agent's cache so returning visitors are recognised
+ * after a restart.
+ *
+ * When greetings are enabled, the agent turns to face newcomers, waves and
+ * says a short welcome.
+ */
+export class PresenceManager {
+  private runtime: IAgentRuntime;
+  private session: WorldSession;
+  private interval: NodeJS.Timeout | null = null;
+  private initialized = false;
+  private players: Map<string, TrackedPlayer> = new Map();
+  private visitors: Map<string, VisitorRecord> = new Map();
+  private lastGreetedAt: Map<string, number> = new Map();
+  private listeners: Set<PresenceListener> = new Set();
+
+  constructor(runtime: IAgentRuntime, session: WorldSession) {
+    this.runtime = runtime;
+    this.session = session;
+  }
+
+  private getSession() {
+    return this.session;
+  }
+
+  private getCacheKey(): string | null {
+    const worldId = this.getSession().currentWorldId;
+    return worldId ? `hyperfy/visitors/${worldId}` : null;
+  }
+
+  async load(): Promise<void> {
+    const key = this.getCacheKey();
+    if (!key) return;
+    try {
+      const stored = await this.runtime.getCache<VisitorRecord[]>(key);
+      this.visitors.clear();
+      for (const visitor of stored || []) {
+        this.visitors.set(visitor.userId, visitor);
+      }
+      logger.info(`[PresenceManager] Loaded ${this.visitors.size} known visitor(s).`);
+    } catch (error) {
+      logger.error('[PresenceManager] Failed to load visitors:', error);
+    }
+  }
+
+  private async persist(): Promise<void> {
+    const key = this.getCacheKey();
+    if (!key) return;
+    try {
+      await this.runtime.setCache<VisitorRecord[]>(key, Array.from(this.visitors.values()));
+    } catch (error) {
+      logger.error('[PresenceManager] Failed to save visitors:', error);
+    }
+  }
+
+  start(): void {
+    if (this.interval) return;
+    this.initialized = false;
+    this.interval = setInterval(() => {
+      try {
+        this.tick();
+      } catch (error) {
+        logger.error('[PresenceManager] Error while tracking players:', error);
+      }
+    }, PRESENCE_POLL_INTERVAL);
+  }
+
+  /**
+   * Stops tracking. Whoever is still here is marked as seen now, so a quick
+   * reconnect doesn't count their visit twice.
+   */
+  async stop(): Promise<void> {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+    const present = this.players;
+    this.players = new Map();
+    if (!present.size) return;
+    const now = Date.now();
+    for (const player of present.values()) {
+      const record = this.visitors.get(player.userId);
+      if (record) record.lastSeenAt = now;
+    }
+    await this.persist();
+  }
+
+  /**
+   * Subscribes to joins and leaves. Returns an unsubscribe function.
+   */
+  onChange(listener: PresenceListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /** Whether the agent greets arrivals itself (so nobody else needs to). */
+  greetsArrivals(): boolean {
+    return HYPERFY_GREETING_ENABLED;
+  }
+
+  getVisitor(userId: string): VisitorRecord | null {
+    return this.visitors.get(userId) || null;
+  }
+
+  /**
+   * Resolves a player entity ID currently in the world to its visitor record.
+   */
+  getVisitorByPlayerId(playerId: string): VisitorRecord | null {
+    const tracked = this.players.get(playerId);
+    return tracked ? this.getVisitor(tracked.userId) : null;
+  }
+
+  private tick(): void {
+    const world = this.getSession().getWorld();
+    const agentId = world?.entities?.player?.data?.id;
+    if (!agentId) return;
+
+    const current: Map<string, TrackedPlayer> = new Map();
+    for (const [id, entity] of world.entities.items.entries()) {
+      if (id === agentId || entity?.data?.type !== 'player') continue;
+      const pos = entity?.base?.position || entity?.root?.position;
+      current.set(id, {
+        userId: entity.data.userId || id,
+        name: entity.data.name || 'Unknown',
+        position: pos ? [pos.x, pos.y, pos.z] : null,
+      });
+    }
+
+    // Whoever is here when we connect didn't just arrive; just note the visit,
+    // unless they were already here before a reconnect
+    if (!this.initialized) {
+      const now = Date.now();
+      for (const player of current.values()) {
+        const existing = this.visitors.get(player.userId);
+        if (existing && now - existing.lastSeenAt < PRESENCE_REJOIN_WINDOW) {
+          existing.name = player.name;
+          existing.lastSeenAt = now;
+        } else {
+          this.recordVisit(player, now);
+        }
+      }
+      this.players = current;
+      this.initialized = true;
+      if (current.size) this.persist();
+      return;
+    }
+
+    let changed = false;
+    for (const [id, player] of current) {
+      if (this.players.has(id)) continue;
+      this.handleJoin(id, player);
+      changed = true;
+    }
+    for (const [id, player] of this.players) {
+      if (current.has(id)) continue;
+      this.handleLeave(id, player);
+      changed = true;
+    }
+
+    this.players = current;
+    if (changed) this.persist();
+  }
+
+  private recordVisit(player: TrackedPlayer, now: number): { record: VisitorRecord; previous: VisitorRecord | null } {
+    const existing = this.visitors.get(player.userId);
+    const previous = existing ? { ...existing } : null;
+    const record: VisitorRecord = existing
+      ? { ...existing, name: player.name, lastSeenAt: now, visits: existing.visits + 1 }
+      : { userId: player.userId, name: player.name, firstSeenAt: now, lastSeenAt: now, visits: 1 };
+    this.visitors.set(player.userId, record);
+    return { record, previous };
+  }
+
+  private handleJoin(playerId: string, player: TrackedPlayer): void {
+    const { record, previous } = this.recordVisit(player, Date.now());
+    const event: PresenceEvent = {
+      playerId,
+      userId: player.userId,
+      name: player.name,
+      position: player.position,
+      firstSeen: !previous,
+      visits: record.visits,
+      previousVisitAt: previous?.lastSeenAt,
+    };
+    logger.info(`[PresenceManager] ${player.name} joined (${event.firstSeen ? 'first visit' : `visit #${event.visits}`}).`);
+
+    this.emit(hyperfyEventType.PLAYER_JOINED, 'joined', event);
+
+    if (HYPERFY_GREETING_ENABLED) {
+      setTimeout(() => {
+        this.greet(event).catch(error => logger.error('[PresenceManager] Greeting failed:', error));
+      }, HYPERFY_GREETING_DELAY_MS);
+    }
+  }
+
+  private handleLeave(playerId: string, player: TrackedPlayer): void {
+    const record = this.visitors.get(player.userId);
+    if (record) record.lastSeenAt = Date.now();
+    const event: PresenceEvent = {
+      playerId,
+      userId: player.userId,
+      name: player.name,
+      position: player.position,
+      firstSeen: record?.visits === 1,
+      visits: record?.visits ?? 1,
+    };
+    logger.info(`[PresenceManager] ${player.name} left.`);
+
+    this.emit(hyperfyEventType.PLAYER_LEFT, 'left', event);
+
+    // `players` still includes the leaver; only say bye if someone else is around to hear it
+    if (HYPERFY_FAREWELL_ENABLED && this.players.size > 1) {
+      this.getSession().getMessageManager()?.sendMessage(`Bye ${player.name}, see you next time!`);
+    }
+  }
+
+  private emit(eventName: hyperfyEventType, type: 'joined' | 'left', event: PresenceEvent): void {
+    this.runtime.emitEvent(eventName as string, {
+      runtime: this.runtime,
+      worldId: this.getSession().currentWorldId,
+      ...event,
+    } as any);
+    for (const listener of this.listeners) {
+      try {
+        listener(type, event);
+      } catch (error) {
+        logger.error('[PresenceManager] Presence listener failed:', error);
+      }
+    }
+  }
+
+  /**
+   * Turns to face the newcomer, waves and says a welcome that differs for
+   * first-time and returning visitors.
+   */
+  private async greet(event: PresenceEvent): Promise<void> {
+    const session = this.getSession();
+    const world = session.getWorld();
+    const entity = world?.entities?.items?.get(event.playerId);
+    if (!session.isConnected() || !entity) return; // left again already
+
+    const now = Date.now();
+    if (now - (this.lastGreetedAt.get(event.userId) ?? 0) < HYPERFY_GREETING_COOLDOWN_MS) return;
+
+    const tour = session.getTourManager()?.getActiveTour();
+    if (tour) {
+      logger.debug(`[PresenceManager] Not greeting ${event.name} — giving the "${tour.tour.name}" tour.`);
+      return;
+    }
+    this.lastGreetedAt.set(event.userId, now);
+
+    const controls = world.controls as AgentControls | undefined;
+    const self = world.entities.player?.base?.position;
+    const target = entity.base?.position || entity.root?.position;
+    if (controls && self && target && !controls.getFollowState?.()) {
+      const dx = target.x - self.x;
+      const dz = target.z - self.z;
+      if (dx || dz) controls.faceRotationY(Math.atan2(-dx, -dz));
+    }
+
+    session.getEmoteManager()?.playEmote(GREETING_EMOTE);
+
+    const text = await this.composeGreeting(event);
+    await session.getMessageManager()?.sendMessage(text);
+
+    try {
+      await session.getVoiceManager()?.speak(text, { addressee: event.playerId });
+    } catch (error) {
+      logger.warn('[PresenceManager] TTS greeting failed, text-only greeting sent:', error);
+    }
+  }
+
+  private async composeGreeting(event: PresenceEvent): Promise<string> {
+    const fallback = event.firstSeen
+      ? `Hi ${event.name}, welcome! Nice to meet you.`
+      : `Welcome back, ${event.name}! Good to see you again.`;
+
+    // Spare the budget for conversations; a canned line is fine
+    if (!getBudgetManager(this.runtime).allowsAutonomy()) return fallback;
+
+    const remembered = this.getSession().getVisitorProfileManager()?.formatForPrompt(event.playerId);
+    const visitText = (event.firstSeen
+      ? `This is ${event.name}'s first visit.`
+      : `${event.name} has been here ${event.visits - 1} time(s) before` +
+        (event.previousVisitAt ? `, last seen ${new Date(event.previousVisitAt).toISOString()}.` : '.')) +
+      (remembered ? `\n\nWhat you remember about them:\n${remembered}` : '');
+
+    try {
+      const worldId = this.getSession().currentWorldId;
+      const message: Memory = {
+        id: createUniqueUuid(this.runtime, Date.now().toString()),
+        content: { text: '', type: 'text' },
+        roomId: createUniqueUuid(this.runtime, worldId || 'hyperfy-unknown-world'),
+        worldId,
+        entityId: createUniqueUuid(this.runtime, this.runtime.agentId),
+      };
+      const state = await this.runtime.composeState(message);
+      const prompt = composePromptFromState({ state, template: greetingTemplate(event.name, visitText) });
+      const response = await useModelWithBudget(this.runtime, 'behavior', ModelType.TEXT_SMALL, { prompt });
+      const line = typeof response === 'string' ? response.trim().replace(/^["']|["']$/g, '') : '';
+      return line || fallback;
+    } catch (error) {
+      logger.warn('[PresenceManager] Could not compose greeting, using a default line:', error);
+      return fallback;
+    }
+  }
+}
@@ -4,16 +4,15 @@ import fs from 'fs'
 import { promises as fsPromises } from 'fs';
 import puppeteer from 'puppeteer'
 import { IAgentRuntime, ModelType } from '@elizaos/core'
-import { HyperfyService } from '../service.js'
+import type { WorldSession } from '../session.js'
 import * as THREE from 'three';
 import { resolveUrl } from '../utils.js';
 import { getModuleDirectory } from '../utils.js';
 
 
 export class PuppeteerManager {
-  private static instance: PuppeteerManager | null = null
-  
   private runtime: IAgentRuntime
+  private session: WorldSession
   private browser: puppeteer.Browser
   private page: puppeteer.Page
   private initPromise: Promise<void> | null = null
@@ -25,22 +24,10 @@ export class PuppeteerManager {
   ] as const;
 
 
-  constructor(runtime: IAgentRuntime) {
+  constructor(runtime: IAgentRuntime, session: WorldSession) {
     this.runtime = runtime
+    this.session = session
     this.init()
-
-    if (!PuppeteerManager.instance) {
-      PuppeteerManager.instance = this
-    } else {
-      throw new Error('PuppeteerManager has already been instantiated.')
-    }
-  }
-
-  public static getInstance(): PuppeteerManager {
-    if (!this.instance) {
-      throw new Error('PuppeteerManager not yet initialized. Call new PuppeteerManager(runtime) first.')
-    }
-    return this.instance
   }
 
   private async init() {
@@ -89,8 +76,8 @@ export class PuppeteerManager {
   ): Promise<string> {
     await this.init();
   
-    const service = this.getService();
-    const world = service.getWorld();
+    const session = this.getSession();
+    const world = session.getWorld();
     const player = world.entities.player;
   
     if (!player) {
@@ -125,8 +112,8 @@ export class PuppeteerManager {
   public async snapshotViewToTarget(targetPosition: [number, number, number]): Promise<string> {
     await this.init();
   
-    const service = this.getService();
-    const world = service.getWorld();
+    const session = this.getSession();
+    const world = session.getWorld();
     const player = world.entities.player;
   
     if (!player) {
@@ -153,8 +140,8 @@ export class PuppeteerManager {
   public async snapshotEquirectangular(): Promise<string> {
     await this.init();
   
-    const service = this.getService();
-    const world = service.getWorld();
+    const session = this.getSession();
+    const world = session.getWorld();
     const player = world.entities.player;
   
     if (!player) {
@@ -269,8 +256,8 @@ export class PuppeteerManager {
   
   public async loadEnvironmentHDR(url: string): Promise<void> {
     await this.init();
-    const service = this.getService()
-    const world = service.getWorld()
+    const session = this.getSession()
+    const world = session.getWorld()
 
     url = await resolveUrl(url, world);
 
@@ -289,8 +276,8 @@ export class PuppeteerManager {
   }
 
   private async rehydrateSceneAssets() {
-    const service = this.getService()
-    const world = service.getWorld()
+    const session = this.getSession()
+    const world = session.getWorld()
     const sceneJson = world.stage.scene.toJSON()
 
     const agentId = world.entities.player.data.id;
@@ -388,8 +375,8 @@ export class PuppeteerManager {
     }, sceneJson, STRIP_SLOTS, players);
   }
 
-  private getService() {
-    return this.runtime.getService<HyperfyService>(HyperfyService.serviceType)
+  private getSession() {
+    return this.session
   }
 
   /**
@@ -400,8 +387,8 @@ export class PuppeteerManager {
   async setAgentExpression(expressionName: string, weight: number): Promise<void> {
     await this.init();
 
-    const service = this.getService();
-    const world = service.getWorld();
+    const session = this.getSession();
+    const world = session.getWorld();
     if (!world?.entities?.player) return;
 
     const avatarUrl = world.entities.player.avatarUrl;
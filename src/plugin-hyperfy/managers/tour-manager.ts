@@ -0,0 +1,271 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { IAgentRuntime, logger } from '@elizaos/core';
+import type { WorldSession } from '../session';
+import { AgentControls, type NavigationOutcome } from '../systems/controls';
+import { getPlayersWithin } from '../utils';
+
+const HYPERFY_TOURS_DIR = process.env.HYPERFY_TOURS_DIR || path.join(process.cwd(), 'tours');
+
+const GROUP_RADIUS = 6; // meters, participants closer than this have "caught up"
+const GROUP_WAIT_TIMEOUT = 45000; // ms before moving on without stragglers
+const GROUP_POLL_INTERVAL = 500; // ms
+const DEFAULT_DWELL_TIME = 5000; // ms
+const PARTICIPANT_RADIUS = 10; // meters, players this close when the tour starts join it
+
+export type TourTarget =
+  | { entityId: string }
+  | { landmark: string }
+  | { x: number; z: number };
+
+export type TourStop = {
+  name?: string;
+  target: TourTarget;
+  narration: string;
+  emote?: string;
+  dwellMs?: number;
+};
+
+export type Tour = {
+  id: string;
+  name: string;
+  description?: string;
+  aliases?: string[];
+  intro?: string;
+  outro?: string;
+  stops: TourStop[];
+};
+
+export type ActiveTour = {
+  tour: Tour;
+  stopIndex: number;
+  participants: Set<string>;
+  startedAt: number;
+  aborted: boolean;
+};
+
+/**
+ * Runs guided tours: walks between scripted stops, waits for the group to
+ * catch up, then narrates each stop in chat and voice.
+ *
+ * Tours are JSON files in HYPERFY_TOURS_DIR (default `./tours`), one tour per file.
+ */
+export class TourManager {
+  private runtime: IAgentRuntime;
+  private session: WorldSession;
+  private tours: Map<string, Tour> = new Map();
+  private activeTour: ActiveTour | null = null;
+
+  constructor(runtime: IAgentRuntime, session: WorldSession) {
+    this.runtime = runtime;
+    this.session = session;
+  }
+
+  private getSession() {
+    return this.session;
+  }
+
+  async loadTours(dir: string = HYPERFY_TOURS_DIR): Promise<void> {
+    this.tours.clear();
+    let files: string[] = [];
+    try {
+      files = (await fs.readdir(dir)).filter(file => file.endsWith('.json'));
+    } catch {
+      logger.debug(`[TourManager] No tours directory at ${dir}`);
+      return;
+    }
+
+    for (const file of files) {
+      try {
+        const raw = JSON.parse(await fs.readFile(path.join(dir, file), 'utf8'));
+        const tour: Tour = { ...raw, id: raw.id || path.basename(file, '.json') };
+        if (!tour.name || !Array.isArray(tour.stops) || !tour.stops.length) {
+          throw new Error('a tour needs a name and at least one stop');
+        }
+        this.tours.set(tour.id.toLowerCase(), tour);
+      } catch (error: any) {
+        logger.error(`[TourManager] Skipping invalid tour file ${file}: ${error.message}`);
+      }
+    }
+    logger.info(`[TourManager] Loaded ${this.tours.size} tour(s) from ${dir}`);
+  }
+
+  listTours(): Tour[] {
+    return Array.from(this.tours.values());
+  }
+
+  /**
+   * Looks up a tour by ID, name or alias (case-insensitive).
+   */
+  findTour(nameOrId: string): Tour | null {
+    const key = nameOrId?.trim().toLowerCase();
+    if (!key) return null;
+    const direct = this.tours.get(key);
+    if (direct) return direct;
+    for (const tour of this.tours.values()) {
+      if (tour.name.toLowerCase() === key) return tour;
+      if (tour.aliases?.some(alias => alias.toLowerCase() === key)) return tour;
+    }
+    return null;
+  }
+
+  isRunning(): boolean {
+    return !!this.activeTour;
+  }
+
+  getActiveTour(): ActiveTour | null {
+    return this.activeTour;
+  }
+
+  /**
+   * Starts a tour in the background. Participants are the requesting player
+   * plus anyone standing nearby; the tour ends early if they all leave.
+   */
+  start(tour: Tour, requesterId?: string): void {
+    if (this.activeTour) {
+      throw new Error(`Already giving the "${this.activeTour.tour.name}" tour.`);
+    }
+    const world = this.getSession().getWorld();
+    const player = world?.entities?.player;
+    if (!player?.base) {
+      throw new Error('Cannot find the agent in the world.');
+    }
+
+    const participants = new Set(getPlayersWithin(world, player.base.position, PARTICIPANT_RADIUS).map(p => p.id));
+    if (requesterId && world.entities.items.has(requesterId)) participants.add(requesterId);
+
+    const active: ActiveTour = { tour, stopIndex: 0, participants, startedAt: Date.now(), aborted: false };
+    this.activeTour = active;
+    logger.info(`[TourManager] Starting tour "${tour.name}" with ${participants.size} participant(s).`);
+
+    const startedWith = participants.size;
+    let failed = false;
+    this.run(active)
+      .catch(error => {
+        failed = true;
+        logger.error(`[TourManager] Tour "${tour.name}" failed:`, error);
+      })
+      .finally(() => {
+        if (this.activeTour === active) this.activeTour = null;
+        const completed = !active.aborted && !failed;
+        this.getSession().getActivityLogManager()?.record({
+          type: 'tour',
+          tour: tour.name,
+          participants: startedWith,
+          stops: completed ? tour.stops.length : active.stopIndex,
+          completed,
+        });
+      });
+  }
+
+  stop(reason: string = 'stopped'): void {
+    if (!this.activeTour) return;
+    logger.info(`[TourManager] Stopping tour "${this.activeTour.tour.name}" (${reason}).`);
+    this.activeTour.aborted = true;
+    this.activeTour = null;
+    const controls = this.getSession().getWorld()?.controls as AgentControls | undefined;
+    controls?.stopAllActions('tour stopped');
+  }
+
+  private async run(active: ActiveTour): Promise<void> {
+    const { tour } = active;
+    if (tour.intro) await this.narrate(tour.intro);
+
+    for (let i = 0; i < tour.stops.length; i++) {
+      if (active.aborted) return;
+      active.stopIndex = i;
+      const stop = tour.stops[i];
+
+      const outcome = await this.walkTo(stop.target);
+      if (active.aborted) return;
+      if (outcome === 'interrupted') {
+        // Something else took over the controls; leave it be rather than calling stopAllActions
+        logger.info(`[TourManager] Walk to stop ${i + 1} of "${tour.name}" was interrupted. Ending the tour.`);
+        active.aborted = true;
+        await this.narrate('Sorry, I have to leave the tour here. Thanks for coming along!');
+        return;
+      }
+      if (outcome !== 'reached') {
+        logger.warn(`[TourManager] Stop ${i + 1} of "${tour.name}" is ${outcome}, skipping it.`);
+        await this.narrate(`I can't get to ${stop.name ?? 'the next stop'} from here, so let's skip it.`);
+        continue;
+      }
+
+      await this.waitForGroup(active);
+      if (active.aborted) return;
+      if (!active.participants.size) {
+        logger.info(`[TourManager] Everyone left the "${tour.name}" tour. Ending it.`);
+        this.stop('no participants left');
+        return;
+      }
+
+      if (stop.emote) this.getSession().getEmoteManager()?.playEmote(stop.emote);
+      await this.narrate(stop.narration);
+      await new Promise(resolve => setTimeout(resolve, stop.dwellMs ?? DEFAULT_DWELL_TIME));
+    }
+
+    if (!active.aborted && tour.outro) await this.narrate(tour.outro);
+    logger.info(`[TourManager] Finished tour "${tour.name}".`);
+  }
+
+  /**
+   * Walks to a stop. An unknown landmark counts as reached, so its stop is
+   * narrated from wherever the agent is.
+   */
+  private async walkTo(target: TourTarget): Promise<NavigationOutcome> {
+    const world = this.getSession().getWorld();
+    const controls = world?.controls as AgentControls | undefined;
+    if (!controls) throw new Error('Controls not available.');
+
+    if ('entityId' in target) {
+      return controls.followEntity(target.entityId);
+    }
+    if ('landmark' in target) {
+      const landmark = this.getSession().getLandmarkManager()?.find(target.landmark);
+      if (!landmark) {
+        logger.warn(`[TourManager] Unknown landmark "${target.landmark}", narrating from here.`);
+        return 'reached';
+      }
+      const outcome = await controls.goto(landmark.position[0], landmark.position[2]);
+      if (outcome === 'reached' && typeof landmark.rotationY === 'number') controls.faceRotationY(landmark.rotationY);
+      return outcome;
+    }
+    return controls.goto(target.x, target.z);
+  }
+
+  /**
+   * Waits until every participant still in the world is within GROUP_RADIUS,
+   * or GROUP_WAIT_TIMEOUT passes. Participants who left the world are dropped.
+   */
+  private async waitForGroup(active: ActiveTour): Promise<void> {
+    const deadline = Date.now() + GROUP_WAIT_TIMEOUT;
+    while (!active.aborted && Date.now() < deadline) {
+      const world = this.getSession().getWorld();
+      const position = world?.entities?.player?.base?.position;
+      if (!position) return;
+
+      for (const id of active.participants) {
+        if (!world.entities.items.has(id)) active.participants.delete(id);
+      }
+      const nearby = new Set(getPlayersWithin(world, position, GROUP_RADIUS).map(p => p.id));
+      const waitingFor = [...active.participants].filter(id => !nearby.has(id));
+      if (!waitingFor.length) return;
+
+      await new Promise(resolve => setTimeout(resolve, GROUP_POLL_INTERVAL));
+    }
+    if (!active.aborted) {
+      logger.info('[TourManager] Group wait timed out, continuing the tour.');
+    }
+  }
+
+  private async narrate(text: string): Promise<void> {
+    const session = this.getSession();
+    await session.getMessageManager()?.sendMessage(text);
+
+    try {
+      await session.getVoiceManager()?.speak(text);
+    } catch (error) {
+      logger.warn('[TourManager] TTS narration failed, text-only narration sent:', error);
+    }
+  }
+}
@@ -0,0 +1,265 @@
+import { IAgentRuntime, ModelType, logger } from '@elizaos/core';
+import type { WorldSession } from '../session';
+import type { VisitorRecord } from './presence-manager';
+import { visitorProfileTemplate } from '../templates';
+import { getBudgetManager, useModelWithBudget } from '../budget';
+
+const CONVERSATION_IDLE_MS = 120000; // a conversation ends after 2 minutes without a word from the visitor
+const MAX_TRANSCRIPT_LINES = 40;
+const MAX_TOPICS = 10;
+const MAX_FACTS = 12;
+
+export type VisitorProfile = {
+  /** Hyperfy user ID, stable across visits. */
+  userId: string;
+  name: string;
+  language?: string;
+  /** Things they asked about or wanted to talk about. */
+  topics: string[];
+  /** Things they told us about themselves ("building a DAO tool"). */
+  facts: string[];
+  /** A few sentences on who they are and how past conversations went. */
+  summary?: string;
+  conversations: number;
+  updatedAt: number;
+};
+
+type Conversation = {
+  userId: string;
+  name: string;
+  lines: string[];
+  lastMessageAt: number;
+  timer: NodeJS.Timeout | null;
+};
+
+/**
+ * What the agent has learned about the people it talks to, keyed by Hyperfy
+ * user ID and persisted per world. Chat and voice lines are buffered per
+ * visitor; once a conversation goes idle (or they leave) the LLM folds it into
+ * their profile. Visit counts and first/last seen come from the PresenceManager.
+ */
+export class VisitorProfileManager {
+  private runtime: IAgentRuntime;
+  private session: WorldSession;
+  private profiles: Map<string, VisitorProfile> = new Map();
+  private conversations: Map<string, Conversation> = new Map();
+  private unsubscribePresence: (() => void) | null = null;
+
+  constructor(runtime: IAgentRuntime, session: WorldSession) {
+    this.runtime = runtime;
+    this.session = session;
+  }
+
+  private getSession() {
+    return this.session;
+  }
+
+  private getCacheKey(): string | null {
+    const worldId = this.getSession().currentWorldId;
+    return worldId ? `hyperfy/visitor-profiles/${worldId}` : null;
+  }
+
+  async load(): Promise<void> {
+    const key = this.getCacheKey();
+    if (!key) return;
+    try {
+      const stored = await this.runtime.getCache<VisitorProfile[]>(key);
+      // A fresh map, so summaries still running for the previous world don't land in this one
+      this.profiles = new Map();
+      for (const profile of stored || []) {
+        this.profiles.set(profile.userId, profile);
+      }
+      logger.info(`[VisitorProfileManager] Loaded ${this.profiles.size} visitor profile(s).`);
+    } catch (error) {
+      logger.error('[VisitorProfileManager] Failed to load visitor profiles:', error);
+    }
+  }
+
+  private async persist(key: string | null, profiles: Map<string, VisitorProfile>): Promise<void> {
+    if (!key) return;
+    await this.runtime.setCache<VisitorProfile[]>(key, Array.from(profiles.values()));
+  }
+
+  start(): void {
+    if (this.unsubscribePresence) return;
+    // Someone leaving is the clearest sign their conversation is over
+    this.unsubscribePresence = this.getSession().getPresenceManager()?.onChange((type, event) => {
+      if (type === 'left') this.endConversation(event.userId);
+    }) ?? null;
+  }
+
+  /**
+   * Summarizes any conversations still in progress and stops listening. The
+   * summaries finish in the background, so a reconnect never waits on the model.
+   */
+  stop(): void {
+    this.unsubscribePresence?.();
+    this.unsubscribePresence = null;
+    for (const userId of Array.from(this.conversations.keys())) {
+      this.endConversation(userId);
+    }
+  }
+
+  getProfile(userId: string): VisitorProfile | null {
+    return this.profiles.get(userId) || null;
+  }
+
+  /**
+   * The Hyperfy user ID behind a player entity, falling back to the entity ID.
+   */
+  resolveUserId(playerId: string): string {
+    const entity = this.getSession().getWorld()?.entities?.items?.get(playerId);
+    return entity?.data?.userId || playerId;
+  }
+
+  /**
+   * Records a line a visitor said, in chat or by voice.
+   */
+  noteVisitorMessage(playerId: string, name: string, text: string): void {
+    if (!text?.trim()) return;
+    const userId = this.resolveUserId(playerId);
+    let conversation = this.conversations.get(userId);
+    if (!conversation) {
+      conversation = { userId, name, lines: [], lastMessageAt: 0, timer: null };
+      this.conversations.set(userId, conversation);
+    }
+    conversation.name = name;
+    conversation.lastMessageAt = Date.now();
+    this.pushLine(conversation, `${name}: ${text.trim()}`);
+
+    if (conversation.timer) clearTimeout(conversation.timer);
+    conversation.timer = setTimeout(() => this.endConversation(userId), CONVERSATION_IDLE_MS);
+  }
+
+  /**
+   * Records something the agent said into every conversation still going on.
+   */
+  noteAgentMessage(text: string): void {
+    if (!text?.trim()) return;
+    const now = Date.now();
+    for (const conversation of this.conversations.values()) {
+      if (now - conversation.lastMessageAt < CONVERSATION_IDLE_MS) {
+        this.pushLine(conversation, `${this.runtime.character.name}: ${text.trim()}`);
+      }
+    }
+  }
+
+  private pushLine(conversation: Conversation, line: string): void {
+    conversation.lines.push(line);
+    if (conversation.lines.length > MAX_TRANSCRIPT_LINES) {
+      conversation.lines.splice(0, conversation.lines.length - MAX_TRANSCRIPT_LINES);
+    }
+  }
+
+  private endConversation(userId: string): void {
+    const conversation = this.conversations.get(userId);
+    if (!conversation) return;
+    if (conversation.timer) clearTimeout(conversation.timer);
+    this.conversations.delete(userId);
+
+    this.summarize(conversation).catch(error =>
+      logger.error(`[VisitorProfileManager] Failed to update profile for ${conversation.name}:`, error)
+    );
+  }
+
+  /**
+   * Folds a finished conversation into the visitor's profile.
+   */
+  private async summarize(conversation: Conversation): Promise<void> {
+    // The session may switch worlds while the model is working
+    const key = this.getCacheKey();
+    const profiles = this.profiles;
+    const worldId = this.getSession().currentWorldId;
+    const existing = profiles.get(conversation.userId);
+    const profile: VisitorProfile = existing
+      ? { ...existing, name: conversation.name }
+      : { userId: conversation.userId, name: conversation.name, topics: [], facts: [], conversations: 0, updatedAt: 0 };
+    profile.conversations++;
+    profile.updatedAt = Date.now();
+    let topics: string[] = [];
+
+    if (!getBudgetManager(this.runtime).allowsAutonomy()) {
+      logger.info(`[VisitorProfileManager] LLM budget is running low, not summarizing the conversation with ${conversation.name}.`);
+    } else {
+      const prompt = visitorProfileTemplate(
+        this.runtime.character.name,
+        conversation.name,
+        JSON.stringify({
+          language: profile.language ?? null,
+          topics: profile.topics,
+          facts: profile.facts,
+          summary: profile.summary ?? null,
+        }, null, 2),
+        conversation.lines.join('\n')
+      );
+      const result = await useModelWithBudget(this.runtime, 'profile', ModelType.OBJECT_SMALL, { prompt });
+      if (result && typeof result === 'object') {
+        if (typeof result.language === 'string' && result.language) profile.language = result.language;
+        // The model returns the whole list; what wasn't in it before came up this time
+        const known = new Set(profile.topics.map((topic) => topic.toLowerCase()));
+        topics = mergeList([], result.topics, MAX_TOPICS).filter((topic) => !known.has(topic.toLowerCase()));
+        profile.topics = mergeList(profile.topics, result.topics, MAX_TOPICS);
+        profile.facts = mergeList(profile.facts, result.facts, MAX_FACTS);
+        if (typeof result.summary === 'string' && result.summary) profile.summary = result.summary;
+      } else {
+        logger.warn(`[VisitorProfileManager] Unexpected profile update for ${conversation.name}:`, result);
+      }
+    }
+
+    // The activity log gets what was talked about, never what visitors told us.
+    // The session may have reconnected by now; its current log files it under the right world
+    this.getSession().getActivityLogManager()?.record({
+      type: 'conversation',
+      name: conversation.name,
+      topics,
+      lines: conversation.lines.length,
+    }, worldId);
+
+    profiles.set(profile.userId, profile);
+    await this.persist(key, profiles);
+    logger.info(`[VisitorProfileManager] Updated profile for ${profile.name} (${profile.facts.length} fact(s)).`);
+  }
+
+  /**
+   * Formats what we know about a player for prompts, or null if we know nothing.
+   */
+  formatForPrompt(playerId: string, label?: string): string | null {
+    const userId = this.resolveUserId(playerId);
+    const profile = this.profiles.get(userId);
+    const visits: VisitorRecord | null = this.getSession().getPresenceManager()?.getVisitor(userId) ?? null;
+    if (!profile && (!visits || visits.visits <= 1)) return null;
+
+    const name = profile?.name || visits?.name || 'Unknown';
+    const lines = [`### ${name}${label ? ` (${label})` : ''}`];
+    if (visits) {
+      lines.push(`- Visits: ${visits.visits} (first seen ${formatDate(visits.firstSeenAt)}, last seen ${formatDate(visits.lastSeenAt)})`);
+    }
+    if (profile) {
+      lines.push(`- Conversations with you: ${profile.conversations}`);
+      if (profile.language) lines.push(`- Preferred language: ${profile.language}`);
+      if (profile.topics.length) lines.push(`- Asked about: ${profile.topics.join('; ')}`);
+      if (profile.facts.length) lines.push(`- Told you: ${profile.facts.join('; ')}`);
+      if (profile.summary) lines.push(`- Summary: ${profile.summary}`);
+    }
+    return lines.join('\n');
+  }
+}
+
+function mergeList(current: string[], update: unknown, max: number): string[] {
+  if (!Array.isArray(update)) return current;
+  const merged: string[] = [];
+  const seen = new Set<string>();
+  // The model's updated list comes first; older entries it left out fill any remaining room
+  for (const item of [...update, ...current]) {
+    if (typeof item !== 'string' || !item.trim()) continue;
+    const key = item.trim().toLowerCase();
+    if (seen.has(key)) continue;
+    seen.add(key);
+    merged.push(item.trim());
+  }
+  return merged.slice(0, max);
+}
+
+function formatDate(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
@@ -0,0 +1,317 @@
+const envNumber = (name: string, fallback: number): number => {
+  const parsed = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(parsed) ? parsed : fallback;
+};
+
+export type VadSettings = {
+  /** How far above the speaker's noise floor (dB) a frame must be to count as speech. */
+  snrDb: number;
+  /** Frames quieter than this (dBFS) are never speech, however quiet the room is. */
+  minEnergyDb: number;
+  /** Speech needed before an utterance is worth transcribing (ms); shorter blips are dropped. */
+  minSpeechMs: number;
+  /** The speaker still counts as talking for this long after the last speech frame (ms). */
+  hangoverMs: number;
+  /** Silence after speech that ends the utterance (ms). */
+  endSilenceMs: number;
+  /** Longer utterances are cut here and sent on (ms). */
+  maxUtteranceMs: number;
+};
+
+export const DEFAULT_VAD_SETTINGS: VadSettings = {
+  snrDb: envNumber('HYPERFY_VAD_SNR_DB', 9),
+  minEnergyDb: envNumber('HYPERFY_VAD_MIN_ENERGY_DB', -60),
+  minSpeechMs: envNumber('HYPERFY_VAD_MIN_SPEECH_MS', 250),
+  hangoverMs: envNumber('HYPERFY_VAD_HANGOVER_MS', 300),
+  endSilenceMs: envNumber('HYPERFY_VAD_END_SILENCE_MS', 800),
+  maxUtteranceMs: envNumber('HYPERFY_VAD_MAX_UTTERANCE_MS', 15000),
+};
+
+const FRAME_MS = 10;
+const FFT_SIZE = 512;
+const SPEECH_BAND: [number, number] = [250, 4000]; // Hz
+const MIN_SPEECH_BAND_RATIO = 0.45; // share of frame energy inside the speech band
+const MAX_SPECTRAL_FLATNESS = 0.45; // noise is flat (~1), voiced speech is peaky
+const PRE_ROLL_MS = 200; // audio kept from before onset so the first syllable isn't clipped
+// Speech rises and falls with syllables; steady music or hum barely moves.
+// A sound that stays this steady for STEADY_SOUND_MS is learned as background.
+const MIN_ENERGY_VARIATION_DB = 4;
+const STEADY_SOUND_MS = 1500;
+const INITIAL_NOISE_FLOOR_DB = -70;
+const MIN_NOISE_FLOOR_DB = -90; // digital silence would otherwise drag the floor down for good
+// Noise floor smoothing time constants (ms): falls fast, rises slowly, and
+// rises very slowly during speech so a constant sound is eventually absorbed
+const FLOOR_FALL_MS = 300;
+const FLOOR_RISE_MS = 3000;
+const FLOOR_RISE_DURING_SPEECH_MS = 30000;
+
+export type VadFrameFeatures = {
+  energyDb: number;
+  speechBandRatio: number;
+  flatness: number;
+};
+
+export type Utterance = {
+  /** Raw 16-bit mono PCM, including the pre-roll. */
+  audio: Buffer;
+  durationMs: number;
+  speechMs: number;
+  reason: 'silence' | 'max_length' | 'flush';
+};
+
+/**
+ * Voice activity and end-of-utterance detection for one participant's 16-bit
+ * mono PCM stream. Each 10ms frame is classified on energy relative to an
+ * adaptive noise floor plus two spectral features (speech-band energy share
+ * and spectral flatness). Utterances shorter than `minSpeechMs` of speech, or
+ * too steady to be speech, are dropped instead of being transcribed.
+ */
+export class VoiceActivityDetector {
+  private settings: VadSettings;
+  private sampleRate: number;
+  private frameBytes: number;
+  private pending: Buffer = Buffer.alloc(0);
+
+  private noiseFloorDb = INITIAL_NOISE_FLOOR_DB;
+  /** Audio clock in ms, advanced per frame so timing doesn't depend on delivery jitter. */
+  private clock = 0;
+  private lastSpeechAt = -Infinity;
+
+  private preRoll: Buffer[] = [];
+  private utterance: Buffer[] | null = null;
+  private utteranceStartedAt = 0;
+  private speechMs = 0;
+  private utteranceEnergies: number[] = [];
+
+  constructor(settings: VadSettings = DEFAULT_VAD_SETTINGS, sampleRate = 48000) {
+    this.settings = settings;
+    this.sampleRate = sampleRate;
+    this.frameBytes = Math.round((sampleRate * FRAME_MS) / 1000) * 2;
+  }
+
+  updateSettings(settings: VadSettings): void {
+    this.settings = settings;
+  }
+
+  /** Whether the participant is talking right now (within the hangover). */
+  isSpeaking(): boolean {
+    return this.clock - this.lastSpeechAt <= this.settings.hangoverMs;
+  }
+
+  /** Whether audio is being collected for an utterance. */
+  isInUtterance(): boolean {
+    return !!this.utterance;
+  }
+
+  getNoiseFloorDb(): number {
+    return this.noiseFloorDb;
+  }
+
+  /**
+   * Feeds PCM audio in and returns any utterances that ended within it.
+   */
+  push(pcm: Buffer): Utterance[] {
+    const finished: Utterance[] = [];
+    let data = this.pending.length ? Buffer.concat([this.pending, pcm]) : pcm;
+    while (data.length >= this.frameBytes) {
+      const frame = data.subarray(0, this.frameBytes);
+      data = data.subarray(this.frameBytes);
+      const utterance = this.processFrame(Buffer.from(frame));
+      if (utterance) finished.push(utterance);
+    }
+    this.pending = Buffer.from(data);
+    return finished;
+  }
+
+  /**
+   * Ends the current utterance (e.g. when the participant's stream stops).
+   * Returns it if it's worth transcribing.
+   */
+  flush(): Utterance | null {
+    return this.finish('flush');
+  }
+
+  reset(): void {
+    this.pending = Buffer.alloc(0);
+    this.preRoll = [];
+    this.utterance = null;
+    this.speechMs = 0;
+    this.utteranceEnergies = [];
+    this.lastSpeechAt = -Infinity;
+  }
+
+  private processFrame(frame: Buffer): Utterance | null {
+    this.clock += FRAME_MS;
+    const features = this.analyze(frame);
+    const isSpeech =
+      features.energyDb > Math.max(this.settings.minEnergyDb, this.noiseFloorDb + this.settings.snrDb) &&
+      features.speechBandRatio >= MIN_SPEECH_BAND_RATIO &&
+      features.flatness <= MAX_SPECTRAL_FLATNESS;
+
+    this.updateNoiseFloor(features.energyDb);
+
+    if (isSpeech) {
+      this.lastSpeechAt = this.clock;
+      if (!this.utterance) {
+        this.utterance = [...this.preRoll];
+        this.utteranceStartedAt = this.clock - this.preRoll.length * FRAME_MS;
+        this.speechMs = 0;
+        this.utteranceEnergies = [];
+      }
+      this.speechMs += FRAME_MS;
+    }
+
+    if (!this.utterance) {
+      this.preRoll.push(frame);
+      if (this.preRoll.length * FRAME_MS > PRE_ROLL_MS) this.preRoll.shift();
+      return null;
+    }
+
+    this.utterance.push(frame);
+    this.utteranceEnergies.push(features.energyDb);
+
+    if (this.utteranceEnergies.length * FRAME_MS >= STEADY_SOUND_MS) {
+      const recent = this.utteranceEnergies.slice(-STEADY_SOUND_MS / FRAME_MS);
+      if (standardDeviation(recent) < MIN_ENERGY_VARIATION_DB) {
+        this.absorbSteadySound(recent);
+        return null;
+      }
+    }
+
+    if (this.clock - this.lastSpeechAt >= this.settings.hangoverMs + this.settings.endSilenceMs) {
+      return this.finish('silence');
+    }
+    if (this.clock - this.utteranceStartedAt >= this.settings.maxUtteranceMs) {
+      return this.finish('max_length');
+    }
+    return null;
+  }
+
+  private finish(reason: Utterance['reason']): Utterance | null {
+    const frames = this.utterance;
+    this.utterance = null;
+    this.preRoll = [];
+    if (!frames) return null;
+
+    const speechMs = this.speechMs;
+    const variation = standardDeviation(this.utteranceEnergies);
+    this.speechMs = 0;
+    this.utteranceEnergies = [];
+
+    if (speechMs < this.settings.minSpeechMs) return null;
+    if (variation < MIN_ENERGY_VARIATION_DB) return null;
+
+    return {
+      audio: Buffer.concat(frames),
+      durationMs: frames.length * FRAME_MS,
+      speechMs,
+      reason,
+    };
+  }
+
+  /**
+   * Drops the current "utterance" and treats its level as the new noise floor.
+   */
+  private absorbSteadySound(energies: number[]): void {
+    const mean = energies.reduce((sum, value) => sum + value, 0) / energies.length;
+    this.noiseFloorDb = Math.max(this.noiseFloorDb, mean);
+    this.utterance = null;
+    this.preRoll = [];
+    this.speechMs = 0;
+    this.utteranceEnergies = [];
+    this.lastSpeechAt = -Infinity;
+  }
+
+  private updateNoiseFloor(energyDb: number): void {
+    const timeConstant = energyDb < this.noiseFloorDb
+      ? FLOOR_FALL_MS
+      : this.isSpeaking() ? FLOOR_RISE_DURING_SPEECH_MS : FLOOR_RISE_MS;
+    const alpha = 1 - Math.exp(-FRAME_MS / timeConstant);
+    this.noiseFloorDb = Math.max(MIN_NOISE_FLOOR_DB, this.noiseFloorDb + alpha * (energyDb - this.noiseFloorDb));
+  }
+
+  private analyze(frame: Buffer): VadFrameFeatures {
+    const samples = frame.length / 2;
+    const re = new Float64Array(FFT_SIZE);
+    const im = new Float64Array(FFT_SIZE);
+    let sumSquares = 0;
+    for (let i = 0; i < samples; i++) {
+      const value = frame.readInt16LE(i * 2) / 32768;
+      sumSquares += value * value;
+      if (i < FFT_SIZE) {
+        const window = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (Math.min(samples, FFT_SIZE) - 1));
+        re[i] = value * window;
+      }
+    }
+    const rms = Math.sqrt(sumSquares / Math.max(1, samples));
+    const energyDb = 20 * Math.log10(rms + 1e-10);
+
+    fft(re, im);
+
+    const binHz = this.sampleRate / FFT_SIZE;
+    const low = Math.max(1, Math.floor(SPEECH_BAND[0] / binHz));
+    const high = Math.min(FFT_SIZE / 2 - 1, Math.ceil(SPEECH_BAND[1] / binHz));
+    let total = 0;
+    let band = 0;
+    let logSum = 0;
+    for (let k = 1; k < FFT_SIZE / 2; k++) {
+      const power = re[k] * re[k] + im[k] * im[k];
+      total += power;
+      if (k >= low && k <= high) {
+        band += power;
+        logSum += Math.log(power + 1e-12);
+      }
+    }
+    const bins = high - low + 1;
+    const flatness = band > 0 ? Math.exp(logSum / bins) / (band / bins) : 1;
+
+    return {
+      energyDb,
+      speechBandRatio: total > 0 ? band / total : 0,
+      flatness,
+    };
+  }
+}
+
+/** In-place iterative radix-2 FFT. */
+export function fft(re: Float64Array, im: Float64Array): void {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    const wRe = Math.cos(angle);
+    const wIm = Math.sin(angle);
+    for (let start = 0; start < n; start += size) {
+      let curRe = 1;
+      let curIm = 0;
+      for (let k = 0; k < size / 2; k++) {
+        const a = start + k;
+        const b = a + size / 2;
+        const tRe = re[b] * curRe - im[b] * curIm;
+        const tIm = re[b] * curIm + im[b] * curRe;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+        const nextRe = curRe * wRe - curIm * wIm;
+        curIm = curRe * wIm + curIm * wRe;
+        curRe = nextRe;
+      }
+    }
+  }
+}
+
+function standardDeviation(values: number[]): number {
+  if (values.length < 2) return 0;
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+  return Math.sqrt(variance);
+}
@@ -0,0 +1,239 @@
+import { IAgentRuntime, logger } from '@elizaos/core';
+import type { WorldSession } from '../session';
+import type { Utterance } from './voice-activity-detector';
+import type { AddressReason } from './addressee-detector';
+
+const HYPERFY_VOICE_LOG_ENABLED = process.env.HYPERFY_VOICE_LOG_ENABLED !== 'false';
+const HYPERFY_VOICE_LOG_MAX_ENTRIES = parseInt(process.env.HYPERFY_VOICE_LOG_MAX_ENTRIES || '500', 10);
+const PERSIST_DELAY_MS = 5000; // entries change several times per turn; write them in batches
+
+/**
+ * What became of an utterance:
+ * - `transcribing` / `queued` / `responding`: still in progress
+ * - `blank`: transcription came back empty
+ * - `not_addressed`: didn't seem to be meant for the agent
+ * - `merged`: joined to a later utterance from the same player, which carries the reply
+ * - `dropped`: pushed out of a full queue
+ * - `stale`: waited too long to be worth answering
+ * - `answered`: the agent replied out loud
+ * - `no_response`: the agent chose not to reply
+ * - `failed`: transcription or the reply errored
+ */
+export type VoiceLogOutcome =
+  | 'transcribing'
+  | 'queued'
+  | 'responding'
+  | 'blank'
+  | 'not_addressed'
+  | 'merged'
+  | 'dropped'
+  | 'stale'
+  | 'answered'
+  | 'no_response'
+  | 'failed';
+
+export type VoiceLogResponse = {
+  text: string;
+  /** TTS providers the sentences came from. */
+  providers: string[];
+  sentences: number;
+  /** Sentences served from the TTS cache. */
+  cachedSentences: number;
+  /** When the first frame of the reply went out. */
+  startedAt: number | null;
+  /** From having the reply text to the first frame going out (ms). */
+  timeToFirstAudioMs: number | null;
+  /** Audio actually played (ms). */
+  playbackMs: number;
+  /** Cut off by the player talking over the agent. */
+  interrupted: boolean;
+};
+
+export type VoiceLogEntry = {
+  id: string;
+  playerId: string;
+  playerName: string;
+  /** When the player started talking. */
+  startedAt: number;
+  /** Length of the utterance audio, including pauses and pre-roll (ms). */
+  durationMs: number;
+  /** How much of it the VAD classed as speech (ms). */
+  speechMs: number;
+  endReason: Utterance['reason'];
+  transcript: string | null;
+  transcriptionMs: number | null;
+  /** Why it was taken to be meant for the agent (see AddresseeDetector). */
+  addressedBy?: AddressReason | null;
+  /** Time between being transcribed and the agent starting on a reply (ms). */
+  queuedMs: number | null;
+  outcome: VoiceLogOutcome;
+  response: VoiceLogResponse | null;
+  error?: string;
+};
+
+export type VoiceLogQuery = {
+  playerId?: string;
+  since?: number;
+  until?: number;
+  outcome?: VoiceLogOutcome;
+  /** Most recent entries to return. */
+  limit?: number;
+};
+
+/**
+ * A per-world record of every utterance the agent heard and what it did
+ * about it: VAD stats, the transcript and how long transcription took, time
+ * spent queued, and the spoken reply with its TTS provider and playback
+ * length. Kept to the most recent entries and persisted in the runtime cache,
+ * so "it didn't answer me" reports can be checked after the fact.
+ */
+export class VoiceLogManager {
+  private runtime: IAgentRuntime;
+  private session: WorldSession;
+  private entries: VoiceLogEntry[] = [];
+  private persistTimer: NodeJS.Timeout | null = null;
+  private sequence = 0;
+
+  constructor(runtime: IAgentRuntime, session: WorldSession) {
+    this.runtime = runtime;
+    this.session = session;
+  }
+
+  private getSession() {
+    return this.session;
+  }
+
+  private getCacheKey(): string | null {
+    const worldId = this.getSession().currentWorldId;
+    return worldId ? `hyperfy/voice-log/${worldId}` : null;
+  }
+
+  async load(): Promise<void> {
+    const key = this.getCacheKey();
+    if (!key || !HYPERFY_VOICE_LOG_ENABLED) return;
+    try {
+      const stored = await this.runtime.getCache<VoiceLogEntry[]>(key);
+      this.entries = (stored || []).slice(-HYPERFY_VOICE_LOG_MAX_ENTRIES);
+      logger.info(`[VoiceLogManager] Loaded ${this.entries.length} voice log entries.`);
+    } catch (error) {
+      logger.error('[VoiceLogManager] Failed to load the voice log:', error);
+    }
+  }
+
+  /**
+   * Writes out pending changes; called on disconnect.
+   */
+  async stop(): Promise<void> {
+    if (!this.persistTimer) return;
+    clearTimeout(this.persistTimer);
+    this.persistTimer = null;
+    await this.persist();
+  }
+
+  /**
+   * Starts an entry for an utterance the VAD just finished. Returns null when
+   * the log is disabled.
+   */
+  recordUtterance(playerId: string, utterance: Utterance): VoiceLogEntry | null {
+    if (!HYPERFY_VOICE_LOG_ENABLED) return null;
+    const player = this.getSession().getWorld()?.entities?.getPlayer?.(playerId);
+    const now = Date.now();
+    const entry: VoiceLogEntry = {
+      id: `${now.toString(36)}-${(this.sequence++).toString(36)}`,
+      playerId,
+      playerName: player?.data?.name || 'Unknown',
+      startedAt: now - utterance.durationMs,
+      durationMs: utterance.durationMs,
+      speechMs: utterance.speechMs,
+      endReason: utterance.reason,
+      transcript: null,
+      transcriptionMs: null,
+      queuedMs: null,
+      outcome: 'transcribing',
+      response: null,
+    };
+    this.entries.push(entry);
+    if (this.entries.length > HYPERFY_VOICE_LOG_MAX_ENTRIES) {
+      this.entries.splice(0, this.entries.length - HYPERFY_VOICE_LOG_MAX_ENTRIES);
+    }
+    this.schedulePersist();
+    return entry;
+  }
+
+  /**
+   * Applies changes to an entry as the utterance moves through the pipeline.
+   */
+  update(entry: VoiceLogEntry | null, changes: Partial<Omit<VoiceLogEntry, 'id'>>): void {
+    if (!entry) return;
+    Object.assign(entry, changes);
+    this.schedulePersist();
+  }
+
+  /**
+   * Entries matching the query, oldest first.
+   */
+  query(query: VoiceLogQuery = {}): VoiceLogEntry[] {
+    const matches = this.entries.filter((entry) =>
+      (!query.playerId || entry.playerId === query.playerId) &&
+      (query.since === undefined || entry.startedAt >= query.since) &&
+      (query.until === undefined || entry.startedAt <= query.until) &&
+      (!query.outcome || entry.outcome === query.outcome)
+    );
+    return query.limit && query.limit > 0 ? matches.slice(-query.limit) : matches;
+  }
+
+  private schedulePersist(): void {
+    if (this.persistTimer) return;
+    this.persistTimer = setTimeout(() => {
+      this.persistTimer = null;
+      this.persist();
+    }, PERSIST_DELAY_MS);
+  }
+
+  private async persist(): Promise<void> {
+    const key = this.getCacheKey();
+    if (!key) return;
+    try {
+      await this.runtime.setCache<VoiceLogEntry[]>(key, this.entries);
+    } catch (error) {
+      logger.error('[VoiceLogManager] Failed to save the voice log:', error);
+    }
+  }
+}
+
+/**
+ * One JSON object per line.
+ */
+export function voiceLogToJsonl(entries: VoiceLogEntry[]): string {
+  return entries.map((entry) => JSON.stringify(entry)).join('\n') + (entries.length ? '\n' : '');
+}
+
+/**
+ * SRT-style captions: what each player said and what the agent said back,
+ * timed from the first entry.
+ */
+export function voiceLogToSrt(entries: VoiceLogEntry[], agentName = 'Agent'): string {
+  const cues: { start: number; end: number; text: string }[] = [];
+  for (const entry of entries) {
+    if (entry.transcript) {
+      cues.push({ start: entry.startedAt, end: entry.startedAt + entry.durationMs, text: `${entry.playerName}: ${entry.transcript}` });
+    }
+    const response = entry.response;
+    if (response?.text && response.startedAt !== null) {
+      const suffix = response.interrupted ? ' [interrupted]' : '';
+      cues.push({ start: response.startedAt, end: response.startedAt + response.playbackMs, text: `${agentName}: ${response.text}${suffix}` });
+    }
+  }
+  if (!cues.length) return '';
+
+  cues.sort((a, b) => a.start - b.start);
+  const origin = cues[0].start;
+  return cues
+    .map((cue, i) => `${i + 1}\n${srtTime(cue.start - origin)} --> ${srtTime(Math.max(cue.end, cue.start + 1) - origin)}\n${cue.text}\n`)
+    .join('\n');
+}
+
+function srtTime(ms: number): string {
+  const pad = (value: number, width = 2) => String(Math.floor(value)).padStart(width, '0');
+  return `${pad(ms / 3600000)}:${pad((ms / 60000) % 60)}:${pad((ms / 1000) % 60)},${pad(ms % 1000, 3)}`;
+}
@@ -1,193 +1,351 @@
 import { ChannelType, Content, HandlerCallback, IAgentRuntime, Memory, ModelType, UUID, createUniqueUuid, logger } from "@elizaos/core";
-import { HyperfyService } from "../service";
-import { convertToAudioBuffer, getWavHeader } from "../utils";
-import { agentActivityLock } from "./guards";
+import type { WorldSession } from "../session";
+import { getWavHeader, splitIntoSentences } from "../utils";
 import { hyperfyEventType } from "../events";
+import { useModelWithBudget } from "../budget";
+import { getTtsRegistry, type AlignedSpeech } from "../tts";
+import { VoiceActivityDetector, type Utterance } from "./voice-activity-detector";
+import { LipSyncDriver } from "./lip-sync";
+import { AddresseeDetector } from "./addressee-detector";
+import type { VoiceLogEntry, VoiceLogResponse } from "./voice-log-manager";
 
 type LiveKitAudioData = {
   participant: string;
   buffer: Buffer;
 };
 
+const SAMPLE_RATE = 48000;
+const STREAM_IDLE_CHECK_INTERVAL = 250; // ms
+const MAX_PENDING_TURNS = 4; // transcribed utterances waiting for an answer, across all speakers
+const MAX_TURN_AGE = 30000; // ms, older turns are stale by the time we'd answer them
+const SPEAKER_IDLE_EVICT_MS = 5 * 60 * 1000; // a speaker quiet this long is forgotten, VAD state and all
+
+const HYPERFY_BARGE_IN_ENABLED = process.env.HYPERFY_BARGE_IN_ENABLED !== 'false';
+// How long the addressed player must talk over the agent before it stops speaking
+const HYPERFY_BARGE_IN_MS = parseInt(process.env.HYPERFY_BARGE_IN_MS || '600', 10);
+const HYPERFY_LIPSYNC_ENABLED = process.env.HYPERFY_LIPSYNC_ENABLED !== 'false';
+
+type SpeakerState = {
+  vad: VoiceActivityDetector;
+  lastActive: number;
+  /** This speaker's utterances are transcribed one at a time, in order. */
+  pipeline: Promise<void>;
+  /** When they started talking over the agent's current playback. */
+  talkingOverSince: number | null;
+  /** They cut the agent off; what they say next is answered first. */
+  interrupted: boolean;
+};
+
+/** Something a player said that the agent hasn't answered yet. */
+type VoiceTurn = {
+  playerId: UUID;
+  text: string;
+  enqueuedAt: number;
+  /** Said while interrupting the agent, so it jumps the queue. */
+  interruption: boolean;
+  /** Voice log entries of the utterances making up the turn, oldest first. */
+  logEntries: VoiceLogEntry[];
+};
+
+const SYNTHESIS_LOOKAHEAD = 2; // sentences synthesized ahead of the one playing
+const MAX_LATENCY_SAMPLES = 50;
+
+type Playback = {
+  /** The player being spoken to; only they can interrupt. */
+  addressee: string | null;
+  abort: AbortController;
+  /** Moves the avatar's mouth with the audio; null when lip sync is off. */
+  lipSync: LipSyncDriver | null;
+};
+
+export type SpeakOptions = {
+  /** The player being answered, who may cut the agent off. */
+  addressee?: string;
+  /** Text to encoded audio (MP3/WAV/PCM). Defaults to the TTS provider chain. */
+  synthesize?: (text: string) => Promise<Buffer | null>;
+};
+
+/** How a reply was spoken; `speak` resolves with it. */
+export type SpeechReport = Omit<VoiceLogResponse, 'text'>;
+
+export type VoiceLatencyStats = {
+  samples: number;
+  /** Time from having the reply text to the first audio frame going out (ms). */
+  lastTimeToFirstAudioMs: number | null;
+  averageTimeToFirstAudioMs: number | null;
+  p95TimeToFirstAudioMs: number | null;
+};
+
 export class VoiceManager {
   private runtime: IAgentRuntime;
-  private userStates: Map<
-    string,
-    {
-      buffers: Buffer[];
-      totalLength: number;
-      lastActive: number;
-      transcriptionText: string;
-    }
-  > = new Map();
-  private processingVoice: boolean = false;
-  private transcriptionTimeout: NodeJS.Timeout | null = null;
+  private speakers: Map<string, SpeakerState> = new Map();
+  private pendingTurns: VoiceTurn[] = [];
+  private lastAnsweredAt: Map<string, number> = new Map();
+  private responding: boolean = false;
+  private playback: Playback | null = null;
+  private timeToFirstAudio: number[] = [];
+  private addressee: AddresseeDetector;
+  private idleCheckInterval: NodeJS.Timeout | null = null;
   private isStarted: boolean = false;
+  private session: WorldSession;
 
-  constructor(runtime: IAgentRuntime) {
+  constructor(runtime: IAgentRuntime, session: WorldSession) {
     this.runtime = runtime;
+    this.session = session;
+    this.addressee = new AddresseeDetector(runtime, session);
   }
 
   /**
    * Cleanup timers and state on disconnect
    */
   cleanup() {
-    if (this.transcriptionTimeout) {
-      clearTimeout(this.transcriptionTimeout);
-      this.transcriptionTimeout = null;
+    if (this.idleCheckInterval) {
+      clearInterval(this.idleCheckInterval);
+      this.idleCheckInterval = null;
     }
-    this.userStates.clear();
-    this.processingVoice = false;
+    this.speakers.clear();
+    this.pendingTurns = [];
+    this.lastAnsweredAt.clear();
+    this.addressee.clear();
+    this.stopPlayback();
+    this.playback = null;
     this.isStarted = false;
     logger.info('[VoiceManager] Cleanup completed');
   }
 
   start() {
-    const service = this.getService();
-    if (!service) {
-      console.error('[VoiceManager] Cannot start - service not available');
+    const session = this.getSession();
+    if (!session) {
+      console.error('[VoiceManager] Cannot start - session not available');
       return;
     }
-    const world = service.getWorld();
+    const world = session.getWorld();
     if (!world || !world.livekit) {
       console.error('[VoiceManager] Cannot start - world or livekit not available');
       return;
     }
 
-    world.livekit.on('audio', async (data: LiveKitAudioData) => {
-      function isLoudEnough(pcmBuffer: Buffer, threshold = 1000): boolean {
-        let sum = 0;
-        const sampleCount = Math.floor(pcmBuffer.length / 2); // 16-bit samples
-
-        for (let i = 0; i < pcmBuffer.length; i += 2) {
-          const sample = pcmBuffer.readInt16LE(i);
-          sum += Math.abs(sample);
-        }
-
-        const avgAmplitude = sum / sampleCount;
-        return avgAmplitude > threshold;
-      }
+    const vadSettings = session.getVadSettings();
+    logger.info(`[VoiceManager] VAD settings: ${JSON.stringify(vadSettings)}`);
 
+    world.livekit.on('audio', async (data: LiveKitAudioData) => {
       const playerId = data.participant;
-      if (!this.userStates.has(playerId)) {
-        this.userStates.set(playerId, {
-          buffers: [],
-          totalLength: 0,
+      let speaker = this.speakers.get(playerId);
+      if (!speaker) {
+        speaker = {
+          vad: new VoiceActivityDetector(vadSettings, SAMPLE_RATE),
           lastActive: Date.now(),
-          transcriptionText: '',
-        });
+          pipeline: Promise.resolve(),
+          talkingOverSince: null,
+          interrupted: false,
+        };
+        this.speakers.set(playerId, speaker);
       }
 
-      const pcmBuffer = data.buffer;
-      if (isLoudEnough(pcmBuffer)) {
-        this.handleUserBuffer(playerId, pcmBuffer)
+      speaker.lastActive = Date.now();
+      for (const utterance of speaker.vad.push(data.buffer)) {
+        this.handleUtterance(playerId as UUID, utterance);
       }
+      this.checkBargeIn(playerId, speaker);
     })
-  }
 
-  async handleUserBuffer(playerId, buffer) {
-    const state = this.userStates.get(playerId);
-    try {
-      state?.buffers.push(buffer);
-      state!.totalLength += buffer.length;
-      state!.lastActive = Date.now();
-      this.debouncedProcessTranscription(playerId);
-    } catch (error) {
-      console.error(`Error processing buffer for user ${playerId}:`, error);
-    }
+    // A participant who mutes mid-sentence stops sending frames, so the VAD never sees the silence.
+    // Speakers who have left (or gone quiet for good) are dropped, so a busy world doesn't pile them up
+    this.idleCheckInterval = setInterval(() => {
+      const now = Date.now();
+      for (const [playerId, speaker] of this.speakers) {
+        if (now - speaker.lastActive >= SPEAKER_IDLE_EVICT_MS && !speaker.vad.isInUtterance()) {
+          this.speakers.delete(playerId);
+          this.lastAnsweredAt.delete(playerId);
+          continue;
+        }
+        if (!speaker.vad.isInUtterance() || now - speaker.lastActive < vadSettings.endSilenceMs) continue;
+        const utterance = speaker.vad.flush();
+        if (utterance) this.handleUtterance(playerId as UUID, utterance);
+      }
+    }, STREAM_IDLE_CHECK_INTERVAL);
   }
 
-  async debouncedProcessTranscription(
-    playerId: UUID,
-  ) {
-    const DEBOUNCE_TRANSCRIPTION_THRESHOLD = 1500; // wait for 1.5 seconds of silence
-
-    if (this.processingVoice) {
-      const state = this.userStates.get(playerId);
-      state.buffers.length = 0;
-      state.totalLength = 0;
+  /**
+   * Stops the agent mid-sentence when the player it's talking to keeps
+   * talking over it. What they're saying becomes the next turn.
+   */
+  private checkBargeIn(playerId: string, speaker: SpeakerState) {
+    const playback = this.playback;
+    if (!HYPERFY_BARGE_IN_ENABLED || !playback || playback.addressee !== playerId || !speaker.vad.isSpeaking()) {
+      speaker.talkingOverSince = null;
       return;
     }
 
-    if (this.transcriptionTimeout) {
-      clearTimeout(this.transcriptionTimeout);
-    }
+    const now = Date.now();
+    speaker.talkingOverSince ??= now;
+    if (now - speaker.talkingOverSince < HYPERFY_BARGE_IN_MS || playback.abort.signal.aborted) return;
 
-    this.transcriptionTimeout = setTimeout(async () => {
-      await agentActivityLock.run(async () => {
-        this.processingVoice = true;
-        try {
-          await this.processTranscription(playerId);
-
-          // Clean all users' previous buffers
-          this.userStates.forEach((state, _) => {
-            state.buffers.length = 0;
-            state.totalLength = 0;
-            state.transcriptionText = '';
-          });
-        } finally {
-          this.processingVoice = false;
+    logger.info(`[VoiceManager] ${playerId} is talking over the agent, stopping playback`);
+    speaker.talkingOverSince = null;
+    speaker.interrupted = true;
+    playback.abort.abort();
+  }
+
+  /**
+   * Fades out and stops whatever the agent is saying.
+   */
+  stopPlayback() {
+    this.playback?.abort.abort();
+  }
+
+  /**
+   * Queues a finished utterance on its speaker's pipeline. Speakers are
+   * transcribed independently, so one person talking never blocks another.
+   */
+  private handleUtterance(playerId: UUID, utterance: Utterance) {
+    const speaker = this.speakers.get(playerId);
+    if (!speaker) return;
+
+    logger.debug(`[VoiceManager] Utterance from ${playerId}: ${utterance.durationMs}ms (${utterance.speechMs}ms speech, ended by ${utterance.reason})`);
+    const voiceLog = this.getSession().getVoiceLogManager();
+    const logEntry = voiceLog?.recordUtterance(playerId, utterance) ?? null;
+    const interruption = speaker.interrupted;
+    speaker.interrupted = false;
+    speaker.pipeline = speaker.pipeline
+      .then(async () => {
+        const startedAt = Date.now();
+        const text = await this.transcribe(utterance.audio);
+        voiceLog?.update(logEntry, { transcript: text, transcriptionMs: Date.now() - startedAt, outcome: text ? 'queued' : 'blank' });
+        if (!text) return;
+        // Cutting the agent off is talking to it, whatever was said
+        const addressedBy = interruption ? 'conversation' : this.addressee.check(playerId, text);
+        voiceLog?.update(logEntry, { addressedBy });
+        if (!addressedBy) {
+          logger.debug(`[VoiceManager] Not addressed to the agent, ignoring ${playerId}: "${text}"`);
+          voiceLog?.update(logEntry, { outcome: 'not_addressed' });
+          return;
         }
+        this.enqueueTurn(playerId, text, interruption, logEntry);
       })
-    }, DEBOUNCE_TRANSCRIPTION_THRESHOLD) as unknown as NodeJS.Timeout;
+      .catch((error) => {
+        console.error(`Error transcribing audio for user ${playerId}:`, error);
+        voiceLog?.update(logEntry, { outcome: 'failed', error: String(error?.message ?? error) });
+      });
   }
 
-  private async processTranscription(
-    playerId: UUID,
-  ) {
-    const state = this.userStates.get(playerId);
-    if (!state || state.buffers.length === 0) return;
-    try {
-      const inputBuffer = Buffer.concat(state.buffers, state.totalLength);
+  private async transcribe(pcm: Buffer): Promise<string | null> {
+    const wavHeader = getWavHeader(pcm.length, SAMPLE_RATE);
+    const wavBuffer = Buffer.concat([wavHeader, pcm]);
+    logger.debug('Starting transcription...');
 
-      state.buffers.length = 0; // Clear the buffers
-      state.totalLength = 0;
-      // Convert Opus to WAV
-      const wavHeader = getWavHeader(inputBuffer.length, 48000);
-      const wavBuffer = Buffer.concat([wavHeader, inputBuffer]);
-      logger.debug('Starting transcription...');
+    const transcriptionText = await useModelWithBudget(this.runtime, 'voice', ModelType.TRANSCRIPTION, wavBuffer);
 
-      const transcriptionText = await this.runtime.useModel(ModelType.TRANSCRIPTION, wavBuffer);
+    logger.debug("[VoiceManager] Transcription:", transcriptionText)
+    if (!transcriptionText || transcriptionText.includes('[BLANK_AUDIO]')) return null;
+    return transcriptionText.trim() || null;
+  }
 
-      logger.debug("[VoiceManager] Transcription:", transcriptionText)
-      function isValidTranscription(text: string): boolean {
-        if (!text || text.includes('[BLANK_AUDIO]')) return false;
-        return true;
+  /**
+   * Adds a transcribed utterance to the queue of turns to answer. A speaker
+   * who says more before being answered has it appended to their turn; when
+   * the queue is full, the oldest turn is dropped.
+   */
+  private enqueueTurn(playerId: UUID, text: string, interruption = false, logEntry: VoiceLogEntry | null = null) {
+    const existing = this.pendingTurns.find((turn) => turn.playerId === playerId);
+    const logEntries = logEntry ? [logEntry] : [];
+    if (existing) {
+      existing.text = `${existing.text} ${text}`;
+      existing.interruption ||= interruption;
+      existing.logEntries.push(...logEntries);
+    } else {
+      if (this.pendingTurns.length >= MAX_PENDING_TURNS) {
+        const dropped = this.pendingTurns.shift();
+        logger.warn(`[VoiceManager] Voice queue full, dropping turn from ${dropped?.playerId}: "${dropped?.text}"`);
+        if (dropped) this.updateLogEntries(dropped, { outcome: 'dropped' });
       }
+      this.pendingTurns.push({ playerId, text, enqueuedAt: Date.now(), interruption, logEntries });
+    }
+    this.drainTurns();
+  }
 
-      if (transcriptionText && isValidTranscription(transcriptionText)) {
-        state.transcriptionText += transcriptionText;
+  /**
+   * Picks the next turn to answer. Someone who just cut the agent off is
+   * answered right away; otherwise whoever was answered least recently goes
+   * first, so one talkative player can't starve the rest of the group; among
+   * equals, the one who has waited longest.
+   */
+  private takeNextTurn(): VoiceTurn | null {
+    if (!this.pendingTurns.length) return null;
+    const interruption = this.pendingTurns.findIndex((turn) => turn.interruption);
+    if (interruption >= 0) return this.pendingTurns.splice(interruption, 1)[0];
+    let best = 0;
+    for (let i = 1; i < this.pendingTurns.length; i++) {
+      const candidate = this.pendingTurns[i];
+      const current = this.pendingTurns[best];
+      const candidateAnswered = this.lastAnsweredAt.get(candidate.playerId) ?? 0;
+      const currentAnswered = this.lastAnsweredAt.get(current.playerId) ?? 0;
+      if (candidateAnswered < currentAnswered ||
+          (candidateAnswered === currentAnswered && candidate.enqueuedAt < current.enqueuedAt)) {
+        best = i;
       }
+    }
+    return this.pendingTurns.splice(best, 1)[0];
+  }
 
-      if (state.transcriptionText.length) {
-        const finalText = state.transcriptionText;
-        state.transcriptionText = '';
-        await this.handleMessage(finalText, playerId);
+  /**
+   * Answers queued turns one at a time; the agent has only one voice.
+   */
+  private async drainTurns() {
+    if (this.responding) return;
+    this.responding = true;
+    try {
+      let turn: VoiceTurn | null;
+      while ((turn = this.takeNextTurn())) {
+        if (Date.now() - turn.enqueuedAt > MAX_TURN_AGE) {
+          logger.info(`[VoiceManager] Skipping stale voice turn from ${turn.playerId}`);
+          this.updateLogEntries(turn, { outcome: 'stale' });
+          continue;
+        }
+        this.lastAnsweredAt.set(turn.playerId, Date.now());
+        // The reply is logged against the turn's latest utterance
+        const logEntry = turn.logEntries[turn.logEntries.length - 1] ?? null;
+        this.updateLogEntries(turn, { outcome: 'merged' });
+        this.getSession().getVoiceLogManager()?.update(logEntry, {
+          outcome: 'responding',
+          queuedMs: Date.now() - turn.enqueuedAt,
+        });
+        await this.handleMessage(turn.text, turn.playerId, logEntry);
       }
-    } catch (error) {
-      console.error(`Error transcribing audio for user ${playerId}:`, error);
+    } finally {
+      this.responding = false;
     }
   }
 
+  private updateLogEntries(turn: VoiceTurn, changes: Partial<VoiceLogEntry>) {
+    const voiceLog = this.getSession().getVoiceLogManager();
+    for (const entry of turn.logEntries) voiceLog?.update(entry, changes);
+  }
+
   private async handleMessage(
     message: string,
     playerId: UUID,
+    logEntry: VoiceLogEntry | null = null,
   ) {
+    const voiceLog = this.getSession().getVoiceLogManager();
     try {
       if (!message || message.trim() === '' || message.length < 3) {
+        voiceLog?.update(logEntry, { outcome: 'no_response' });
         return { text: '', actions: ['IGNORE'] };
       }
-      const service = this.getService();
-      const world = service.getWorld();
+      const session = this.getSession();
+      const world = session.getWorld();
 
       const playerInfo = world.entities.getPlayer(playerId);
       const userName = playerInfo.data.name;
       const name = userName;
-      const _currentWorldId = service.currentWorldId;
+      const _currentWorldId = session.currentWorldId;
       const channelId = _currentWorldId;
       const roomId = createUniqueUuid(this.runtime, _currentWorldId || 'hyperfy-unknown-world')
       const entityId = createUniqueUuid(this.runtime, playerId) as UUID
 
+      session.getVisitorProfileManager()?.noteVisitorMessage(playerId, name, message);
+
       const type = ChannelType.WORLD;
 
       // Ensure connection for the sender entity
@@ -214,6 +372,10 @@ export class VoiceManager {
           userName: userName,
           isVoiceMessage: true,
           channelType: type,
+          metadata: {
+            hyperfyFromId: playerId,
+            hyperfyFromName: name,
+          },
         },
         createdAt: Date.now(),
       };
@@ -239,17 +401,17 @@ export class VoiceManager {
           await this.runtime.createMemory(responseMemory, 'messages');
 
           if (responseMemory.content.text?.trim()) {
-            const responseStream = await this.runtime.useModel(
-              ModelType.TEXT_TO_SPEECH,
-              content.text
-            );
-            if (responseStream) {
-              const audioBuffer = await convertToAudioBuffer(responseStream);
-              const emoteManager = service.getEmoteManager();
-              const emote = content.emote as string || "TALK";
-              emoteManager.playEmote(emote);
-              await this.playAudio(audioBuffer);
-            }
+            session.getVisitorProfileManager()?.noteAgentMessage(content.text);
+            const emoteManager = session.getEmoteManager();
+            const emote = content.emote as string || "TALK";
+            emoteManager.playEmote(emote);
+            const speech = await this.speak(content.text, { addressee: playerId });
+            // Their follow-ups don't need the agent's name
+            this.addressee.noteConversation(playerId);
+            voiceLog?.update(logEntry, {
+              outcome: 'answered',
+              response: speech ? { text: content.text, ...speech } : null,
+            });
           }
 
           return [responseMemory];
@@ -259,60 +421,196 @@ export class VoiceManager {
         }
       };
 
-      agentActivityLock.enter();
-      // Emit voice-specific events
-      this.runtime.emitEvent(hyperfyEventType.VOICE_MESSAGE_RECEIVED as string, {
+      const activityLock = session.getActivityLock();
+      activityLock.enter();
+      // Emit voice-specific events; resolves once the reply has been spoken
+      await this.runtime.emitEvent(hyperfyEventType.VOICE_MESSAGE_RECEIVED as string, {
         runtime: this.runtime,
         message: memory,
         callback,
         onComplete: () => {
-          agentActivityLock.exit();
+          activityLock.exit();
         },
       } as any);
+      if (logEntry?.outcome === 'responding') voiceLog?.update(logEntry, { outcome: 'no_response' });
     } catch (error) {
       console.error('Error processing voice message:', error);
+      voiceLog?.update(logEntry, { outcome: 'failed', error: String((error as Error)?.message ?? error) });
     }
   }
 
-  async playAudio(audioBuffer: Buffer) {
-    if (this.processingVoice) {
-      logger.info(`[VoiceManager] Current voice is processing...`)
-      return;
+  /**
+   * Speaks text sentence by sentence: the first sentence plays as soon as it
+   * is synthesized while the following ones are synthesized behind it, so
+   * long replies don't start with seconds of silence.
+   */
+  async speak(text: string, options: SpeakOptions = {}): Promise<SpeechReport | null> {
+    const sentences = splitIntoSentences(text || '');
+    if (!sentences.length) return null;
+    const world = this.getPlaybackWorld();
+    if (!world) return null;
+    const playback = this.beginPlayback(world, options.addressee);
+    if (!playback) return null;
+
+    const requestedAt = Date.now();
+    const providers = new Set<string>();
+    let cachedSentences = 0;
+    const synthesize = options.synthesize
+      ? async (sentence: string): Promise<AlignedSpeech | null> => {
+          const audio = await options.synthesize!(sentence);
+          return audio ? { audio, alignment: null } : null;
+        }
+      : async (sentence: string): Promise<AlignedSpeech | null> => {
+          const speech = await getTtsRegistry(this.runtime).synthesize(sentence);
+          if (speech) {
+            providers.add(speech.provider);
+            if (speech.cached) cachedSentences++;
+          }
+          return speech;
+        };
+    let queuedMs = 0;
+    try {
+      const result = await world.livekit.publishPcmStream(
+        this.synthesizeAhead(sentences, synthesize, world.livekit, playback),
+        {
+          signal: playback.abort.signal,
+          onFrame: playback.lipSync ? playback.lipSync.onFrame.bind(playback.lipSync) : undefined,
+        }
+      );
+      queuedMs = result.queuedMs;
+      const timeToFirstAudioMs = result.firstFrameAt !== null ? result.firstFrameAt - requestedAt : null;
+      if (timeToFirstAudioMs !== null) {
+        this.recordTimeToFirstAudio(timeToFirstAudioMs, sentences.length);
+      } else {
+        logger.warn('[VoiceManager] No speech could be synthesized');
+      }
+      return {
+        providers: Array.from(providers),
+        sentences: sentences.length,
+        cachedSentences,
+        startedAt: result.firstFrameAt,
+        timeToFirstAudioMs,
+        playbackMs: result.playedMs,
+        interrupted: result.interrupted,
+      };
+    } catch (error) {
+      logger.error(error)
+      return null;
+    } finally {
+      this.endPlayback(world, playback, queuedMs);
     }
+  }
 
-    const service = this.getService();
-    if (!service) {
-      console.error('[VoiceManager] Cannot play audio - service not available');
-      return;
+  /**
+   * Synthesizes and decodes sentences a couple ahead of playback, yielding
+   * PCM in order. A sentence that fails is skipped rather than ending the reply.
+   * Each sentence's character timings, if any, are handed to the lip sync.
+   */
+  private async *synthesizeAhead(
+    sentences: string[],
+    synthesize: (text: string) => Promise<AlignedSpeech | null>,
+    livekit: any,
+    playback: Playback
+  ): AsyncGenerator<Int16Array> {
+    const signal = playback.abort.signal;
+    const jobs: Promise<{ pcm: Int16Array; alignment: AlignedSpeech['alignment'] } | null>[] = [];
+    let next = 0;
+    const fill = () => {
+      while (next < sentences.length && jobs.length < SYNTHESIS_LOOKAHEAD && !signal.aborted) {
+        const sentence = sentences[next++];
+        jobs.push(
+          synthesize(sentence)
+            .then(async (speech) => (speech ? { pcm: await livekit.decodeToPcm(speech.audio), alignment: speech.alignment } : null))
+            .catch((error) => {
+              logger.warn(`[VoiceManager] Could not synthesize "${sentence}":`, error);
+              return null;
+            })
+        );
+      }
+    };
+
+    fill();
+    while (jobs.length && !signal.aborted) {
+      const chunk = await jobs.shift();
+      fill();
+      if (!chunk?.pcm.length) continue;
+      playback.lipSync?.addChunk(chunk.pcm.length, chunk.alignment ?? undefined);
+      yield chunk.pcm;
+    }
+  }
+
+  private recordTimeToFirstAudio(ms: number, sentences: number) {
+    this.timeToFirstAudio.push(ms);
+    if (this.timeToFirstAudio.length > MAX_LATENCY_SAMPLES) this.timeToFirstAudio.shift();
+    logger.info(`[VoiceManager] Time to first audio: ${ms}ms (${sentences} sentence(s))`);
+  }
+
+  getLatencyStats(): VoiceLatencyStats {
+    const samples = this.timeToFirstAudio;
+    if (!samples.length) {
+      return { samples: 0, lastTimeToFirstAudioMs: null, averageTimeToFirstAudioMs: null, p95TimeToFirstAudioMs: null };
+    }
+    const sorted = [...samples].sort((a, b) => a - b);
+    return {
+      samples: samples.length,
+      lastTimeToFirstAudioMs: samples[samples.length - 1],
+      averageTimeToFirstAudioMs: Math.round(samples.reduce((sum, ms) => sum + ms, 0) / samples.length),
+      p95TimeToFirstAudioMs: sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * 0.95))],
+    };
+  }
+
+  private getPlaybackWorld() {
+    const session = this.getSession();
+    if (!session) {
+      console.error('[VoiceManager] Cannot play audio - session not available');
+      return null;
     }
-    const world = service.getWorld();
+    const world = session.getWorld();
     if (!world || !world.livekit) {
       console.error('[VoiceManager] Cannot play audio - world or livekit not available');
-      return;
+      return null;
     }
-    this.processingVoice = true;
+    return world;
+  }
 
-    // Set speaking state to trigger TALK emote (lip sync animation)
-    const player = world?.entities?.player;
-    if (player?.setSpeaking) {
-      player.setSpeaking(true);
+  private beginPlayback(world: any, addressee?: string): Playback | null {
+    if (this.playback) {
+      logger.info(`[VoiceManager] Already playing audio, skipping`)
+      return null;
     }
+    const avatar = world.entities?.player?.avatar;
+    const playback: Playback = {
+      addressee: addressee ?? null,
+      abort: new AbortController(),
+      lipSync: HYPERFY_LIPSYNC_ENABLED && avatar?.setExpression
+        ? new LipSyncDriver((viseme, weight) => avatar.setExpression(viseme, weight), SAMPLE_RATE)
+        : null,
+    };
+    this.playback = playback;
+
+    // Set speaking state to trigger TALK emote
+    world.entities?.player?.setSpeaking?.(true);
+    return playback;
+  }
 
-    try {
-      await world.livekit.publishAudioStream(audioBuffer);
-    } catch (error) {
-      logger.error(error)
-    } finally {
-      this.processingVoice = false;
-      // Stop speaking state when done
-      if (player?.setSpeaking) {
-        player.setSpeaking(false);
-      }
-    }
+  /**
+   * Frees the agent to speak again right away (new audio queues behind what's
+   * left), but keeps the mouth moving and the TALK emote on until the
+   * `queuedMs` of audio still queued has played.
+   */
+  private endPlayback(world: any, playback: Playback, queuedMs = 0) {
+    if (this.playback === playback) this.playback = null;
+    const finish = () => {
+      playback.lipSync?.stop();
+      // Stop speaking state when done, unless the agent has started talking again
+      if (!this.playback) world.entities?.player?.setSpeaking?.(false);
+    };
+    if (queuedMs > 0) setTimeout(finish, queuedMs);
+    else finish();
   }
 
-  private getService() {
-    return this.runtime.getService<HyperfyService>(HyperfyService.serviceType);
+  private getSession() {
+    return this.session;
   }
 
 
@@ -0,0 +1,46 @@
+import {
+    type IAgentRuntime,
+    type Memory,
+    type Provider,
+} from '@elizaos/core'
+import { HyperfyService } from '../service'
+import { getPlayersWithin } from '../utils'
+
+const NEARBY_VISITOR_RADIUS = 8; // meters
+
+/**
+ * What the agent remembers about the player it's talking to and the players
+ * standing nearby.
+ */
+export const hyperfyVisitorsProvider: Provider = {
+    name: 'HYPERFY_VISITORS',
+    description: 'What the agent remembers about the player speaking and players nearby (visits, language, interests, facts they shared)',
+    get: async (runtime: IAgentRuntime, message: Memory) => {
+      const session = runtime.getService<HyperfyService>(HyperfyService.serviceType)?.getSessionForMessage(message);
+      const profileManager = session?.getVisitorProfileManager();
+      const world = session?.getWorld();
+      const position = world?.entities?.player?.base?.position;
+      if (!session?.isConnected() || !profileManager || !position) {
+        return { text: '', values: { hyperfyVisitors: '' }, data: {} };
+      }
+
+      const speakerId = (message.content?.metadata as any)?.hyperfyFromId as string | undefined;
+      const sections: string[] = [];
+      if (speakerId) {
+        const speaker = profileManager.formatForPrompt(speakerId, 'talking to you');
+        if (speaker) sections.push(speaker);
+      }
+      for (const player of getPlayersWithin(world, position, NEARBY_VISITOR_RADIUS)) {
+        if (player.id === speakerId) continue;
+        const nearby = profileManager.formatForPrompt(player.id, `nearby, ${player.distance.toFixed(1)}m away`);
+        if (nearby) sections.push(nearby);
+      }
+
+      const text = sections.length ? `## People You Remember\n${sections.join('\n\n')}` : '';
+      return {
+        text,
+        values: { hyperfyVisitors: text },
+        data: { speakerId: speakerId ?? null },
+      };
+    },
+};
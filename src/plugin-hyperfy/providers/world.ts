@@ -5,8 +5,7 @@ import {
     type Memory,
     type Provider,
     type ProviderResult,
-    logger,
-    createUniqueUuid
+    logger
 } from '@elizaos/core';
 import { HyperfyService } from '../service';
 import * as THREE from 'three'
@@ -25,8 +24,9 @@ export const hyperfyProvider: Provider = {
       const utcTimeString = new Intl.DateTimeFormat('en-US', timeOptions).format(currentDate);
 
       const service = runtime.getService<HyperfyService>(HyperfyService.serviceType);
+      const session = service?.getSessionForMessage(_message);
 
-      if (!service || !service.isConnected()) {
+      if (!session || !session.isConnected()) {
         return {
           text: '# Hyperfy World State\nConnection Status: Disconnected',
           values: { hyperfy_status: 'disconnected' },
@@ -35,10 +35,9 @@ export const hyperfyProvider: Provider = {
       }
 
       try {
-        const world = service.getWorld();
-        const messageManager = service.getMessageManager();
-        const _currentWorldId = service.currentWorldId;
-        const elizaRoomId = createUniqueUuid(runtime, _currentWorldId || 'hyperfy-unknown-world') 
+        const world = session.getWorld();
+        const messageManager = session.getMessageManager();
+        const elizaRoomId = session.elizaRoomId;
         const entities = world?.entities?.items;
         const agentId = world?.entities?.player?.data?.id;
 
@@ -89,11 +88,31 @@ export const hyperfyProvider: Provider = {
           categorizedEntities[type].push(line);
         }
 
+        const followState = world?.controls?.getFollowState?.();
+        if (followState) {
+          const minutes = Math.floor((Date.now() - followState.startedAt) / 60000);
+          agentText += `\nYou are following ${followState.name} (Entity ID: ${followState.entityId}) and have been for ${minutes} minute(s). Stay with them until they ask you to stop.`;
+        }
+
+        const activeTour = session.getTourManager()?.getActiveTour();
+        if (activeTour) {
+          const stop = activeTour.tour.stops[activeTour.stopIndex];
+          agentText += `\nYou are giving the "${activeTour.tour.name}" tour, at stop ${activeTour.stopIndex + 1} of ${activeTour.tour.stops.length}${stop?.name ? ` (${stop.name})` : ''}, with ${activeTour.participants.size} participant(s).`;
+        }
+
         let categorizedSummary = '';
         for (const [type, lines] of Object.entries(categorizedEntities)) {
           categorizedSummary += `\n\n## ${type[0].toUpperCase() + type.slice(1)} Entities (${lines.length})\n${lines.join('\n')}`;
         }
 
+        const landmarkText = session.getLandmarkManager()?.formatForPrompt()
+          ?? '## Landmarks (0)\nNo named places have been saved in this world yet.';
+
+        const tours = session.getTourManager()?.listTours() ?? [];
+        const tourText = tours.length
+          ? `## Guided Tours (${tours.length})\nTours you can give when asked.\n${tours.map(tour => `- ${tour.name}${tour.description ? `: ${tour.description}` : ''} (${tour.stops.length} stops)`).join('\n')}`
+          : '';
+
         const actionsSystem = world?.actions;
         const nearbyActions = actionsSystem?.getNearby(50) || [];
         const currentAction = actionsSystem?.currentNode;
@@ -135,6 +154,12 @@ export const hyperfyProvider: Provider = {
 
         let chatText = `## In-World Messages\n### Chat History\n${formattedHistory}`;
 
+        const carried = session.getCarriedContext();
+        if (carried) {
+          const minutesAgo = Math.max(1, Math.round((Date.now() - carried.switchedAt) / 60000));
+          chatText += `\n\n### Before You Came Here\nYou arrived from the world "${carried.fromWorldName}" about ${minutesAgo} minute(s) ago. Recent conversation there:\n${carried.history || 'No recent messages.'}`;
+        }
+
         const messageText = _message.content?.text?.trim();
         if (messageText) {
           const senderId = _message.entityId;
@@ -170,6 +195,8 @@ export const hyperfyProvider: Provider = {
           `\n${playerSummary}`,
           `\n${agentText}`,
           `${categorizedSummary}`,
+          `\n${landmarkText}`,
+          ...(tourText ? [`\n${tourText}`] : []),
           `\n${actionText}`,
           `\n${equipText}`,
           `\n${chatText}`,
@@ -0,0 +1,127 @@
+import type { Route, RouteRequest, RouteResponse } from '@elizaos/core';
+import { timingSafeEqual } from 'crypto';
+import { getBudgetManager } from './budget';
+import { HyperfyService } from './service';
+import { getTtsRegistry } from './tts';
+import { voiceLogToJsonl, voiceLogToSrt, type VoiceLogOutcome } from './managers/voice-log-manager';
+
+// Bearer token for the endpoints that cost money or show what players said; unset leaves them disabled
+const HYPERFY_ADMIN_TOKEN = process.env.HYPERFY_ADMIN_TOKEN || '';
+
+const MAX_PREWARM_PHRASES = 50;
+const MAX_PREWARM_PHRASE_LENGTH = 300;
+
+/**
+ * Checks the `Authorization: Bearer <token>` header against
+ * HYPERFY_ADMIN_TOKEN. Answers the request itself (403 when no token is
+ * configured, 401 when it doesn't match) and returns false if it fails.
+ */
+function requireAdmin(req: RouteRequest, res: RouteResponse): boolean {
+  if (!HYPERFY_ADMIN_TOKEN) {
+    res.status(403).json({ error: 'Set HYPERFY_ADMIN_TOKEN to use this endpoint' });
+    return false;
+  }
+  const header = req.headers?.authorization;
+  const token = Buffer.from((typeof header === 'string' ? header : '').replace(/^Bearer\s+/i, ''));
+  const expected = Buffer.from(HYPERFY_ADMIN_TOKEN);
+  if (token.length !== expected.length || !timingSafeEqual(token, expected)) {
+    res.status(401).json({ error: 'Missing or invalid admin token' });
+    return false;
+  }
+  return true;
+}
+
+/** Epoch milliseconds or anything `Date` can parse. */
+function parseTime(value: unknown): number | undefined {
+  if (typeof value !== 'string' || !value) return undefined;
+  const time = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  return Number.isNaN(time) ? undefined : time;
+}
+
+export const hyperfyRoutes: Route[] = [
+  {
+    // Served at /api/agents/<agentId>/plugins/hyperfy/budget
+    type: 'GET',
+    path: '/hyperfy/budget',
+    handler: async (_req, res, runtime) => {
+      res.json(getBudgetManager(runtime).getReport());
+    },
+  },
+  {
+    // Served at /api/agents/<agentId>/plugins/hyperfy/voice/latency
+    type: 'GET',
+    path: '/hyperfy/voice/latency',
+    handler: async (_req, res, runtime) => {
+      const service = runtime.getService<HyperfyService>(HyperfyService.serviceType);
+      res.json((service?.getSessions() ?? []).map((session) => ({
+        world: service.getWorldName(session),
+        ...session.getVoiceManager()?.getLatencyStats(),
+      })));
+    },
+  },
+  {
+    // What the agent heard and said: ?world=&player=&since=&until=&outcome=&limit=&format=json|jsonl|srt. Admin only
+    type: 'GET',
+    path: '/hyperfy/voice/log',
+    handler: async (req, res, runtime) => {
+      if (!requireAdmin(req, res)) return;
+      const query = req.query ?? {};
+      const service = runtime.getService<HyperfyService>(HyperfyService.serviceType);
+      const limit = parseInt(String(query.limit ?? ''), 10);
+      const entries = (service?.getSessions() ?? [])
+        .map((session) => ({ session, world: service.getWorldName(session) }))
+        .filter(({ world }) => !query.world || world === query.world)
+        .flatMap(({ session, world }) => (session.getVoiceLogManager()?.query({
+          playerId: typeof query.player === 'string' ? query.player : undefined,
+          since: parseTime(query.since),
+          until: parseTime(query.until),
+          outcome: typeof query.outcome === 'string' ? query.outcome as VoiceLogOutcome : undefined,
+        }) ?? []).map((entry) => ({ world, ...entry })))
+        .sort((a, b) => a.startedAt - b.startedAt)
+        .slice(limit > 0 ? -limit : 0);
+
+      if (query.format === 'jsonl') {
+        res.setHeader?.('Content-Type', 'application/x-ndjson');
+        res.send(voiceLogToJsonl(entries));
+      } else if (query.format === 'srt') {
+        res.setHeader?.('Content-Type', 'application/x-subrip');
+        res.send(voiceLogToSrt(entries, runtime.character.name));
+      } else {
+        res.json(entries);
+      }
+    },
+  },
+  {
+    // Served at /api/agents/<agentId>/plugins/hyperfy/tts/cache
+    type: 'GET',
+    path: '/hyperfy/tts/cache',
+    handler: async (_req, res, runtime) => {
+      res.json(await getTtsRegistry(runtime).getCacheStats());
+    },
+  },
+  {
+    // Pre-warms the TTS cache with `{ "phrases": [...] }`, or tts-phrases.json without a body. Admin only
+    type: 'POST',
+    path: '/hyperfy/tts/prewarm',
+    handler: async (req, res, runtime) => {
+      if (!requireAdmin(req, res)) return;
+      const body = req.body as { phrases?: unknown } | undefined;
+      let phrases: string[] | undefined;
+      if (body?.phrases !== undefined) {
+        if (!Array.isArray(body.phrases) || !body.phrases.every((phrase) => typeof phrase === 'string')) {
+          res.status(400).json({ error: '`phrases` must be a list of strings' });
+          return;
+        }
+        if (body.phrases.length > MAX_PREWARM_PHRASES ||
+            body.phrases.some((phrase: string) => phrase.length > MAX_PREWARM_PHRASE_LENGTH)) {
+          res.status(400).json({
+            error: `At most ${MAX_PREWARM_PHRASES} phrases of up to ${MAX_PREWARM_PHRASE_LENGTH} characters`,
+          });
+          return;
+        }
+        phrases = body.phrases;
+      }
+      res.json(await getTtsRegistry(runtime).prewarm(phrases));
+    },
+  },
+];
@@ -0,0 +1,990 @@
+import 'ses'
+
+import type { UUID } from '@elizaos/core'
+import {
+  createUniqueUuid,
+  EventType,
+  type IAgentRuntime,
+} from '@elizaos/core'
+import crypto from 'crypto'
+import fs from 'fs/promises'
+import path from 'path'
+import { createNodeClientWorld } from './hyperfy/src/core/createNodeClientWorld.js'
+import { AgentControls } from './systems/controls'
+import { AgentEnvironment } from './systems/environment.js'
+import { AgentLoader } from './systems/loader'
+import { AgentLiveKit } from './systems/liveKit.js'
+import { AgentActions } from './systems/actions.js'
+import { loadPhysX } from './physx/loadPhysX.js'
+import { BehaviorManager } from "./managers/behavior-manager.js"
+import { EmoteManager } from './managers/emote-manager.js'
+import { MessageManager } from './managers/message-manager.js'
+import { VoiceManager } from './managers/voice-manager.js'
+import { PuppeteerManager } from './managers/puppeteer-manager.js'
+import { BuildManager } from './managers/build-manager.js'
+import { LandmarkManager } from './managers/landmark-manager.js'
+import { TourManager } from './managers/tour-manager.js'
+import { PresenceManager } from './managers/presence-manager.js'
+import { VisitorProfileManager } from './managers/visitor-profile-manager.js'
+import { VoiceLogManager } from './managers/voice-log-manager.js'
+import { ActivityLogManager } from './managers/activity-log-manager.js'
+import { AgentActivityLock } from './managers/guards.js'
+import { DEFAULT_VAD_SETTINGS, type VadSettings } from './managers/voice-activity-detector.js'
+import { hashFileBuffer, getModuleDirectory } from './utils'
+import { hyperfyEventType, type HyperfyChatMessagePayload } from './events'
+
+const moduleDirPath = getModuleDirectory();
+const LOCAL_AVATAR_PATH = `${moduleDirPath}/avatars/avatar.vrm`;
+
+const HYPERFY_APPEARANCE_POLL_INTERVAL = 30000
+const HYPERFY_RECONNECT_BASE_DELAY = parseInt(process.env.HYPERFY_RECONNECT_BASE_DELAY_MS || '2000', 10)
+const HYPERFY_RECONNECT_MAX_DELAY = parseInt(process.env.HYPERFY_RECONNECT_MAX_DELAY_MS || '60000', 10)
+// 0 means retry forever
+const HYPERFY_RECONNECT_MAX_ATTEMPTS = parseInt(process.env.HYPERFY_RECONNECT_MAX_ATTEMPTS || '10', 10)
+const HYPERFY_RECONNECT_JITTER = 0.3 // +/- 30% of the computed delay
+
+const CARRIED_CONTEXT_TTL = 30 * 60 * 1000 // keep the previous world's conversation visible for 30 minutes
+
+export type HyperfyConnectConfig = { wsUrl: string; authToken?: string; worldId: UUID; voice?: Partial<VadSettings> }
+
+export type CarriedWorldContext = {
+  fromWorldName: string
+  fromWsUrl: string | null
+  fromRoomId: UUID
+  history: string
+  switchedAt: number
+}
+
+/**
+ * A world switch that didn't work out. `returned` is whether the agent made
+ * it back to the world it left; if not, the session is reconnecting there in
+ * the background.
+ */
+export class WorldSwitchError extends Error {
+  readonly returned: boolean
+
+  constructor(message: string, returned: boolean) {
+    super(message)
+    this.name = 'WorldSwitchError'
+    this.returned = returned
+  }
+}
+
+
+/**
+ * One live connection to a Hyperfy world. Owns the world instance, its systems
+ * and the per-world managers, so a single runtime can hold several at once.
+ */
+export class WorldSession {
+  readonly id: string
+
+  private world: any | null = null
+  private controls: AgentControls | null = null
+  private isConnectedState: boolean = false
+  private wsUrl: string | null = null
+  private _currentWorldId: UUID | null = null
+  private processedMsgIds: Set<string> = new Set()
+
+  private playerNamesMap: Map<string, string> = new Map()
+  private appearanceIntervalId: NodeJS.Timeout | null = null
+  private appearanceSet: boolean = false
+  private nameSet: boolean = false
+
+  private connectionTime: number | null = null
+
+  private lastConnectConfig: HyperfyConnectConfig | null = null
+  private reconnectTimeoutId: NodeJS.Timeout | null = null
+  private reconnectAttempts: number = 0
+  private isReconnecting: boolean = false
+  private isStopping: boolean = false
+
+  private carriedContext: CarriedWorldContext | null = null
+
+  // Busy while this world's chat or voice is being answered
+  private activityLock = new AgentActivityLock()
+
+  private behaviorManager: BehaviorManager;
+  private emoteManager: EmoteManager;
+  private messageManager: MessageManager;
+  private voiceManager: VoiceManager;
+  private puppeteerManager: PuppeteerManager;
+  private buildManager: BuildManager;
+  private landmarkManager: LandmarkManager;
+  private tourManager: TourManager;
+  private presenceManager: PresenceManager;
+  private visitorProfileManager: VisitorProfileManager;
+  private voiceLogManager: VoiceLogManager;
+  private activityLogManager: ActivityLogManager;
+
+  public get currentWorldId(): UUID | null {
+    return this._currentWorldId
+  }
+
+  /**
+   * The Eliza room this session's chat, voice and autonomous messages live in.
+   */
+  public get elizaRoomId(): UUID {
+    return createUniqueUuid(this.runtime, this._currentWorldId || 'hyperfy-unknown-world')
+  }
+
+  public get currentWsUrl(): string | null {
+    return this.wsUrl
+  }
+
+  public getWorld(): any | null {
+    return this.world;
+  }
+
+  public getActivityLock(): AgentActivityLock {
+    return this.activityLock
+  }
+
+  /**
+   * Voice activity settings for the current world: env defaults plus the world's overrides.
+   */
+  public getVadSettings(): VadSettings {
+    return { ...DEFAULT_VAD_SETTINGS, ...this.lastConnectConfig?.voice }
+  }
+
+  constructor(protected runtime: IAgentRuntime, id: string) {
+    this.id = id
+    console.info(`[Session ${id}] WorldSession created`)
+  }
+
+  /**
+   * Conversation brought along from the previous world, if the agent switched recently.
+   */
+  public getCarriedContext(): CarriedWorldContext | null {
+    if (!this.carriedContext) return null
+    if (Date.now() - this.carriedContext.switchedAt > CARRIED_CONTEXT_TTL) {
+      this.carriedContext = null
+    }
+    return this.carriedContext
+  }
+
+  /**
+   * Connects in the background and falls back to the reconnect loop on failure.
+   */
+  start(config: HyperfyConnectConfig): void {
+    console.info(`[Session ${this.id}] Attempting automatic connection to ${config.wsUrl}`)
+    this.connect(config)
+      .then(() => console.info(`[Session ${this.id}] Automatic Hyperfy connection initiated.`))
+      .catch(err => {
+        console.error(`[Session ${this.id}] Automatic Hyperfy connection failed: ${err.message}`)
+        this.scheduleReconnect(err.message)
+      })
+  }
+
+  async connect(config: HyperfyConnectConfig): Promise<void> {
+    if (this.isConnectedState) {
+      console.warn(`[Session ${this.id}] Already connected to world ${this._currentWorldId}. Disconnecting first.`)
+      await this.disconnect()
+    }
+
+    console.info(`[Session ${this.id}] Attempting to connect to ${config.wsUrl} for world ${config.worldId}`)
+    this.lastConnectConfig = { ...config }
+    this.isStopping = false
+    this.wsUrl = config.wsUrl
+    this._currentWorldId = config.worldId
+    this.appearanceSet = false
+    this.nameSet = false
+
+    try {
+      const world = createNodeClientWorld()
+      this.world = world
+
+      // Keep the headless browser across reconnects, launching it is expensive
+      this.puppeteerManager = this.puppeteerManager ?? new PuppeteerManager(this.runtime, this);
+      this.emoteManager = new EmoteManager(this.runtime, this);
+      this.messageManager = new MessageManager(this.runtime, this);
+      this.voiceManager = new VoiceManager(this.runtime, this);
+      this.behaviorManager = new BehaviorManager(this.runtime, this);
+      this.buildManager = new BuildManager(this.runtime, this);
+      this.landmarkManager = new LandmarkManager(this.runtime, this);
+      this.tourManager = new TourManager(this.runtime, this);
+      this.presenceManager = new PresenceManager(this.runtime, this);
+      this.visitorProfileManager = new VisitorProfileManager(this.runtime, this);
+      this.voiceLogManager = new VoiceLogManager(this.runtime, this);
+      this.activityLogManager = new ActivityLogManager(this.runtime, this);
+
+      ; (world as any).playerNamesMap = this.playerNamesMap
+      ; (world as any).puppeteer = this.puppeteerManager
+
+      globalThis.self = globalThis
+
+      const livekit = new AgentLiveKit(world);
+      ; (world as any).livekit = livekit
+      world.systems.push(livekit);
+
+      const actions = new AgentActions(world);
+      ; (world as any).actions = actions
+      world.systems.push(actions);
+
+      this.controls = new AgentControls(world)
+        ; (world as any).controls = this.controls
+      world.systems.push(this.controls)
+      // Temporarily comment out AgentLoader to test for updateTransform error
+      const loader = new AgentLoader(world)
+        ; (world as any).loader = loader
+      world.systems.push(loader);
+
+      const environment = new AgentEnvironment(world);
+      ; (world as any).environment = environment
+      world.systems.push(environment);
+
+      // HACK: Overwriting `chat.add` to prevent crashes caused by the original implementation.
+      // This ensures safe handling of chat messages and avoids unexpected errors from undefined fields.
+      (world as any).chat.add = (msg, broadcast) => {
+        const chat = (world as any).chat;
+        const MAX_MSGS = 50;
+
+        chat.msgs = [...chat.msgs, msg]
+
+        if (chat.msgs.length > MAX_MSGS) {
+          chat.msgs.shift()
+        }
+        for (const callback of chat.listeners) {
+          callback(chat.msgs)
+        }
+
+        // emit chat event
+        const readOnly = Object.freeze({ ...msg })
+        this.world.events.emit('chat', readOnly)
+        // maybe broadcast
+        if (broadcast) {
+          this.world.network.send('chatAdded', msg)
+        }
+      };
+
+      const mockElement = {
+        appendChild: () => { },
+        removeChild: () => { },
+        offsetWidth: 1920,
+        offsetHeight: 1080,
+        addEventListener: () => { },
+        removeEventListener: () => { },
+        style: {},
+      }
+
+      const hyperfyConfig = {
+        wsUrl: this.wsUrl,
+        viewport: mockElement,
+        ui: mockElement,
+        initialAuthToken: config.authToken,
+        loadPhysX
+      }
+
+      if (typeof this.world.init !== 'function') {
+        throw new Error('world.init is not a function')
+      }
+      await this.world.init(hyperfyConfig)
+      console.info('Hyperfy world initialized.')
+
+      this.processedMsgIds.clear()
+      if (this.world.chat?.msgs) {
+        console.info(`Processing ${this.world.chat.msgs.length} existing chat messages.`)
+        this.world.chat.msgs.forEach((msg: any) => {
+          if (msg && msg.id) {
+            this.processedMsgIds.add(msg.id)
+          }
+        })
+        console.info(`Populated ${this.processedMsgIds.size} processed message IDs from history.`)
+      }
+
+      await this.voiceLogManager.load();
+      this.voiceManager.start();
+
+      this.behaviorManager.start();
+
+      await this.landmarkManager.load();
+      await this.tourManager.loadTours();
+      await this.presenceManager.load();
+      await this.activityLogManager.load();
+      this.activityLogManager.start();
+      this.presenceManager.start();
+      await this.visitorProfileManager.load();
+      this.visitorProfileManager.start();
+
+      this.subscribeToHyperfyEvents()
+
+      this.isConnectedState = true
+
+      this.startAppearancePolling()
+
+      this.connectionTime = Date.now(); // Record connection time
+
+      console.info(`[Session ${this.id}] Connected successfully to ${this.wsUrl}`)
+    } catch (error: any) {
+      console.error(`[Session ${this.id}] Connection failed for ${config.worldId} at ${config.wsUrl}: ${error.message}`, error.stack)
+      await this.handleDisconnect()
+      throw error
+    }
+  }
+
+  private subscribeToHyperfyEvents(): void {
+    if (!this.world || typeof this.world.on !== 'function') {
+      console.warn("[Hyperfy Events] Cannot subscribe: World or world.on not available.")
+      return
+    }
+
+    this.world.off('disconnect')
+
+    this.world.on('disconnect', (reason: string) => {
+      console.warn(`Hyperfy world disconnected: ${reason}`)
+      this.runtime.emitEvent(EventType.WORLD_LEFT, {
+        runtime: this.runtime,
+        eventName: 'HYPERFY_DISCONNECTED',
+        data: { worldId: this._currentWorldId, reason: reason },
+      })
+      this.handleDisconnect().then(() => this.scheduleReconnect(reason))
+    })
+
+    if (this.world.chat?.subscribe) {
+      this.startChatSubscription()
+    } else {
+      console.warn('[Hyperfy Events] world.chat.subscribe not available.')
+    }
+  }
+
+  /**
+   * Schedules the next reconnect attempt using exponential backoff with jitter.
+   * Gives up once HYPERFY_RECONNECT_MAX_ATTEMPTS is reached (0 = unlimited).
+   */
+  scheduleReconnect(reason: string): void {
+    if (this.isStopping || !this.lastConnectConfig) return
+    if (this.reconnectTimeoutId || this.isReconnecting) return
+
+    const { wsUrl, worldId } = this.lastConnectConfig
+
+    if (HYPERFY_RECONNECT_MAX_ATTEMPTS > 0 && this.reconnectAttempts >= HYPERFY_RECONNECT_MAX_ATTEMPTS) {
+      console.error(`[Reconnect] Giving up on ${wsUrl} after ${this.reconnectAttempts} attempts.`)
+      this.runtime.emitEvent(hyperfyEventType.RECONNECT_FAILED as string, {
+        runtime: this.runtime,
+        worldId,
+        wsUrl,
+        attempts: this.reconnectAttempts,
+        reason,
+      } as any)
+      this.reconnectAttempts = 0
+      return
+    }
+
+    this.reconnectAttempts++
+    const backoff = Math.min(
+      HYPERFY_RECONNECT_MAX_DELAY,
+      HYPERFY_RECONNECT_BASE_DELAY * 2 ** (this.reconnectAttempts - 1)
+    )
+    const jitter = backoff * HYPERFY_RECONNECT_JITTER * (Math.random() * 2 - 1)
+    const delayMs = Math.max(0, Math.round(backoff + jitter))
+
+    console.info(`[Reconnect] Attempt ${this.reconnectAttempts} to ${wsUrl} in ${delayMs}ms (reason: ${reason})`)
+    this.runtime.emitEvent(hyperfyEventType.RECONNECT_SCHEDULED as string, {
+      runtime: this.runtime,
+      worldId,
+      wsUrl,
+      attempt: this.reconnectAttempts,
+      maxAttempts: HYPERFY_RECONNECT_MAX_ATTEMPTS,
+      delayMs,
+      reason,
+    } as any)
+
+    this.reconnectTimeoutId = setTimeout(() => {
+      this.reconnectTimeoutId = null
+      this.attemptReconnect()
+    }, delayMs)
+  }
+
+  private async attemptReconnect(): Promise<void> {
+    if (this.isStopping || !this.lastConnectConfig) return
+
+    const config = this.lastConnectConfig
+    const attempt = this.reconnectAttempts
+    this.isReconnecting = true
+
+    this.runtime.emitEvent(hyperfyEventType.RECONNECTING as string, {
+      runtime: this.runtime,
+      worldId: config.worldId,
+      wsUrl: config.wsUrl,
+      attempt,
+    } as any)
+
+    let failure: Error | null = null
+    try {
+      // connect() restarts appearance polling, which restores name, avatar and emotes
+      await this.connect(config)
+    } catch (error: any) {
+      failure = error
+    }
+    this.isReconnecting = false
+
+    if (failure) {
+      console.warn(`[Reconnect] Attempt ${attempt} failed: ${failure.message}`)
+      this.scheduleReconnect(failure.message)
+      return
+    }
+
+    console.info(`[Reconnect] Reconnected to ${config.wsUrl} after ${attempt} attempt(s).`)
+    this.reconnectAttempts = 0
+    this.runtime.emitEvent(hyperfyEventType.RECONNECTED as string, {
+      runtime: this.runtime,
+      worldId: config.worldId,
+      wsUrl: config.wsUrl,
+      attempt,
+    } as any)
+  }
+
+  private cancelReconnect(): void {
+    if (this.reconnectTimeoutId) {
+      clearTimeout(this.reconnectTimeoutId)
+      this.reconnectTimeoutId = null
+      console.info('[Reconnect] Pending reconnect cancelled.')
+    }
+    this.reconnectAttempts = 0
+  }
+
+  /**
+   * Uploads the character's avatar model and associated emote animations,
+   * sets the avatar URL locally, updates emote hash mappings,
+   * and notifies the server of the new avatar.
+   * 
+   * This function handles all assets required for character expression and animation.
+   */
+  private async uploadCharacterAssets(): Promise<{
+    success: boolean;
+    error?: string;
+  }> {
+    if (
+      !this.world ||
+      !this.world.entities?.player ||
+      !this.world.network ||
+      !this.world.assetsUrl
+    ) {
+      console.warn(
+        "[Appearance] Cannot set avatar: World, player, network, or assetsUrl not ready."
+      );
+      return { success: false, error: "Prerequisites not met" };
+    }
+
+    const agentPlayer = this.world.entities.player;
+    const localAvatarPath = path.resolve(LOCAL_AVATAR_PATH);
+    let fileName = "";
+
+    try {
+      console.info(`[Appearance] Reading avatar file from: ${localAvatarPath}`);
+      const fileBuffer: Buffer = await fs.readFile(localAvatarPath);
+      fileName = path.basename(localAvatarPath);
+      const mimeType = fileName.endsWith(".vrm")
+        ? "model/gltf-binary"
+        : "application/octet-stream";
+
+      console.info(
+        `[Appearance] Uploading ${fileName} (${(fileBuffer.length / 1024).toFixed(2)} KB, Type: ${mimeType})...`
+      );
+
+      if (!crypto.subtle || typeof crypto.subtle.digest !== "function") {
+        throw new Error(
+          "crypto.subtle.digest is not available. Ensure Node.js version supports Web Crypto API."
+        );
+      }
+
+      const hash = await hashFileBuffer(fileBuffer);
+      const ext = fileName.split(".").pop()?.toLowerCase() || "vrm";
+      const fullFileNameWithHash = `${hash}.${ext}`;
+      const baseUrl = this.world.assetsUrl.replace(/\/$/, "");
+      const constructedHttpUrl = `${baseUrl}/${fullFileNameWithHash}`;
+
+      if (typeof this.world.network.upload !== "function") {
+        console.warn(
+          "[Appearance] world.network.upload function not found. Cannot upload."
+        );
+        return { success: false, error: "Upload function unavailable" };
+      }
+
+      try {
+        console.info(
+          `[Appearance] Uploading avatar to ${constructedHttpUrl}...`
+        );
+        const fileForUpload = new File([fileBuffer], fileName, {
+          type: mimeType,
+        });
+
+        const uploadPromise = this.world.network.upload(fileForUpload);
+        const timeoutPromise = new Promise((_resolve, reject) =>
+          setTimeout(() => reject(new Error("Upload timed out")), 30000)
+        );
+
+        await Promise.race([uploadPromise, timeoutPromise]);
+        console.info(`[Appearance] Avatar uploaded successfully.`);
+      } catch (uploadError: any) {
+        console.error(
+          `[Appearance] Avatar upload failed: ${uploadError.message}`,
+          uploadError.stack
+        );
+        return {
+          success: false,
+          error: `Upload failed: ${uploadError.message}`,
+        };
+      }
+
+      // Apply avatar locally
+      if (agentPlayer && typeof agentPlayer.setSessionAvatar === "function") {
+        agentPlayer.setSessionAvatar(constructedHttpUrl);
+      } else {
+        console.warn(
+          "[Appearance] agentPlayer.setSessionAvatar not available."
+        );
+      }
+
+      // Upload emotes
+      await this.emoteManager.uploadEmotes();
+
+      // Notify server
+      if (typeof this.world.network.send === "function") {
+        this.world.network.send("playerSessionAvatar", {
+          avatar: constructedHttpUrl,
+        });
+        console.info(
+          `[Appearance] Sent playerSessionAvatar with: ${constructedHttpUrl}`
+        );
+      } else {
+        console.error(
+          "[Appearance] Upload succeeded but world.network.send is not available."
+        );
+      }
+
+      return { success: true };
+    } catch (error: any) {
+      if (error.code === "ENOENT") {
+        console.error(
+          `[Appearance] Avatar file not found at ${localAvatarPath}. CWD: ${process.cwd()}`
+        );
+      } else {
+        console.error(
+          "[Appearance] Unexpected error during avatar process:",
+          error.message,
+          error.stack
+        );
+      }
+      return { success: false, error: error.message };
+    }
+  }
+
+
+  private startAppearancePolling(): void {
+    if (this.appearanceIntervalId) clearInterval(this.appearanceIntervalId);
+    // Check if both are already set
+    let pollingTasks = { avatar: this.appearanceSet, name: this.nameSet }; // Track tasks locally
+
+    if (pollingTasks.avatar && pollingTasks.name) {
+      console.info("[Appearance/Name Polling] Already set, skipping start.");
+      return;
+    }
+    console.info(`[Appearance/Name Polling] Initializing interval every ${HYPERFY_APPEARANCE_POLL_INTERVAL}ms.`);
+
+
+    const f = async () => {
+      // Stop polling if both tasks are complete
+      if (pollingTasks.avatar && pollingTasks.name) {
+        if (this.appearanceIntervalId) clearInterval(this.appearanceIntervalId);
+        this.appearanceIntervalId = null;
+        console.info(`[Appearance/Name Polling] Both avatar and name set. Polling stopped.`);
+        return;
+      }
+
+      const agentPlayer = this.world?.entities?.player; // Get player once
+      const agentPlayerReady = !!agentPlayer;
+      const agentPlayerId = agentPlayer?.data?.id;
+      const agentPlayerIdReady = !!agentPlayerId;
+      const networkReady = this.world?.network?.id != null;
+      const assetsUrlReady = !!this.world?.assetsUrl; // Needed for avatar
+
+      // Condition checks player/ID/network readiness for name, adds assetsUrl for avatar
+      console.log('agentPlayerReady', agentPlayerReady)
+      console.log('agentPlayerIdReady', agentPlayerIdReady)
+      console.log('networkReady', networkReady)
+      if (agentPlayerReady && agentPlayerIdReady && networkReady) {
+        const entityId = createUniqueUuid(this.runtime, this.runtime.agentId);
+        const entity = await this.runtime.getEntityById(entityId)
+        if (entity) {
+          entity.metadata.hyperfy = {
+            id: agentPlayerId,
+            name: agentPlayer?.data?.name,
+            userName: agentPlayer?.data?.name
+          }
+
+          await this.runtime.updateEntity(entity)
+        }
+
+        // --- Set Name (if not already done) ---
+        if (!pollingTasks.name) {
+          console.info(`[Name Polling] Player (ID: ${agentPlayerId}), network ready. Attempting name...`);
+          try {
+            await this.changeName(this.runtime.character.name);
+            this.nameSet = true; // Update global state
+            pollingTasks.name = true; // Update local task tracker
+            console.info(`[Name Polling] Initial name successfully set to "${this.runtime.character.name}".`);
+          } catch (error) {
+            console.error(`[Name Polling] Failed to set initial name:`, error);
+          }
+        }
+
+        // --- Set Avatar (if not already done AND assets URL ready) ---
+        if (!pollingTasks.avatar && assetsUrlReady) {
+          console.info(`[Appearance Polling] Player (ID: ${agentPlayerId}), network, assetsUrl ready. Attempting avatar upload and set...`);
+          const result = await this.uploadCharacterAssets();
+
+          if (result.success) {
+            this.appearanceSet = true; // Update global state
+            pollingTasks.avatar = true; // Update local task tracker
+            console.info(`[Appearance Polling] Avatar setting process successfully completed.`);
+          } else {
+            console.warn(`[Appearance Polling] Avatar setting process failed: ${result.error || 'Unknown reason'}. Will retry...`);
+          }
+        } else if (!pollingTasks.avatar) {
+          console.debug(`[Appearance Polling] Waiting for: Assets URL (${assetsUrlReady})...`);
+        }
+      } else {
+        // Update waiting log
+        console.debug(`[Appearance/Name Polling] Waiting for: Player (${agentPlayerReady}), Player ID (${agentPlayerIdReady}), Network (${networkReady})...`);
+      }
+    }
+    this.appearanceIntervalId = setInterval(f, HYPERFY_APPEARANCE_POLL_INTERVAL);
+    f();
+  }
+
+  private stopAppearancePolling(): void {
+    if (this.appearanceIntervalId) {
+      clearInterval(this.appearanceIntervalId)
+      this.appearanceIntervalId = null
+      console.info("[Appearance Polling] Stopped.")
+    }
+  }
+
+  /**
+   * Checks if the service is currently connected to a Hyperfy world.
+   */
+  public isConnected(): boolean {
+    return this.isConnectedState;
+  }
+
+  /**
+   * Connection details for status reports: the world the session is (or is
+   * trying to be) in, and how the connection is doing.
+   */
+  public getConnectionStatus(): { connected: boolean; wsUrl: string | null; connectedSince: number | null; reconnecting: boolean; reconnectAttempts: number } {
+    return {
+      connected: this.isConnectedState,
+      wsUrl: this.wsUrl ?? this.lastConnectConfig?.wsUrl ?? null,
+      connectedSince: this.connectionTime,
+      reconnecting: this.isReconnecting || !!this.reconnectTimeoutId,
+      reconnectAttempts: this.reconnectAttempts,
+    }
+  }
+
+  /**
+   * Drops the connection and joins the same world again, for when the agent
+   * is stuck. Falls back to the reconnect loop if the world can't be reached.
+   */
+  async reconnect(reason: string): Promise<void> {
+    const config = this.lastConnectConfig
+    if (!config) throw new Error('WorldSession: Cannot reconnect. Never connected to a world.')
+    console.info(`[Session ${this.id}] Reconnecting to ${config.wsUrl} (${reason})`)
+    await this.disconnect()
+    try {
+      await this.connect(config)
+    } catch (error: any) {
+      this.scheduleReconnect(error.message)
+      throw error
+    }
+  }
+
+  public getEntityById(entityId: string): any | null {
+    return this.world?.entities?.items?.get(entityId) || null
+  }
+
+  public getEntityName(entityId: string): string | null {
+    const entity = this.world?.entities?.items?.get(entityId)
+    return entity?.data?.name || entity?.blueprint?.name || 'Unnamed';
+  }
+
+  async handleDisconnect(): Promise<void> {
+    if (!this.isConnectedState && !this.world) return
+    console.info(`[Session ${this.id}] Handling Hyperfy disconnection...`)
+    this.isConnectedState = false
+
+    this.stopAppearancePolling()
+    this.tourManager?.stop('disconnected');
+    this.visitorProfileManager?.stop();
+    await this.presenceManager?.stop();
+    this.behaviorManager?.stop();
+    this.voiceManager?.cleanup();
+    await this.voiceLogManager?.stop();
+    await this.activityLogManager?.stop();
+
+    if (this.world) {
+      try {
+        // Tearing down the network fires 'disconnect' again; don't treat that as a drop
+        this.world.off?.('disconnect')
+        if (this.world.network && typeof this.world.network.disconnect === 'function') {
+          console.info("[Hyperfy Cleanup] Calling network.disconnect()...")
+          await this.world.network.disconnect()
+        }
+        if (typeof this.world.destroy === 'function') {
+          console.info("[Hyperfy Cleanup] Calling world.destroy()...")
+          this.world.destroy()
+        }
+      } catch (e: any) {
+        console.warn(`[Hyperfy Cleanup] Error during world network disconnect/destroy: ${e.message}`)
+      }
+    }
+
+    this.world = null
+    this.controls = null
+    this.playerNamesMap.clear()
+    this.wsUrl = null
+    this.appearanceSet = false
+
+    this.processedMsgIds.clear()
+
+    this.connectionTime = null; // Clear connection time
+
+    if (this.appearanceIntervalId) { clearInterval(this.appearanceIntervalId); this.appearanceIntervalId = null; }
+
+    console.info(`[Session ${this.id}] Hyperfy disconnection handling complete.`)
+  }
+
+  async disconnect(): Promise<void> {
+    console.info(`[Session ${this.id}] Disconnecting from world ${this._currentWorldId}`)
+    this.cancelReconnect()
+    await this.handleDisconnect()
+    console.info(`[Session ${this.id}] Disconnect complete.`)
+  }
+
+  /**
+   * Leaves the current world and joins another one. The recent conversation is
+   * captured first so the agent can refer back to it in the new room.
+   * If the new world can't be reached, the session goes back to the old one.
+   */
+  async switchWorld(config: HyperfyConnectConfig, fromWorldName: string): Promise<void> {
+    const previousConfig = this.lastConnectConfig
+    const fromRoomId = this.elizaRoomId
+    const fromWsUrl = this.wsUrl
+
+    let history = ''
+    try {
+      history = (await this.messageManager?.getRecentMessages(fromRoomId, 10))?.formattedHistory || ''
+    } catch (error: any) {
+      console.warn(`[Session ${this.id}] Could not capture conversation before switching: ${error.message}`)
+    }
+
+    console.info(`[Session ${this.id}] Switching from ${fromWsUrl} to ${config.wsUrl}`)
+    await this.disconnect()
+
+    try {
+      await this.connect(config)
+    } catch (error: any) {
+      console.error(`[Session ${this.id}] Switch to ${config.wsUrl} failed: ${error.message}`)
+      if (!previousConfig) {
+        throw new WorldSwitchError(error.message, false)
+      }
+      console.info(`[Session ${this.id}] Returning to ${previousConfig.wsUrl}`)
+      try {
+        await this.connect(previousConfig)
+      } catch (returnError: any) {
+        console.error(`[Session ${this.id}] Couldn't return to ${previousConfig.wsUrl} either: ${returnError.message}`)
+        this.scheduleReconnect(returnError.message)
+        throw new WorldSwitchError(`${error.message}; returning failed too: ${returnError.message}`, false)
+      }
+      throw new WorldSwitchError(error.message, true)
+    }
+
+    this.carriedContext = { fromWorldName, fromWsUrl, fromRoomId, history, switchedAt: Date.now() }
+  }
+
+  /**
+   * Changes the agent's display name.
+   */
+  async changeName(newName: string): Promise<void> {
+    if (!this.isConnected() || !this.world?.network || !this.world?.entities?.player) {
+      throw new Error('WorldSession: Cannot change name. Network or player not ready.');
+    }
+    const agentPlayerId = this.world.entities.player.data.id;
+    if (!agentPlayerId) {
+      throw new Error('WorldSession: Cannot change name. Player ID not available.');
+    }
+
+    console.info(`[Action] Attempting to change name to "${newName}" for ID ${agentPlayerId}`);
+
+    try {
+
+      // 2. Update local state immediately
+      // Update the name map
+      if (this.playerNamesMap.has(agentPlayerId)) {
+        console.info(`[Name Map Update] Setting name via changeName for ID ${agentPlayerId}: '${newName}'`);
+        this.playerNamesMap.set(agentPlayerId, newName);
+      } else {
+        console.warn(`[Name Map Update] Attempted changeName for ID ${agentPlayerId} not currently in map. Adding.`);
+        this.playerNamesMap.set(agentPlayerId, newName);
+      }
+
+      // --- Use agentPlayer.modify for local update --- >
+      const agentPlayer = this.world.entities.player;
+      agentPlayer.modify({ name: newName });
+      agentPlayer.data.name = newName
+
+      this.world.network.send('entityModified', { id: agentPlayer.data.id, name: newName })
+      console.debug(`[Action] Called agentPlayer.modify({ name: "${newName}" })`);
+
+    } catch (error: any) {
+      console.error(`[Action] Error during changeName to "${newName}":`, error);
+      throw error;
+    }
+  }
+
+  async stop(): Promise<void> {
+    console.info(`[Session ${this.id}] Stopping`)
+    this.isStopping = true
+    await this.disconnect()
+  }
+
+  private startChatSubscription(): void {
+    if (!this.world || !this.world.chat) {
+      console.error('Cannot subscribe to chat: World or Chat system not available.')
+      return
+    }
+
+    console.info(`[Session ${this.id}] Initializing chat subscription...`)
+
+    // Pre-populate processed IDs with existing messages
+    this.world.chat.msgs?.forEach((msg: any) => {
+      if (msg && msg.id) { // Add null check for msg and msg.id
+        this.processedMsgIds.add(msg.id)
+      }
+    });
+
+    this.world.chat.subscribe((msgs: any[]) => {
+      // Wait for player entity (ensures world/chat exist too)
+      if (!this.world || !this.world.chat || !this.world.entities?.player || !this.connectionTime) return
+
+      const newMessagesFound: any[] = [] // Temporary list for new messages
+
+      // Step 1: Identify new messages and update processed set
+      msgs.forEach((msg: any) => {
+        // Check timestamp FIRST - only consider messages newer than connection time
+        const messageTimestamp = msg.createdAt ? new Date(msg.createdAt).getTime() : 0;
+        // Also check for NaN (invalid date)
+        if (!messageTimestamp || isNaN(messageTimestamp) || messageTimestamp <= this.connectionTime) {
+          // Ensure historical messages are marked processed if encountered *before* connectionTime was set (edge case)
+          if (msg?.id && !this.processedMsgIds.has(msg.id.toString())) {
+            this.processedMsgIds.add(msg.id.toString());
+          }
+          return; // Skip this message
+        }
+
+        // Check if we've already processed this message ID (secondary check for duplicates)
+        const msgIdStr = msg.id?.toString();
+        if (msgIdStr && !this.processedMsgIds.has(msgIdStr)) {
+          newMessagesFound.push(msg) // Add the full message object
+          // Don't mark as processed here - mark after successful processing
+        }
+      })
+
+      // Step 2: Process only the newly found messages
+      if (newMessagesFound.length > 0) {
+        console.info(`[Chat] Found ${newMessagesFound.length} new messages to process.`)
+
+        // Process messages sequentially with proper error handling (use async IIFE)
+        ;(async () => {
+          for (const msg of newMessagesFound) {
+            this.emitChatMessage(msg)
+            try {
+              await this.messageManager.handleMessage(msg);
+              // Mark as processed only after successful handling
+              const msgIdStr = msg.id?.toString();
+              if (msgIdStr) {
+                this.processedMsgIds.add(msgIdStr);
+              }
+            } catch (error) {
+              console.error(`[Chat] Error processing message ${msg.id}:`, error);
+              // Still mark as processed to avoid infinite retry loops
+              const msgIdStr = msg.id?.toString();
+              if (msgIdStr) {
+                this.processedMsgIds.add(msgIdStr);
+              }
+            }
+          }
+        })();
+      }
+    })
+  }
+
+  /**
+   * Lets other integrations (e.g. the Discord bridge) see every new chat
+   * line, including the agent's own.
+   */
+  private emitChatMessage(msg: any): void {
+    const payload: HyperfyChatMessagePayload = {
+      runtime: this.runtime,
+      source: 'hyperfy',
+      sessionId: this.id,
+      worldId: this.currentWorldId,
+      message: {
+        id: msg.id?.toString(),
+        from: msg.from || 'System',
+        fromId: msg.fromId ?? null,
+        body: msg.body || '',
+        createdAt: msg.createdAt,
+      },
+      fromAgent: !!msg.fromId && msg.fromId === this.world?.entities?.player?.data?.id,
+    }
+    this.runtime.emitEvent(hyperfyEventType.CHAT_MESSAGE as string, payload as any)
+  }
+
+  getEmoteManager() {
+    return this.emoteManager;
+  }
+
+  getBehaviorManager() {
+    return this.behaviorManager;
+  }
+
+  getMessageManager() {
+    return this.messageManager;
+  }
+
+  getVoiceManager() {
+    return this.voiceManager;
+  }
+
+  getPuppeteerManager() {
+    return this.puppeteerManager;
+  }
+
+  getBuildManager() {
+    return this.buildManager;
+  }
+
+  getLandmarkManager() {
+    return this.landmarkManager;
+  }
+
+  getTourManager() {
+    return this.tourManager;
+  }
+
+  getPresenceManager() {
+    return this.presenceManager;
+  }
+
+  getVisitorProfileManager() {
+    return this.visitorProfileManager;
+  }
+
+  getVoiceLogManager() {
+    return this.voiceLogManager;
+  }
+
+  getActivityLogManager() {
+    return this.activityLogManager;
+  }
+}
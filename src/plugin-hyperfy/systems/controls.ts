@@ -2,6 +2,7 @@ import { System } from '../hyperfy/src/core/systems/System.js'
 import { logger } from '@elizaos/core';
 import * as THREE from 'three';
 import { Vector3Enhanced } from '../hyperfy/src/core/extras/Vector3Enhanced.js'
+import { NavGrid } from './navgrid'
 
 const FORWARD = new THREE.Vector3(0, 0, -1)
 const v1 = new THREE.Vector3()
@@ -15,8 +16,25 @@ const q2 = new THREE.Quaternion()
 const CONTROLS_TICK_INTERVAL = 100; // ms
 const NAVIGATION_STOP_DISTANCE = 0.5; // meters
 const FOLLOW_STOP_DISTANCE = 2.5; // meters
+const FOLLOW_MODE_TICK_INTERVAL = 250; // ms
+const FOLLOW_MODE_RESUME_SLACK = 1.5; // meters past the trail distance before walking again
+const FOLLOW_MODE_CATCH_UP_DISTANCE = 20; // meters, teleport instead of walking beyond this gap
+const FOLLOW_MODE_JUMP_DISTANCE = 8; // meters moved in one tick, i.e. a portal or teleport
+const FOLLOW_MODE_DEFAULT_TIMEOUT = 10 * 60 * 1000; // ms
+const FOLLOW_MODE_LOST_GRACE = 5000; // ms the target may be missing before we give up
+const FOLLOW_MODE_RETRY_DELAY = 1000; // ms after a failed walk, doubling with each failure in a row
+const FOLLOW_MODE_MAX_FAILURES = 3; // failed walks in a row before giving up on the target
 const RANDOM_WALK_DEFAULT_INTERVAL = 5000; // ms <-- SET TO 5 SECONDS
 const RANDOM_WALK_DEFAULT_MAX_DISTANCE = 7; // meters
+const RANDOM_WALK_TARGET_ATTEMPTS = 8;
+const WAYPOINT_REACH_DISTANCE = 0.6; // meters
+const REPLAN_TARGET_MOVED_DISTANCE = 1.0; // meters, e.g. a followed player walking away
+const REPLAN_INTERVAL = 3000; // ms
+const MAX_DEAD_END_PLANS = 3;
+
+function horizontalDistance(a: THREE.Vector3, b: THREE.Vector3): number {
+  return Math.hypot(a.x - b.x, a.z - b.z);
+}
 
 function createButtonState() {
   return {
@@ -27,6 +45,19 @@ function createButtonState() {
   }
 }
 
+export type FollowEndReason = 'stopped' | 'target_left' | 'timeout' | 'unreachable';
+
+/** How a walk ended: at the target, as close as the grid allowed, stuck, or cut short (e.g. by another command). */
+export type NavigationOutcome = 'reached' | 'unreachable' | 'stuck' | 'interrupted';
+
+export type FollowState = {
+  entityId: string;
+  name: string;
+  startedAt: number;
+  trailDistance: number;
+  timeout: number;
+};
+
 class ControlsToken {
   private _isAborted = false;
   abort() { this._isAborted = true; }
@@ -74,11 +105,14 @@ export class AgentControls extends System {
 
   private _currentWalkToken: ControlsToken | null = null;
   private _isRandomWalking: boolean = false;
+  private _followState: FollowState | null = null;
 
   private _isRotating = false;
   private _rotationTarget: THREE.Quaternion | null = null;
   private _rotationAbortController: ControlsToken | null = null;
 
+  private navGrid: NavGrid;
+
   constructor(world: any) {
     super(world); // Call base System constructor
 
@@ -93,6 +127,7 @@ export class AgentControls extends System {
     });
 
     this.camera = this.createCamera(this);
+    this.navGrid = new NavGrid(world);
   }
 
   // Method for the agent script to set a key state
@@ -168,12 +203,18 @@ export class AgentControls extends System {
         }
 
         const pos = this.world.entities.player.base.position;
-        const angle = Math.random() * Math.PI * 2;
-        const radius = Math.random() * maxDistance;
-        const targetX = pos.x + Math.cos(angle) * radius;
-        const targetZ = pos.z + Math.sin(angle) * radius;
+        // Pick a random point that is actually standable ground
+        let targetX = pos.x;
+        let targetZ = pos.z;
+        for (let attempt = 0; attempt < RANDOM_WALK_TARGET_ATTEMPTS; attempt++) {
+          const angle = Math.random() * Math.PI * 2;
+          const radius = Math.random() * maxDistance;
+          targetX = pos.x + Math.cos(angle) * radius;
+          targetZ = pos.z + Math.sin(angle) * radius;
+          if (this.navGrid.isWalkable(targetX, targetZ, pos.y)) break;
+        }
         try {
-          tmpTarget.set(targetX, 0, targetZ);
+          tmpTarget.set(targetX, pos.y, targetZ);
           this.stopNavigation("starting new navigation");
           this._currentWalkToken = token;
           this._isNavigating = true;
@@ -196,9 +237,10 @@ export class AgentControls extends System {
   // --- Navigation Methods --- >
 
   /**
-   * Navigates toward an entity (by ID) until within stop distance.
+   * Navigates toward an entity (by ID) until within stop distance. Resolves
+   * with how the walk ended.
    */
-  public async followEntity(entityId: string, stopDistance: number = FOLLOW_STOP_DISTANCE): Promise<void> {
+  public async followEntity(entityId: string, stopDistance: number = FOLLOW_STOP_DISTANCE): Promise<NavigationOutcome> {
     this.stopRandomWalk();
     this.stopNavigation("starting followEntity");
 
@@ -206,13 +248,150 @@ export class AgentControls extends System {
     this._currentWalkToken = token;
     this._isNavigating = true;
     v2.set(0, 0, 0);
-    await this._navigateTowards(() => {
+    return this._navigateTowards(() => {
       const target = this.world.entities.items.get(entityId);
       if (!target) return v2;
       return target.base?.position?.clone() || target.root?.position?.clone() || null;
     }, stopDistance, token);
   }
 
+  /**
+   * Keeps trailing an entity (usually a player) until stopped, the entity
+   * leaves the world, or the timeout passes. Walks to stay within the trail
+   * distance and teleports to catch up after a large gap or a portal jump.
+   * Resolves with the reason following ended.
+   */
+  public async startFollowing(
+    entityId: string,
+    options: { trailDistance?: number; timeout?: number } = {}
+  ): Promise<FollowEndReason> {
+    this.stopAllActions("starting follow mode");
+
+    const trailDistance = options.trailDistance ?? FOLLOW_STOP_DISTANCE;
+    const timeout = options.timeout ?? FOLLOW_MODE_DEFAULT_TIMEOUT;
+    const token = new ControlsToken();
+    this._currentWalkToken = token;
+
+    const initial = this.world.entities.items.get(entityId);
+    const state: FollowState = {
+      entityId,
+      name: initial?.data?.name || `entity ${entityId}`,
+      startedAt: Date.now(),
+      trailDistance,
+      timeout,
+    };
+    this._followState = state;
+    logger.info(`[Controls] Following ${state.name} (${entityId}).`);
+
+    const tickDelay = (ms: number) => new Promise(res => setTimeout(res, ms));
+    const getTargetPosition = (): THREE.Vector3 | null => {
+      const target = this.world.entities.items.get(entityId);
+      return target?.base?.position?.clone() || target?.root?.position?.clone() || null;
+    };
+
+    let reason: FollowEndReason = 'stopped';
+    let lastSeenAt = Date.now();
+    let lastTargetPos: THREE.Vector3 | null = getTargetPosition();
+    let targetJumped = false;
+    let failures = 0;
+
+    while (!token.aborted && this._currentWalkToken === token) {
+      if (Date.now() - state.startedAt > timeout) {
+        reason = 'timeout';
+        break;
+      }
+      if (!this._validatePlayerState("startFollowing")) break;
+
+      const targetPos = getTargetPosition();
+      if (!targetPos) {
+        if (Date.now() - lastSeenAt > FOLLOW_MODE_LOST_GRACE) {
+          reason = 'target_left';
+          break;
+        }
+        await tickDelay(FOLLOW_MODE_TICK_INTERVAL);
+        continue;
+      }
+      lastSeenAt = Date.now();
+
+      const player = this.world.entities.player;
+      const gap = horizontalDistance(player.base.position, targetPos);
+      const jumped = targetJumped || (!!lastTargetPos && lastTargetPos.distanceTo(targetPos) > FOLLOW_MODE_JUMP_DISTANCE);
+      lastTargetPos = targetPos;
+      targetJumped = false;
+
+      if (gap > FOLLOW_MODE_CATCH_UP_DISTANCE || (jumped && gap > trailDistance + FOLLOW_MODE_RESUME_SLACK)) {
+        this._catchUpTo(targetPos, trailDistance);
+      } else if (gap > trailDistance + FOLLOW_MODE_RESUME_SLACK) {
+        this._isNavigating = true;
+        const outcome = await this._navigateTowards(() => {
+          const current = getTargetPosition();
+          if (!current) return null;
+          // Hand control back to the follow loop when the target jumps away
+          if (current.distanceTo(lastTargetPos) > FOLLOW_MODE_JUMP_DISTANCE ||
+              horizontalDistance(this.world.entities.player.base.position, current) > FOLLOW_MODE_CATCH_UP_DISTANCE) {
+            targetJumped = true;
+            return null;
+          }
+          lastTargetPos = current;
+          return current;
+        }, trailDistance, token);
+        if (outcome === 'reached') {
+          failures = 0;
+        } else if ((outcome === 'unreachable' || outcome === 'stuck') && !targetJumped) {
+          // Replanning right away would just fail again; wait, then give up after a few tries
+          if (++failures >= FOLLOW_MODE_MAX_FAILURES) {
+            reason = 'unreachable';
+            break;
+          }
+          await tickDelay(FOLLOW_MODE_RETRY_DELAY * 2 ** (failures - 1));
+        }
+        continue;
+      }
+
+      await tickDelay(FOLLOW_MODE_TICK_INTERVAL);
+    }
+
+    if (this._followState === state) {
+      this._followState = null;
+      if (this._currentWalkToken === token) {
+        this._currentWalkToken = null;
+        this.stopNavigation(`follow ended (${reason})`);
+      }
+    }
+    logger.info(`[Controls] Stopped following ${state.name} (${reason}).`);
+    return reason;
+  }
+
+  /**
+   * Ends follow mode, if active.
+   */
+  public stopFollowing(): void {
+    if (!this._followState) return;
+    this._followState = null;
+    this._currentWalkToken?.abort();
+    this._currentWalkToken = null;
+    this.stopNavigation("follow stopped");
+  }
+
+  public getFollowState(): FollowState | null {
+    return this._followState;
+  }
+
+  /** Teleports to a spot trailing behind the target, without ending follow mode */
+  private _catchUpTo(targetPos: THREE.Vector3, trailDistance: number): void {
+    const player = this.world.entities.player;
+    const direction = targetPos.clone().sub(player.base.position).setY(0);
+    if (direction.lengthSq() < 1e-6) direction.copy(FORWARD);
+    direction.normalize();
+    const position = targetPos.clone().addScaledVector(direction, -trailDistance);
+    const rotationY = Math.atan2(-direction.x, -direction.z);
+
+    logger.info(`[Controls] Catching up: teleporting behind target at ${position.x.toFixed(2)}, ${position.z.toFixed(2)}`);
+    this.stopNavigation("catching up");
+    player.teleport({ position, rotationY });
+    this.navGrid.clear();
+  }
+
   /**
    * Teleports the agent to the specified position and optional rotation.
    */
@@ -230,6 +409,8 @@ export class AgentControls extends System {
       position: position,
       rotationY: rotationY,
     });
+    // Cached ground samples may belong to a different floor or area now
+    this.navGrid.clear();
   }
 
   /**
@@ -260,9 +441,10 @@ export class AgentControls extends System {
 
 
   /**
-   * Starts navigating the agent towards the target X, Z coordinates.
+   * Navigates the agent to the target X, Z coordinates. Resolves with how
+   * the walk ended: there, as close as it could get, stuck, or interrupted.
    */
-  public async goto(x: number, z: number): Promise<void> {
+  public async goto(x: number, z: number): Promise<NavigationOutcome> {
     this.stopAllActions("starting new navigation");
 
     const navigationToken = new ControlsToken();
@@ -270,7 +452,7 @@ export class AgentControls extends System {
     this._navigationTarget = new THREE.Vector3(x, 0, z);
     this._isNavigating = true;
 
-    await this._navigateTowards(() => this._navigationTarget, NAVIGATION_STOP_DISTANCE, navigationToken);
+    return this._navigateTowards(() => this._navigationTarget, NAVIGATION_STOP_DISTANCE, navigationToken);
   }
 
 
@@ -279,7 +461,7 @@ export class AgentControls extends System {
     stopDistance: number,
     token: ControlsToken,
     allowSprint: boolean = true
-  ): Promise<void> {
+  ): Promise<NavigationOutcome> {
     const player = this.world.entities.player;
     const tickDelay = (ms: number) => new Promise(res => setTimeout(res, ms));
 
@@ -288,9 +470,25 @@ export class AgentControls extends System {
     const STUCK_THRESHOLD = 0.05;
     const MAX_NO_PROGRESS_TICKS = 10;
     let recoveryAttempts = 0;
-    const MAX_RECOVERY_ATTEMPTS = 3;
+    const MAX_RECOVERY_ATTEMPTS = 5;
     const SPRINT_DISTANCE_THRESHOLD = 15.0;
 
+    // --- Path State ---
+    const plan: { path: THREE.Vector3[] | null, target: THREE.Vector3 | null, time: number } = {
+      path: null, target: null, time: 0
+    };
+    let deadEndPlans = 0;
+    let outcome: NavigationOutcome = 'interrupted';
+
+    const replan = (from: THREE.Vector3, to: THREE.Vector3) => {
+      plan.path = this.navGrid.findPath(from, to);
+      plan.target = to.clone();
+      plan.time = Date.now();
+      if (plan.path) {
+        logger.debug(`[Controls] Planned ${plan.path.length} waypoint(s) to (${to.x.toFixed(1)}, ${to.z.toFixed(1)}).`);
+      }
+    };
+
     while (!token.aborted && this._currentWalkToken === token) {
       if (!this._validatePlayerState("_navigateTowards")) break;
 
@@ -307,9 +505,47 @@ export class AgentControls extends System {
       if (distance <= stopDistance) {
         logger.info(`[Controls] Reached target within ${stopDistance}m.`);
         this.stopNavigation("target reached");
+        outcome = 'reached';
         break;
       }
 
+      // --- Path Planning ---
+      // A target the grid couldn't reach isn't planned for again on a timer until its backoff runs out
+      if (
+        !plan.target ||
+        horizontalDistance(plan.target, targetPos) > REPLAN_TARGET_MOVED_DISTANCE ||
+        (Date.now() - plan.time > REPLAN_INTERVAL && !this.navGrid.isBackingOff(targetPos))
+      ) {
+        replan(playerPos, targetPos);
+      }
+
+      // Drop waypoints we've already reached
+      const path = plan.path;
+      while (path && path.length > 1 && horizontalDistance(playerPos, path[0]) <= WAYPOINT_REACH_DISTANCE) {
+        path.shift();
+      }
+
+      // End of a path that stops short of the target (goal unreachable from here)
+      if (path && path.length === 1 && horizontalDistance(playerPos, path[0]) <= WAYPOINT_REACH_DISTANCE &&
+          horizontalDistance(path[0], targetPos) > stopDistance) {
+        if (++deadEndPlans > MAX_DEAD_END_PLANS) {
+          logger.warn("[Controls] Target unreachable. Stopping at the closest reachable point.");
+          this.stopNavigation("target unreachable");
+          outcome = 'unreachable';
+          break;
+        }
+        // Wait in place and plan again; a moving target may come within reach
+        this.setKey('keyW', false);
+        this.setKey('shiftLeft', false);
+        await tickDelay(REPLAN_INTERVAL / 2);
+        // Only a target that moved is worth a new search; the same one would just fail again
+        const nextTarget = getTargetPosition() ?? targetPos;
+        if (!this.navGrid.isBackingOff(nextTarget)) replan(player.base.position, nextTarget);
+        continue;
+      }
+
+      const steerTarget = path?.[0] ?? targetPos;
+
       // --- Stuck Detection ---
       const progressDistance = playerPos.distanceTo(previousPosition);
       if (progressDistance < STUCK_THRESHOLD) {
@@ -321,39 +557,21 @@ export class AgentControls extends System {
 
       if (noProgressTicks >= MAX_NO_PROGRESS_TICKS) {
         if (++recoveryAttempts > MAX_RECOVERY_ATTEMPTS) {
-          logger.error("[Controls] Max recovery attempts reached. Teleporting to target.");
-
-          const targetPos = getTargetPosition();
-          if (targetPos) {
-            const direction = targetPos.clone().sub(player.base.position).setY(0).normalize();
-            const finalPosition = targetPos.clone().addScaledVector(direction, -stopDistance);
-            const yRotation = Math.atan2(-direction.x, -direction.z);
-
-            player.teleport({
-              position: finalPosition,
-              rotationY: yRotation,
-            });
-          }
-
-          this.stopNavigation("teleported after max recovery");
+          logger.error("[Controls] Max recovery attempts reached. Giving up on navigation.");
+          this.stopNavigation("stuck after max recovery");
+          outcome = 'stuck';
           break;
         }
 
-        logger.warn("[Controls] Stuck detected. Attempting recovery rotation.");
-        const randomDir: 'left' | 'right' = Math.random() < 0.5 ? 'left' : 'right';
-        try {
-          await Promise.race([
-            this.rotateTo(randomDir, 500),
-            tickDelay(1000), // fallback timeout
-          ]);
-        } catch (e) {
-          logger.error("[Controls] Rotation during stuck recovery failed:", e);
-        }
+        // Remember what blocked us and route around it; hop in case it's a low ledge
+        logger.warn(`[Controls] Stuck detected (attempt ${recoveryAttempts}). Replanning around the obstacle.`);
+        this.navGrid.markBlocked(playerPos, steerTarget);
+        replan(playerPos, targetPos);
         this.setKey('space', true);
         noProgressTicks = 0;
       } else {
-        // Face toward target
-        const direction = targetPos.clone().sub(playerPos).setY(0).normalize();
+        // Face toward the next waypoint
+        const direction = steerTarget.clone().sub(playerPos).setY(0).normalize();
         const desiredQuat = q1.setFromUnitVectors(FORWARD, direction);
         player.base.quaternion = desiredQuat;
         const yRot = e1.setFromQuaternion(player.base.quaternion, 'YXZ').y;
@@ -370,6 +588,7 @@ export class AgentControls extends System {
 
       await tickDelay(CONTROLS_TICK_INTERVAL);
     }
+    return outcome;
   }
 
   public async rotateTo(direction: 'front' | 'back' | 'left' | 'right', duration: number = 500): Promise<void> {
@@ -418,6 +637,20 @@ export class AgentControls extends System {
     this._isRotating = false;
   }
 
+  /**
+   * Turns the agent in place to face the given yaw (radians).
+   */
+  public faceRotationY(rotationY: number): void {
+    const player = this.world?.entities?.player;
+    if (!player?.base) {
+      logger.warn("[Controls faceRotationY] Player entity not ready.");
+      return;
+    }
+    this.stopRotation();
+    player.base.quaternion.setFromEuler(e2.set(0, rotationY, 0, 'YXZ'));
+    player.cam.rotation.y = rotationY;
+  }
+
   /**
   * Stops the random walk process.
   */
@@ -472,6 +705,7 @@ export class AgentControls extends System {
   public stopAllActions(reason: string = "stopAllActions called") {
     logger.info(`[Controls] Stopping all actions. Reason: ${reason}`);
 
+    this.stopFollowing();
     this.stopRandomWalk();     // Also stops navigation
     this.stopNavigation(reason);
     this.stopRotation();
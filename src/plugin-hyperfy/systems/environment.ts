@@ -4,7 +4,7 @@ import { isNumber, isString } from 'lodash-es'
 import { System } from '../hyperfy/src/core/systems/System.js'
 import { logger } from '@elizaos/core';
 import * as THREE from 'three';
-import { PuppeteerManager } from "../managers/puppeteer-manager.js";
+import type { PuppeteerManager } from "../managers/puppeteer-manager.js";
 import { resolveUrl } from '../utils.js';
 
 interface SkyHandle {
@@ -112,7 +112,7 @@ export class AgentEnvironment extends System {
     const fogNear = isNumber(node?._fogNear) ? node._fogNear : base.fogNear
     const fogFar = isNumber(node?._fogFar) ? node._fogFar : base.fogFar
     const fogColor = isString(node?._fogColor) ? node._fogColor : base.fogColor
-    const puppeteerManager = PuppeteerManager.getInstance()
+    const puppeteerManager: PuppeteerManager = this.world.puppeteer
     const n = ++this.skyN
     let bgUUID
     if (bgUrl) {
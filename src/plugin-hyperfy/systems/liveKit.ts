@@ -11,7 +11,41 @@ import {
   AudioStream
 } from '@livekit/rtc-node';
 import { System } from '../hyperfy/src/core/systems/System';
-import { spawn } from 'node:child_process';
+import { decodeAudioToPcm } from '../utils';
+import { FrameClock, PcmMixer } from '../audio-mixer';
+
+const SAMPLE_RATE = 48000;
+const NUM_CHANNELS = 1;
+const FRAME_DURATION_MS = 100;
+const FADE_OUT_MS = 200; // ramp-down when playback is interrupted
+const SOURCE_QUEUE_MS = 1000; // how far ahead of playback AudioSource lets us queue
+const MIX_FRAME_DURATION_MS = 20; // mixed-in audio while the agent itself is quiet
+
+export type PublishOptions = {
+  onLipSync?: (weight: number) => void;
+  /**
+   * Called with every frame sent: its samples, its position in the stream, and
+   * how long until it is actually heard (ms), for animation kept in sync.
+   */
+  onFrame?: (samples: Int16Array, startSample: number, playoutDelayMs: number) => void;
+  /** Called when the first frame goes out, e.g. to measure time-to-first-audio. */
+  onFirstFrame?: (at: number) => void;
+  signal?: AbortSignal;
+};
+
+export type PublishResult = {
+  /** When the first audio frame was sent, or null if nothing was played. */
+  firstFrameAt: number | null;
+  /** How long the audio played for (ms), up to the fade-out if interrupted. */
+  playedMs: number;
+  /** How much of it is still queued to play when the call returns (ms). */
+  queuedMs: number;
+  interrupted: boolean;
+};
+
+async function* toAsyncIterable<T>(items: T[]): AsyncIterable<T> {
+  yield* items;
+}
 
 export interface LiveKitInitOptions {
   wsUrl: string;
@@ -22,6 +56,11 @@ export class AgentLiveKit extends System {
   private room: Room | null = null;
   private audioSource: AudioSource | null = null;
   private localTrack: LocalAudioTrack | null = null;
+  private mixer = new PcmMixer(SAMPLE_RATE);
+  private mixClock = new FrameClock(MIX_FRAME_DURATION_MS);
+  private mixTimer: NodeJS.Timeout | null = null;
+  private mixing = false;
+  private activeStreams = 0;
 
   constructor(world: any) {
     super(world);
@@ -45,6 +84,7 @@ export class AgentLiveKit extends System {
   }
 
   async stop(): Promise<void> {
+    this.stopMixing();
     if (this.room) {
       await this.room.disconnect();
     }
@@ -97,53 +137,95 @@ export class AgentLiveKit extends System {
   postTick() { }
   start() { }
 
-  async publishAudioStream(audioBuffer: Buffer, onLipSync?: (weight: number) => void): Promise<void> {
+  /**
+   * Streams audio to the room in real time. Aborting `options.signal` fades the voice
+   * out over the next few frames and stops, instead of playing to the end.
+   */
+  async publishAudioStream(audioBuffer: Buffer, options: PublishOptions = {}): Promise<void> {
     console.log('[LiveKit] publishAudioStream called with buffer size:', audioBuffer.length);
-    const sampleRate = 48000;
-    const numChannels = 1;
-    const frameDurationMs = 100;
-    const samplesPerFrame = (sampleRate * frameDurationMs) / 1000;
 
     console.log('[LiveKit] Converting to PCM...');
-    const int16 = await this.convertToPcm(audioBuffer, sampleRate);
+    const int16 = await decodeAudioToPcm(audioBuffer, SAMPLE_RATE);
     if (!int16 || int16.length === 0) {
       console.warn('[LiveKit] No PCM data decoded');
       return;
     }
     console.log('[LiveKit] PCM data decoded, samples:', int16.length);
 
-    if (!this.audioSource) {
-      console.log('[LiveKit] Creating audio source and track...');
-      this.audioSource = new AudioSource(sampleRate, numChannels);
-      this.localTrack = LocalAudioTrack.createAudioTrack('agent-voice', this.audioSource);
+    await this.publishPcmStream(toAsyncIterable([int16]), options);
+  }
 
-      const options = new TrackPublishOptions();
-      options.source = TrackSource.SOURCE_MICROPHONE;
-      console.log('[LiveKit] Publishing track to room...');
-      await this.room?.localParticipant.publishTrack(this.localTrack, options);
-      console.log('[LiveKit] Track published successfully');
+  /**
+   * Decodes MP3/WAV (or passes through raw PCM) to 48kHz mono 16-bit samples.
+   */
+  async decodeToPcm(audioBuffer: Buffer): Promise<Int16Array> {
+    return decodeAudioToPcm(audioBuffer, SAMPLE_RATE);
+  }
+
+  /**
+   * Streams 48kHz mono PCM to the room as chunks arrive, so playback can start
+   * before the rest of the audio exists. If a chunk is late the stream simply
+   * pauses rather than rushing to catch up. Aborting `signal` fades out and
+   * stops. Each frame of the agent's own voice is also emitted as a `speech`
+   * event, so it can be played elsewhere too.
+   */
+  async publishPcmStream(chunks: AsyncIterable<Int16Array>, options: PublishOptions = {}): Promise<PublishResult> {
+    const audioSource = await this.ensureAudioTrack();
+    // Mixed-in audio now rides along with these frames
+    this.activeStreams++;
+    try {
+      return await this.streamFrames(audioSource, chunks, options);
+    } finally {
+      this.activeStreams--;
     }
+  }
+
+  private async streamFrames(audioSource: AudioSource, chunks: AsyncIterable<Int16Array>, options: PublishOptions): Promise<PublishResult> {
+    const { onLipSync, signal, onFirstFrame, onFrame } = options;
+    const samplesPerFrame = (SAMPLE_RATE * FRAME_DURATION_MS) / 1000;
+    const fadeOutSamples = (SAMPLE_RATE * FADE_OUT_MS) / 1000;
 
     const silence = new Int16Array(samplesPerFrame);
-    await this.audioSource.captureFrame(new AudioFrame(silence, sampleRate, numChannels, silence.length));
+    await audioSource.captureFrame(new AudioFrame(silence, SAMPLE_RATE, NUM_CHANNELS, silence.length));
 
     console.log('[LiveKit] Streaming audio frames...');
-    const totalFrames = Math.ceil(int16.length / samplesPerFrame);
-    const startTime = Date.now();
-
-    for (let i = 0; i < int16.length; i += samplesPerFrame) {
-      const frameIndex = Math.floor(i / samplesPerFrame);
-      const expectedTime = startTime + (frameIndex * frameDurationMs);
+    let startTime = Date.now();
+    let frameIndex = 0;
+    let sentSamples = 0;
+    let firstFrameAt: number | null = null;
+    // The last SOURCE_QUEUE_MS of voice sent, to fade out whatever is still queued on abort
+    const recent: Int16Array[] = [];
+    let recentSamples = 0;
+    const maxRecentSamples = (SAMPLE_RATE * SOURCE_QUEUE_MS) / 1000;
+
+    const sendFrame = async (slice: Int16Array) => {
+      const expectedTime = startTime + frameIndex * FRAME_DURATION_MS;
       const currentTime = Date.now();
-
-      // Wait if we're ahead of schedule
       if (currentTime < expectedTime) {
+        // Wait if we're ahead of schedule
         await new Promise(resolve => setTimeout(resolve, expectedTime - currentTime));
+      } else if (currentTime - expectedTime > FRAME_DURATION_MS) {
+        // The next chunk was late; restart the clock instead of bursting to catch up
+        startTime = currentTime - frameIndex * FRAME_DURATION_MS;
       }
 
-      const slice = int16.slice(i, i + samplesPerFrame);
-      const frame = new AudioFrame(slice, sampleRate, numChannels, slice.length);
-      await this.audioSource.captureFrame(frame);
+      const mixed = this.mixer.hasAudio() ? this.mixer.mixInto(slice) : slice;
+      await audioSource.captureFrame(new AudioFrame(mixed, SAMPLE_RATE, NUM_CHANNELS, mixed.length));
+      (this as any).emit('speech', slice);
+      recent.push(slice);
+      recentSamples += slice.length;
+      while (recentSamples - recent[0].length >= maxRecentSamples) recentSamples -= recent.shift()!.length;
+      frameIndex++;
+      if (onFrame) {
+        // The frame just queued starts playing once everything ahead of it has
+        const sliceMs = (slice.length / SAMPLE_RATE) * 1000;
+        onFrame(slice, sentSamples, Math.max(0, audioSource.queuedDuration - sliceMs));
+      }
+      sentSamples += slice.length;
+      if (firstFrameAt === null) {
+        firstFrameAt = Date.now();
+        onFirstFrame?.(firstFrameAt);
+      }
 
       // Lip sync: calculate RMS volume and call callback
       if (onLipSync) {
@@ -152,6 +234,52 @@ export class AgentLiveKit extends System {
         const normalizedWeight = Math.min(1.0, rms / 4000);
         onLipSync(normalizedWeight);
       }
+    };
+
+    let pending = new Int16Array(0);
+    for await (const chunk of chunks) {
+      if (signal?.aborted) break;
+      const data = new Int16Array(pending.length + chunk.length);
+      data.set(pending);
+      data.set(chunk, pending.length);
+
+      let offset = 0;
+      while (data.length - offset >= samplesPerFrame && !signal?.aborted) {
+        await sendFrame(data.slice(offset, offset + samplesPerFrame));
+        offset += samplesPerFrame;
+      }
+      pending = data.slice(offset);
+      if (signal?.aborted) break;
+    }
+
+    const interrupted = !!signal?.aborted;
+    if (interrupted) {
+      // The listener is still hearing what's queued in the source. Ramp down over
+      // the next FADE_OUT_MS of it (topped up with audio not sent yet) and drop
+      // the rest, so the cut isn't a click
+      const queuedSamples = Math.min(recentSamples, Math.round((audioSource.queuedDuration * SAMPLE_RATE) / 1000));
+      const upcoming = new Int16Array(recentSamples);
+      let position = 0;
+      for (const frame of recent) {
+        upcoming.set(frame, position);
+        position += frame.length;
+      }
+      const fade = new Int16Array(fadeOutSamples);
+      const fromQueue = upcoming.subarray(recentSamples - queuedSamples).subarray(0, fadeOutSamples);
+      fade.set(fromQueue);
+      const fromPending = pending.subarray(0, fadeOutSamples - fromQueue.length);
+      fade.set(fromPending, fromQueue.length);
+      pending = fade.subarray(0, fromQueue.length + fromPending.length);
+      for (let j = 0; j < pending.length; j++) {
+        pending[j] = Math.round(pending[j] * (1 - j / fadeOutSamples));
+      }
+      audioSource.clearQueue();
+      // Send the fade right away instead of after the queue we just dropped
+      sentSamples -= queuedSamples;
+      startTime = Date.now() - frameIndex * FRAME_DURATION_MS;
+    }
+    for (let offset = 0; offset < pending.length; offset += samplesPerFrame) {
+      await sendFrame(pending.slice(offset, offset + samplesPerFrame));
     }
 
     // Reset mouth to closed when done
@@ -160,97 +288,89 @@ export class AgentLiveKit extends System {
     }
 
     const actualDuration = Date.now() - startTime;
-    console.log(`[LiveKit] Audio streaming complete (${totalFrames} frames, ${actualDuration}ms)`);
-  }
-
-  private calculateRMS(samples: Int16Array): number {
-    let sum = 0;
-    for (let i = 0; i < samples.length; i++) {
-      sum += samples[i] * samples[i];
+    if (interrupted) {
+      console.log(`[LiveKit] Audio streaming interrupted after ${actualDuration}ms`);
+    } else {
+      console.log(`[LiveKit] Audio streaming complete (${frameIndex} frames, ${actualDuration}ms)`);
     }
-    return Math.sqrt(sum / samples.length);
+    // Frames still queued in the source play after we return
+    const queuedMs = firstFrameAt === null ? 0 : audioSource.queuedDuration;
+    const playedMs = firstFrameAt === null ? 0 : Date.now() - firstFrameAt + queuedMs;
+    return { firstFrameAt, playedMs, queuedMs, interrupted };
   }
 
-  private async convertToPcm(buffer: Buffer, sampleRate = 48000): Promise<Int16Array> {
-    const format = this.detectAudioFormat(buffer);
-    console.log('[LiveKit] Detected audio format:', format);
+  /**
+   * Mixes audio from outside the room (e.g. a Discord voice channel) into
+   * the agent's track, over whatever the agent is saying. Each `source` is
+   * one speaker, buffered separately so speakers overlap instead of queueing.
+   * 48kHz mono 16-bit, pushed as it arrives.
+   */
+  mixIn(source: string, samples: Int16Array): void {
+    if (!this.room) return;
+    this.mixer.push(source, samples);
+    this.mixTimer ??= setInterval(() => {
+      this.pumpMix().catch((error) => console.warn('[LiveKit] Failed to send mixed-in audio:', error));
+    }, MIX_FRAME_DURATION_MS);
+  }
 
-    if (format === 'pcm') {
-      console.log('[LiveKit] Already PCM, no conversion needed');
-      return new Int16Array(buffer.buffer, buffer.byteOffset, buffer.length / 2);
+  /**
+   * Sends mixed-in audio on its own while the agent isn't talking; while it
+   * is, streamFrames() mixes it into the agent's frames instead.
+   */
+  private async pumpMix(): Promise<void> {
+    if (this.mixing) return;
+    if (!this.mixer.hasAudio()) {
+      this.stopMixing();
+      return;
+    }
+    if (this.activeStreams > 0) {
+      this.mixClock.reset();
+      return;
     }
 
-    const ffmpegArgs: string[] = [
-      '-f',
-      format,
-      '-i',
-      'pipe:0',
-      '-f',
-      's16le',
-      '-ar',
-      sampleRate.toString(),
-      '-ac',
-      '1',
-      'pipe:1',
-    ];
-
-    console.log('[LiveKit] Running ffmpeg to convert', format, 'to PCM...');
-    return new Promise((resolve, reject) => {
-      const ff = spawn('ffmpeg', ffmpegArgs);
-      let raw = Buffer.alloc(0);
-      let stderrOutput = '';
-
-      ff.stdout.on('data', (chunk) => {
-        raw = Buffer.concat([raw, chunk]);
-      });
-
-      ff.stderr.on('data', (data) => {
-        stderrOutput += data.toString();
-      });
-
-      ff.on('error', (err) => {
-        console.error('[LiveKit] ffmpeg spawn error:', err.message);
-        reject(err);
-      });
-
-      ff.on('close', (code) => {
-        if (code !== 0) {
-          console.error('[LiveKit] ffmpeg failed with code', code);
-          console.error('[LiveKit] ffmpeg stderr:', stderrOutput);
-          return reject(new Error(`ffmpeg failed (code ${code})`));
-        }
-        console.log('[LiveKit] ffmpeg conversion successful, output size:', raw.length);
-        const samples = new Int16Array(raw.buffer, raw.byteOffset, raw.byteLength / 2);
-        resolve(samples);
-      });
-
-      ff.stdin.write(buffer);
-      ff.stdin.end();
-    });
+    this.mixing = true;
+    try {
+      const audioSource = await this.ensureAudioTrack();
+      const samplesPerFrame = (SAMPLE_RATE * MIX_FRAME_DURATION_MS) / 1000;
+      for (let due = this.mixClock.due(); due > 0 && this.activeStreams === 0; due--) {
+        const frame = this.mixer.read(samplesPerFrame);
+        if (!frame) break;
+        await audioSource.captureFrame(new AudioFrame(frame, SAMPLE_RATE, NUM_CHANNELS, frame.length));
+      }
+    } finally {
+      this.mixing = false;
+    }
   }
 
-  private detectAudioFormat(buffer: Buffer): 'mp3' | 'wav' | 'pcm' {
-    const header = buffer.slice(0, 4).toString('ascii');
-    console.log('[LiveKit] Buffer header bytes:', buffer.slice(0, 10).toString('hex'));
-
-    // Check for WAV (RIFF header)
-    if (header === 'RIFF') return 'wav';
-
-    // Check for MP3 frame sync (0xff followed by 0xe0-0xff)
-    if (buffer[0] === 0xff && (buffer[1] & 0xe0) === 0xe0) return 'mp3';
+  private stopMixing(): void {
+    if (this.mixTimer) {
+      clearInterval(this.mixTimer);
+      this.mixTimer = null;
+    }
+    this.mixer.clear();
+    this.mixClock.reset();
+  }
 
-    // Check for ID3 tag (ID3v2 header at start of mp3)
-    if (header.startsWith('ID3')) return 'mp3';
+  private async ensureAudioTrack(): Promise<AudioSource> {
+    if (!this.audioSource) {
+      console.log('[LiveKit] Creating audio source and track...');
+      this.audioSource = new AudioSource(SAMPLE_RATE, NUM_CHANNELS, SOURCE_QUEUE_MS);
+      this.localTrack = LocalAudioTrack.createAudioTrack('agent-voice', this.audioSource);
 
-    // Check for MP3 frame sync elsewhere in first 10 bytes (some mp3s have metadata at start)
-    for (let i = 0; i < Math.min(10, buffer.length - 1); i++) {
-      if (buffer[i] === 0xff && (buffer[i + 1] & 0xe0) === 0xe0) {
-        console.log('[LiveKit] Found MP3 frame sync at offset', i);
-        return 'mp3';
-      }
+      const options = new TrackPublishOptions();
+      options.source = TrackSource.SOURCE_MICROPHONE;
+      console.log('[LiveKit] Publishing track to room...');
+      await this.room?.localParticipant.publishTrack(this.localTrack, options);
+      console.log('[LiveKit] Track published successfully');
     }
+    return this.audioSource;
+  }
 
-    console.log('[LiveKit] Format detection fallback to pcm');
-    return 'pcm';
+  private calculateRMS(samples: Int16Array): number {
+    let sum = 0;
+    for (let i = 0; i < samples.length; i++) {
+      sum += samples[i] * samples[i];
+    }
+    return Math.sqrt(sum / samples.length);
   }
-}
\ No newline at end of file
+}
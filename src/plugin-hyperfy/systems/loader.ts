@@ -5,7 +5,7 @@ import { GLTFLoader } from "../hyperfy/src/core/libs/gltfloader/GLTFLoader.js";
 import { glbToNodes } from "../hyperfy/src/core/extras/glbToNodes.js";
 import { createEmoteFactory } from "../hyperfy/src/core/extras/createEmoteFactory.js";
 import { AgentAvatar } from "./avatar.js";
-import { PuppeteerManager } from "../managers/puppeteer-manager.js";
+import type { PuppeteerManager } from "../managers/puppeteer-manager.js";
 import { promises as fsPromises } from 'fs';
 import { resolveUrl } from "../utils.js";
 
@@ -171,7 +171,7 @@ export class AgentLoader extends System {
   }
 
   async parseGLB(type: string, key: string, url: string) {
-    const puppeteerManager = PuppeteerManager.getInstance()
+    const puppeteerManager: PuppeteerManager = this.world.puppeteer
     const bytes =
       type === 'avatar' ?
         await puppeteerManager.loadVRMBytes(url) :
@@ -0,0 +1,441 @@
+import { logger } from '@elizaos/core';
+import * as THREE from 'three';
+import { Layers } from '../hyperfy/src/core/extras/Layers.js'
+
+const DOWN = new THREE.Vector3(0, -1, 0)
+const v1 = new THREE.Vector3()
+const v2 = new THREE.Vector3()
+
+// Grid Constants
+const CELL_SIZE = 0.5; // meters
+const PROBE_HEIGHT = 1.5; // how far above the reference floor a ground probe starts (kept below most ceilings)
+const PROBE_DEPTH = 4; // how far below the reference floor a ground probe may reach
+const MAX_STEP_HEIGHT = 0.45; // meters between neighbouring cells
+const MIN_GROUND_NORMAL_Y = 0.7; // ~45 degree slope limit
+const BODY_CHECK_HEIGHTS = [0.4, 1.2]; // knee and chest height for wall checks
+const MAX_SEARCH_NODES = 4000;
+const BACKOFF_SEARCH_NODES = 400; // budget while a goal is known to be unreachable
+const CELL_CACHE_TTL = 30000; // ms, worlds can change under us
+const BLOCKED_EDGE_TTL = 20000; // ms, edges the agent physically got stuck on
+const MAX_CACHED_CELLS = 20000;
+const MAX_CACHED_EDGES = 60000;
+const UNREACHABLE_BACKOFF_BASE = 5000; // ms, doubled with every failed full search
+const UNREACHABLE_BACKOFF_MAX = 120000; // ms
+
+type GridCell = { walkable: boolean; y: number; checkedAt: number };
+type GridEdge = { clear: boolean; checkedAt: number };
+type FailedGoal = { failures: number; retryAt: number };
+
+type SearchNode = {
+  i: number;
+  j: number;
+  g: number;
+  f: number;
+  parent: SearchNode | null;
+};
+
+const NEIGHBOURS: Array<[number, number]> = [
+  [1, 0], [-1, 0], [0, 1], [0, -1],
+  [1, 1], [1, -1], [-1, 1], [-1, -1],
+];
+
+/**
+ * Walkability grid sampled lazily from the PhysX scene.
+ *
+ * Cells are probed with a downward raycast for ground, and moves between
+ * neighbouring cells are checked with horizontal raycasts at knee and chest
+ * height. A* runs over the cells the search touches, so nothing is built up
+ * front and only the area around the agent is ever sampled.
+ */
+export class NavGrid {
+  private cells: Map<string, GridCell> = new Map();
+  private edges: Map<string, GridEdge> = new Map();
+  private blockedEdges: Map<string, number> = new Map();
+  private failedGoals: Map<string, FailedGoal> = new Map();
+  private prunedAt = 0;
+  private layerMask: number | undefined;
+
+  constructor(private world: any) {
+    // Only collide with static geometry and props, never with player capsules (including our own)
+    this.layerMask = Layers?.environment && Layers?.prop
+      ? Layers.environment.group | Layers.prop.group
+      : undefined;
+  }
+
+  /**
+   * Whether the physics scene is available for raycasting.
+   */
+  get available(): boolean {
+    return typeof this.world?.physics?.raycast === 'function';
+  }
+
+  /**
+   * Plans a path from `from` to `to` and returns its waypoints (ending at `to`).
+   * If the goal can't be reached within the search budget, the path leads to the
+   * closest reachable cell instead, and the goal is remembered as unreachable:
+   * until its backoff runs out, searches toward it get a much smaller budget.
+   * Returns null when no planning is possible, in which case callers should
+   * fall back to steering straight at the target.
+   */
+  findPath(from: THREE.Vector3, to: THREE.Vector3): THREE.Vector3[] | null {
+    if (!this.available) return null;
+    this.pruneCaches();
+
+    const startI = this.toGrid(from.x);
+    const startJ = this.toGrid(from.z);
+    const goalI = this.toGrid(to.x);
+    const goalJ = this.toGrid(to.z);
+    const goalKey = this.key(goalI, goalJ);
+    const failedGoal = this.failedGoals.get(goalKey);
+    const backingOff = !!failedGoal && failedGoal.retryAt > Date.now();
+    const searchBudget = backingOff ? BACKOFF_SEARCH_NODES : MAX_SEARCH_NODES;
+
+    const startCell = this.sampleCell(startI, startJ, from.y);
+    if (!startCell.walkable) {
+      // Standing somewhere odd (mid-jump, on a moving platform); nothing sensible to plan from
+      return null;
+    }
+    if (startI === goalI && startJ === goalJ) {
+      return [to.clone()];
+    }
+
+    const heuristic = (i: number, j: number) => {
+      const dx = Math.abs(i - goalI);
+      const dz = Math.abs(j - goalJ);
+      return (Math.max(dx, dz) + (Math.SQRT2 - 1) * Math.min(dx, dz)) * CELL_SIZE;
+    };
+
+    const open = new NodeHeap();
+    const best: Map<string, SearchNode> = new Map();
+    const closed: Set<string> = new Set();
+
+    const start: SearchNode = { i: startI, j: startJ, g: 0, f: heuristic(startI, startJ), parent: null };
+    open.push(start);
+    best.set(this.key(startI, startJ), start);
+
+    let closest = start;
+    let closestH = start.f;
+    let expanded = 0;
+
+    while (open.size && expanded < searchBudget) {
+      const current = open.pop()!;
+      const currentKey = this.key(current.i, current.j);
+      if (closed.has(currentKey)) continue;
+      closed.add(currentKey);
+      expanded++;
+
+      const h = heuristic(current.i, current.j);
+      if (h < closestH) {
+        closest = current;
+        closestH = h;
+      }
+      if (current.i === goalI && current.j === goalJ) {
+        closest = current;
+        closestH = 0;
+        break;
+      }
+
+      const currentY = this.cells.get(currentKey)?.y ?? from.y;
+      for (const [di, dj] of NEIGHBOURS) {
+        const ni = current.i + di;
+        const nj = current.j + dj;
+        const neighbourKey = this.key(ni, nj);
+        if (closed.has(neighbourKey)) continue;
+
+        // Diagonal moves must not cut wall corners
+        if (di !== 0 && dj !== 0) {
+          if (!this.canStep(current.i, current.j, currentY, current.i + di, current.j) ||
+              !this.canStep(current.i, current.j, currentY, current.i, current.j + dj)) {
+            continue;
+          }
+        }
+        if (!this.canStep(current.i, current.j, currentY, ni, nj)) continue;
+
+        const g = current.g + (di !== 0 && dj !== 0 ? Math.SQRT2 : 1) * CELL_SIZE;
+        const known = best.get(neighbourKey);
+        if (known && known.g <= g) continue;
+
+        const node: SearchNode = { i: ni, j: nj, g, f: g + heuristic(ni, nj), parent: current };
+        best.set(neighbourKey, node);
+        open.push(node);
+      }
+    }
+
+    const reachedGoal = closest.i === goalI && closest.j === goalJ;
+    if (reachedGoal) {
+      this.failedGoals.delete(goalKey);
+    } else if (!backingOff) {
+      const failures = (failedGoal?.failures ?? 0) + 1;
+      const delay = Math.min(UNREACHABLE_BACKOFF_BASE * 2 ** (failures - 1), UNREACHABLE_BACKOFF_MAX);
+      this.failedGoals.set(goalKey, { failures, retryAt: Date.now() + delay });
+    }
+
+    if (closest === start) {
+      logger.debug(`[NavGrid] No progress possible toward (${to.x.toFixed(1)}, ${to.z.toFixed(1)}) after ${expanded} nodes.`);
+      return null;
+    }
+
+    const waypoints: THREE.Vector3[] = [];
+    for (let node: SearchNode | null = closest; node; node = node.parent) {
+      const cell = this.cells.get(this.key(node.i, node.j));
+      waypoints.unshift(new THREE.Vector3(this.toWorld(node.i), cell?.y ?? from.y, this.toWorld(node.j)));
+    }
+    waypoints.shift(); // the start cell is where we already are
+
+    if (reachedGoal) {
+      waypoints[waypoints.length - 1] = to.clone().setY(waypoints[waypoints.length - 1].y);
+    } else {
+      logger.debug(`[NavGrid] Goal unreachable within ${expanded} nodes; planning to the closest reachable cell.`);
+    }
+
+    return this.smooth(from, waypoints);
+  }
+
+  /**
+   * Whether a recent search failed to reach the cell containing `to`, so
+   * planning toward it again is not worth it yet.
+   */
+  isBackingOff(to: THREE.Vector3): boolean {
+    const failed = this.failedGoals.get(this.key(this.toGrid(to.x), this.toGrid(to.z)));
+    return !!failed && failed.retryAt > Date.now();
+  }
+
+  /**
+   * Whether a point is on walkable ground, probing around the given floor height.
+   */
+  isWalkable(x: number, z: number, referenceY: number): boolean {
+    if (!this.available) return true;
+    return this.sampleCell(this.toGrid(x), this.toGrid(z), referenceY).walkable;
+  }
+
+  /**
+   * Marks the move from `from` toward `to` as blocked for a while, so the next
+   * plan routes around whatever the agent physically got stuck on.
+   */
+  markBlocked(from: THREE.Vector3, to: THREE.Vector3): void {
+    const i = this.toGrid(from.x);
+    const j = this.toGrid(from.z);
+    const direction = v1.copy(to).sub(from).setY(0);
+    if (direction.lengthSq() < 1e-6) return;
+    direction.normalize();
+    const ni = i + Math.round(direction.x);
+    const nj = j + Math.round(direction.z);
+    if (ni === i && nj === j) return;
+    const until = Date.now() + BLOCKED_EDGE_TTL;
+    this.blockedEdges.set(this.edgeKey(i, j, ni, nj), until);
+    this.blockedEdges.set(this.edgeKey(ni, nj, i, j), until);
+  }
+
+  /**
+   * Drops all cached samples, e.g. after a teleport into a different area.
+   */
+  clear(): void {
+    this.cells.clear();
+    this.edges.clear();
+    this.blockedEdges.clear();
+    this.failedGoals.clear();
+  }
+
+  /**
+   * Drops expired samples, then the oldest ones while over the size caps, so
+   * the caches don't grow without bound while the agent roams. Runs at most
+   * once per CELL_CACHE_TTL unless a cache is over its cap.
+   */
+  private pruneCaches(): void {
+    const now = Date.now();
+    const overCap = this.cells.size > MAX_CACHED_CELLS || this.edges.size > MAX_CACHED_EDGES;
+    if (!overCap && now - this.prunedAt < CELL_CACHE_TTL) return;
+    this.prunedAt = now;
+
+    for (const [key, cell] of this.cells) {
+      if (now - cell.checkedAt >= CELL_CACHE_TTL) this.cells.delete(key);
+    }
+    for (const [key, edge] of this.edges) {
+      if (now - edge.checkedAt >= CELL_CACHE_TTL) this.edges.delete(key);
+    }
+    for (const [key, until] of this.blockedEdges) {
+      if (until <= now) this.blockedEdges.delete(key);
+    }
+    for (const [key, failed] of this.failedGoals) {
+      if (failed.retryAt + UNREACHABLE_BACKOFF_MAX <= now) this.failedGoals.delete(key);
+    }
+    // Maps iterate in insertion order and samples are re-inserted when refreshed, so the front is oldest
+    for (const key of this.cells.keys()) {
+      if (this.cells.size <= MAX_CACHED_CELLS) break;
+      this.cells.delete(key);
+    }
+    for (const key of this.edges.keys()) {
+      if (this.edges.size <= MAX_CACHED_EDGES) break;
+      this.edges.delete(key);
+    }
+  }
+
+  // --- Sampling ---
+
+  private sampleCell(i: number, j: number, referenceY: number): GridCell {
+    const key = this.key(i, j);
+    const now = Date.now();
+    const cached = this.cells.get(key);
+    // A cached cell is reused only if it was probed around the same floor
+    if (cached && now - cached.checkedAt < CELL_CACHE_TTL &&
+        (!cached.walkable || Math.abs(cached.y - referenceY) <= PROBE_HEIGHT)) {
+      return cached;
+    }
+
+    const origin = v2.set(this.toWorld(i), referenceY + PROBE_HEIGHT, this.toWorld(j));
+    const hit = this.raycast(origin, DOWN, PROBE_HEIGHT + PROBE_DEPTH);
+    const cell: GridCell = hit && hit.normal?.y >= MIN_GROUND_NORMAL_Y
+      ? { walkable: true, y: hit.point.y, checkedAt: now }
+      : { walkable: false, y: referenceY, checkedAt: now };
+
+    this.cells.delete(key);
+    this.cells.set(key, cell);
+    return cell;
+  }
+
+  private canStep(i: number, j: number, y: number, ni: number, nj: number): boolean {
+    const neighbour = this.sampleCell(ni, nj, y);
+    if (!neighbour.walkable) return false;
+    if (Math.abs(neighbour.y - y) > MAX_STEP_HEIGHT) return false;
+
+    const edgeKey = this.edgeKey(i, j, ni, nj);
+    const blockedUntil = this.blockedEdges.get(edgeKey);
+    if (blockedUntil) {
+      if (blockedUntil > Date.now()) return false;
+      this.blockedEdges.delete(edgeKey);
+    }
+
+    const now = Date.now();
+    const cached = this.edges.get(edgeKey);
+    if (cached && now - cached.checkedAt < CELL_CACHE_TTL) return cached.clear;
+
+    const from = new THREE.Vector3(this.toWorld(i), 0, this.toWorld(j));
+    const to = new THREE.Vector3(this.toWorld(ni), 0, this.toWorld(nj));
+    const clear = this.isBodyPathClear(from, to, Math.max(y, neighbour.y));
+    this.edges.delete(edgeKey);
+    this.edges.set(edgeKey, { clear, checkedAt: now });
+    return clear;
+  }
+
+  private isBodyPathClear(from: THREE.Vector3, to: THREE.Vector3, floorY: number): boolean {
+    const direction = to.clone().sub(from).setY(0);
+    const distance = direction.length();
+    if (distance < 1e-6) return true;
+    direction.normalize();
+    for (const height of BODY_CHECK_HEIGHTS) {
+      const origin = v2.set(from.x, floorY + height, from.z);
+      if (this.raycast(origin, direction, distance)) return false;
+    }
+    return true;
+  }
+
+  /**
+   * Drops intermediate waypoints that have a clear, walkable straight line
+   * between them, so the agent doesn't zig-zag along grid cells.
+   */
+  private smooth(from: THREE.Vector3, waypoints: THREE.Vector3[]): THREE.Vector3[] {
+    if (waypoints.length <= 2) return waypoints;
+    const result: THREE.Vector3[] = [];
+    let anchor = from.clone();
+    let index = 0;
+    while (index < waypoints.length) {
+      let furthest = index;
+      for (let k = waypoints.length - 1; k > index; k--) {
+        if (this.hasWalkableLine(anchor, waypoints[k])) {
+          furthest = k;
+          break;
+        }
+      }
+      result.push(waypoints[furthest]);
+      anchor = waypoints[furthest];
+      index = furthest + 1;
+    }
+    return result;
+  }
+
+  private hasWalkableLine(a: THREE.Vector3, b: THREE.Vector3): boolean {
+    const span = Math.hypot(b.x - a.x, b.z - a.z);
+    const steps = Math.ceil(span / CELL_SIZE);
+    let previousY = a.y;
+    for (let s = 1; s <= steps; s++) {
+      const t = s / steps;
+      const x = a.x + (b.x - a.x) * t;
+      const z = a.z + (b.z - a.z) * t;
+      const cell = this.sampleCell(this.toGrid(x), this.toGrid(z), previousY);
+      if (!cell.walkable || Math.abs(cell.y - previousY) > MAX_STEP_HEIGHT) return false;
+      previousY = cell.y;
+    }
+    return this.isBodyPathClear(a, b, Math.max(a.y, b.y));
+  }
+
+  // --- Helpers ---
+
+  private raycast(origin: THREE.Vector3, direction: THREE.Vector3, maxDistance: number): any {
+    try {
+      return this.world.physics.raycast(origin, direction, maxDistance, this.layerMask);
+    } catch (error) {
+      logger.debug('[NavGrid] Raycast failed:', error);
+      return null;
+    }
+  }
+
+  private toGrid(value: number): number {
+    return Math.round(value / CELL_SIZE);
+  }
+
+  private toWorld(index: number): number {
+    return index * CELL_SIZE;
+  }
+
+  private key(i: number, j: number): string {
+    return `${i},${j}`;
+  }
+
+  private edgeKey(i: number, j: number, ni: number, nj: number): string {
+    return `${i},${j}>${ni},${nj}`;
+  }
+}
+
+/**
+ * Binary min-heap of search nodes ordered by `f`, the A* open list.
+ */
+class NodeHeap {
+  private nodes: SearchNode[] = [];
+
+  get size(): number {
+    return this.nodes.length;
+  }
+
+  push(node: SearchNode): void {
+    const nodes = this.nodes;
+    nodes.push(node);
+    let index = nodes.length - 1;
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (nodes[parent].f <= node.f) break;
+      nodes[index] = nodes[parent];
+      index = parent;
+    }
+    nodes[index] = node;
+  }
+
+  pop(): SearchNode | undefined {
+    const nodes = this.nodes;
+    const top = nodes[0];
+    const last = nodes.pop();
+    if (!nodes.length || !last) return top;
+
+    let index = 0;
+    for (;;) {
+      const left = index * 2 + 1;
+      if (left >= nodes.length) break;
+      const right = left + 1;
+      const child = right < nodes.length && nodes[right].f < nodes[left].f ? right : left;
+      if (nodes[child].f >= last.f) break;
+      nodes[index] = nodes[child];
+      index = child;
+    }
+    nodes[index] = last;
+    return top;
+  }
+}
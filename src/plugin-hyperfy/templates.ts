@@ -1,6 +1,9 @@
-export const autoTemplate = (actionsText) => `
+export const autoTemplate = (actionsText, triggerText?: string) => `
 <note>
-This is a regular behavior update from {{agentName}}, not triggered by a user message.
+This is a behavior update from {{agentName}}, not triggered by a user message.
+
+What just happened: ${triggerText || 'Nothing in particular has happened for a while.'}
+React to this if it matters (for example, greet someone who just walked up), otherwise carry on naturally.
 
 {{agentName}} is a friendly, social, and lively character who enjoys interacting with players and exploring the world. When players are nearby, {{agentName}} should be dynamic and engaging through a variety of actions:
 
@@ -42,6 +45,8 @@ ${actionsText}
 
 {{hyperfyStatus}}
 
+{{hyperfyVisitors}}
+
 {{hyperfyAnimations}}
 
 </providers>
@@ -103,6 +108,8 @@ Your task is to observe, interpret, and respond to the current moment as a fully
 
 {{hyperfyStatus}}
 
+{{hyperfyVisitors}}
+
 {{hyperfyAnimations}}
 
 </providers>
@@ -181,3 +188,58 @@ Respond using XML format like this:
 
 Your response should ONLY include the <response></response> XML block.
 </output>`
+
+export const greetingTemplate = (playerName: string, visitText: string) => `
+<task>Write the one line {{agentName}} says out loud to welcome ${playerName}, who just arrived in the Hyperfy world.</task>
+
+<providers>
+{{bio}}
+
+---
+
+{{hyperfyStatus}}
+
+</providers>
+
+<visitor>
+${visitText}
+</visitor>
+
+<instructions>
+- Greet ${playerName} by name, in {{agentName}}'s own voice.
+- If they have been here before, welcome them back and make it sound like you remember them; otherwise make them feel welcome on their first visit.
+- Keep it to one or two short sentences. Use the language ${playerName} is most likely to speak, if the world state makes that clear.
+- Only return the line itself, with no quotes, actions or extra text.
+</instructions>`;
+
+export const visitorProfileTemplate = (agentName: string, visitorName: string, profileJson: string, transcript: string) => `
+<task>Update what ${agentName} remembers about ${visitorName} after the conversation below.</task>
+
+<current_profile>
+${profileJson}
+</current_profile>
+
+<conversation>
+${transcript}
+</conversation>
+
+<instructions>
+- "language": the language ${visitorName} prefers to talk in (e.g. "English", "Japanese"), or null if unclear.
+- "topics": short phrases for what ${visitorName} asked about or wanted to talk about. Keep the useful ones from the current profile, most recent first.
+- "facts": short facts ${visitorName} shared about themselves (e.g. "is building a DAO tool", "lives in Osaka"). Keep the ones from the current profile unless the conversation contradicts them. Only include what they actually said; never guess.
+- "summary": two or three sentences on who ${visitorName} is and how your conversations with them have gone, written so ${agentName} can pick up where they left off.
+- Only record what ${visitorName} said or asked, not what ${agentName} said. Leave out anything sensitive such as passwords, keys or contact details.
+</instructions>
+
+Return a JSON object in this form:
+
+\`\`\`json
+{
+  "language": "<string or null>",
+  "topics": ["<string>"],
+  "facts": ["<string>"],
+  "summary": "<string>"
+}
+\`\`\`
+
+Only return the JSON object. Do not include any extra text or comments.`;
@@ -0,0 +1,159 @@
+import { createHash } from 'node:crypto';
+import { promises as fsPromises } from 'fs';
+import path from 'path';
+import { logger } from '@elizaos/core';
+import type { AlignedSpeech, SpeechAlignment } from './index';
+
+const MB = 1024 * 1024;
+
+export type TtsCacheStats = {
+  entries: number;
+  bytes: number;
+  maxBytes: number;
+  hits: number;
+  misses: number;
+};
+
+type CacheEntry = {
+  bytes: number;
+  lastUsedAt: number;
+};
+
+/**
+ * Content-addressed on-disk cache of synthesized speech, stored as decoded
+ * 48kHz mono WAV so playback skips ffmpeg too. Character timings, when the
+ * provider gave them, sit next to the audio in `<key>.json`. The least recently used
+ * entries are evicted once the cache grows past its size cap; last use is the
+ * file's mtime, so the order survives restarts.
+ */
+export class TtsCache {
+  private dir: string;
+  private maxBytes: number;
+  private entries: Map<string, CacheEntry> | null = null;
+  private loading: Promise<Map<string, CacheEntry>> | null = null;
+  private totalBytes = 0;
+  private hits = 0;
+  private misses = 0;
+
+  constructor(
+    dir: string = process.env.HYPERFY_TTS_CACHE_DIR || path.join(process.cwd(), 'data', 'tts-cache'),
+    maxBytes: number = parseFloat(process.env.HYPERFY_TTS_CACHE_MAX_MB || '200') * MB
+  ) {
+    this.dir = dir;
+    this.maxBytes = maxBytes;
+  }
+
+  /**
+   * The cache key for a phrase in a particular voice. `voice` must change
+   * whenever anything that affects the audio does (voice ID, model, settings).
+   */
+  static key(provider: string, voice: string, text: string): string {
+    return createHash('sha256').update(JSON.stringify([provider, voice, text.trim()])).digest('hex');
+  }
+
+  async get(key: string): Promise<AlignedSpeech | null> {
+    const entries = await this.load();
+    if (!entries.has(key)) {
+      this.misses++;
+      return null;
+    }
+    try {
+      const audio = await fsPromises.readFile(this.filePath(key));
+      const now = Date.now();
+      entries.set(key, { bytes: audio.length, lastUsedAt: now });
+      fsPromises.utimes(this.filePath(key), new Date(now), new Date(now)).catch(() => {});
+      this.hits++;
+      return { audio, alignment: await this.readAlignment(key) };
+    } catch {
+      // Deleted behind our back
+      this.forget(key);
+      this.misses++;
+      return null;
+    }
+  }
+
+  async put(key: string, wav: Buffer, alignment: SpeechAlignment | null = null): Promise<void> {
+    if (wav.length > this.maxBytes) return;
+    const entries = await this.load();
+    try {
+      if (alignment) await fsPromises.writeFile(this.alignmentPath(key), JSON.stringify(alignment));
+      await fsPromises.writeFile(this.filePath(key), wav);
+      this.forget(key);
+      entries.set(key, { bytes: wav.length, lastUsedAt: Date.now() });
+      this.totalBytes += wav.length;
+      await this.evict();
+    } catch (error) {
+      logger.warn('[TtsCache] Failed to store audio:', error);
+    }
+  }
+
+  async getStats(): Promise<TtsCacheStats> {
+    const entries = await this.load();
+    return {
+      entries: entries.size,
+      bytes: this.totalBytes,
+      maxBytes: this.maxBytes,
+      hits: this.hits,
+      misses: this.misses,
+    };
+  }
+
+  private filePath(key: string): string {
+    return path.join(this.dir, `${key}.wav`);
+  }
+
+  private alignmentPath(key: string): string {
+    return path.join(this.dir, `${key}.json`);
+  }
+
+  private async readAlignment(key: string): Promise<SpeechAlignment | null> {
+    try {
+      const alignment = JSON.parse(await fsPromises.readFile(this.alignmentPath(key), 'utf8'));
+      return Array.isArray(alignment?.characters) && Array.isArray(alignment?.startTimesMs) ? alignment : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private forget(key: string): void {
+    const entry = this.entries?.get(key);
+    if (!entry) return;
+    this.totalBytes -= entry.bytes;
+    this.entries!.delete(key);
+  }
+
+  private async evict(): Promise<void> {
+    if (!this.entries || this.totalBytes <= this.maxBytes) return;
+    const oldestFirst = Array.from(this.entries.entries()).sort((a, b) => a[1].lastUsedAt - b[1].lastUsedAt);
+    for (const [key] of oldestFirst) {
+      if (this.totalBytes <= this.maxBytes) break;
+      this.forget(key);
+      await fsPromises.rm(this.filePath(key), { force: true }).catch(() => {});
+      await fsPromises.rm(this.alignmentPath(key), { force: true }).catch(() => {});
+    }
+  }
+
+  private load(): Promise<Map<string, CacheEntry>> {
+    if (this.entries) return Promise.resolve(this.entries);
+    this.loading ??= (async () => {
+      const entries: Map<string, CacheEntry> = new Map();
+      try {
+        await fsPromises.mkdir(this.dir, { recursive: true });
+        for (const file of await fsPromises.readdir(this.dir)) {
+          if (!file.endsWith('.wav')) continue;
+          const stat = await fsPromises.stat(path.join(this.dir, file)).catch(() => null);
+          if (!stat) continue;
+          entries.set(file.slice(0, -'.wav'.length), { bytes: stat.size, lastUsedAt: stat.mtimeMs });
+          this.totalBytes += stat.size;
+        }
+      } catch (error) {
+        logger.warn(`[TtsCache] Could not read ${this.dir}, starting empty:`, error);
+      }
+      this.entries = entries;
+      logger.info(`[TtsCache] ${entries.size} cached phrase(s), ${(this.totalBytes / MB).toFixed(1)}MB in ${this.dir}`);
+      await this.evict();
+      return entries;
+    })();
+    return this.loading;
+  }
+}
@@ -0,0 +1,284 @@
+import { IAgentRuntime, ModelType, logger } from '@elizaos/core';
+import { promises as fsPromises } from 'fs';
+import path from 'path';
+import {
+  convertToAudioBuffer,
+  decodeAudioToPcm,
+  generateElevenLabsTTS,
+  generateElevenLabsTTSWithTimestamps,
+  generateOpenAITTS,
+  getElevenLabsSettings,
+  getOpenAITtsSettings,
+  getWavHeader,
+  splitIntoSentences,
+} from '../utils';
+import { estimateTokens, getBudgetManager, useModelWithBudget } from '../budget';
+import { LocalTtsProvider } from './local';
+import { TtsCache, type TtsCacheStats } from './cache';
+
+// A provider that just failed is skipped for a while, so an outage doesn't
+// cost a failed request (and its latency) for every sentence
+const FAILURE_COOLDOWN_MS = 60000;
+
+export const DEFAULT_TTS_CHAIN = ['elevenlabs', 'openai', 'model', 'local'];
+
+const HYPERFY_LIPSYNC_ENABLED = process.env.HYPERFY_LIPSYNC_ENABLED !== 'false';
+const HYPERFY_TTS_CACHE_ENABLED = process.env.HYPERFY_TTS_CACHE_ENABLED !== 'false';
+const HYPERFY_TTS_PREWARM_FILE = process.env.HYPERFY_TTS_PREWARM_FILE || path.join(process.cwd(), 'tts-phrases.json');
+const CACHE_SAMPLE_RATE = 48000;
+
+/**
+ * A text-to-speech engine. `synthesize` returns encoded audio (MP3, WAV or
+ * raw 48kHz PCM) or null when it couldn't produce any.
+ */
+export interface TtsProvider {
+  readonly name: string;
+  /** Whether it is configured at all (API key present, model file set, ...). */
+  isAvailable(): boolean;
+  synthesize(text: string): Promise<Buffer | null>;
+  /**
+   * Like `synthesize`, plus when each character is spoken. Used for lip sync
+   * by providers that can report it.
+   */
+  synthesizeWithAlignment?(text: string): Promise<AlignedSpeech | null>;
+  /**
+   * Identifies the voice the audio is produced with (voice ID, model and
+   * settings). Providers without one aren't cached.
+   */
+  getVoiceKey?(): string;
+}
+
+/**
+ * Character timings from a TTS provider, relative to the start of the audio.
+ */
+export type SpeechAlignment = {
+  characters: string[];
+  startTimesMs: number[];
+};
+
+export type AlignedSpeech = {
+  audio: Buffer;
+  alignment: SpeechAlignment | null;
+};
+
+export type SpeechResult = {
+  audio: Buffer;
+  provider: string;
+  alignment: SpeechAlignment | null;
+  /** Served from the TTS cache rather than synthesized. */
+  cached: boolean;
+};
+
+export type PrewarmResult = {
+  cached: number;
+  synthesized: number;
+  failed: number;
+  /** Left for later because the LLM budget ran low. */
+  skipped: number;
+};
+
+const elevenLabsProvider: TtsProvider = {
+  name: 'elevenlabs',
+  isAvailable: () => !!process.env.ELEVENLABS_XI_API_KEY,
+  synthesize: (text) => generateElevenLabsTTS(text),
+  synthesizeWithAlignment: (text) => generateElevenLabsTTSWithTimestamps(text),
+  getVoiceKey: () => JSON.stringify(getElevenLabsSettings()),
+};
+
+const openAIProvider: TtsProvider = {
+  name: 'openai',
+  isAvailable: () => !!process.env.OPENAI_API_KEY,
+  synthesize: (text) => generateOpenAITTS(text),
+  getVoiceKey: () => JSON.stringify(getOpenAITtsSettings()),
+};
+
+/**
+ * Whatever TEXT_TO_SPEECH model the runtime's plugins provide.
+ */
+function createModelProvider(runtime: IAgentRuntime): TtsProvider {
+  return {
+    name: 'model',
+    isAvailable: () => true,
+    synthesize: async (text) => {
+      const response = await useModelWithBudget(runtime, 'voice', ModelType.TEXT_TO_SPEECH, text);
+      return response ? convertToAudioBuffer(response) : null;
+    },
+    // Whichever plugin serves the model reads the character's voice settings
+    getVoiceKey: () => JSON.stringify(runtime.character?.settings?.voice ?? null),
+  };
+}
+
+/**
+ * The TTS engines an agent can speak with, tried in the order configured by
+ * `HYPERFY_TTS_PROVIDERS` or the character's `settings.voice.providers`.
+ */
+export class TtsRegistry {
+  private runtime: IAgentRuntime;
+  private providers: Map<string, TtsProvider> = new Map();
+  private failedAt: Map<string, number> = new Map();
+  private cache: TtsCache | null = HYPERFY_TTS_CACHE_ENABLED ? new TtsCache() : null;
+
+  constructor(runtime: IAgentRuntime) {
+    this.runtime = runtime;
+    this.register(elevenLabsProvider);
+    this.register(openAIProvider);
+    this.register(createModelProvider(runtime));
+    this.register(new LocalTtsProvider());
+  }
+
+  /**
+   * Adds a provider, replacing any existing one with the same name.
+   */
+  register(provider: TtsProvider): void {
+    this.providers.set(provider.name, provider);
+  }
+
+  getProvider(name: string): TtsProvider | null {
+    return this.providers.get(name) || null;
+  }
+
+  /**
+   * Names of the providers to try, in order.
+   */
+  getConfiguredChain(): string[] {
+    const configured = process.env.HYPERFY_TTS_PROVIDERS
+      || (this.runtime.character?.settings?.voice as Record<string, unknown> | undefined)?.providers;
+    const names = Array.isArray(configured)
+      ? configured
+      : typeof configured === 'string' ? configured.split(',') : DEFAULT_TTS_CHAIN;
+    return names.map((name) => String(name).trim().toLowerCase()).filter(Boolean);
+  }
+
+  /**
+   * The configured providers that can run right now.
+   */
+  getChain(): TtsProvider[] {
+    const chain: TtsProvider[] = [];
+    for (const name of this.getConfiguredChain()) {
+      const provider = this.providers.get(name);
+      if (!provider) {
+        logger.warn(`[TTS] Unknown TTS provider "${name}"`);
+        continue;
+      }
+      if (provider.isAvailable()) chain.push(provider);
+    }
+    return chain;
+  }
+
+  /**
+   * Synthesizes with the first provider in the chain that succeeds. A phrase
+   * a provider has spoken before in the same voice comes from the cache.
+   */
+  async synthesize(text: string): Promise<SpeechResult | null> {
+    const chain = this.getChain();
+    const now = Date.now();
+    // Providers in their failure cooldown are only tried when nothing else is left
+    const ready = chain.filter((provider) => now - (this.failedAt.get(provider.name) ?? 0) >= FAILURE_COOLDOWN_MS);
+    const cooling = chain.filter((provider) => !ready.includes(provider));
+
+    for (const provider of [...ready, ...cooling]) {
+      const cacheKey = this.cache && provider.getVoiceKey ? TtsCache.key(provider.name, provider.getVoiceKey(), text) : null;
+      if (cacheKey) {
+        const cached = await this.cache!.get(cacheKey);
+        if (cached) return { ...cached, provider: provider.name, cached: true };
+      }
+
+      try {
+        const speech = HYPERFY_LIPSYNC_ENABLED && provider.synthesizeWithAlignment
+          ? await provider.synthesizeWithAlignment(text)
+          : { audio: await provider.synthesize(text), alignment: null };
+        if (speech?.audio?.length) {
+          this.failedAt.delete(provider.name);
+          const audio = cacheKey ? await this.store(cacheKey, speech.audio, speech.alignment) : speech.audio;
+          return { audio, alignment: speech.alignment, provider: provider.name, cached: false };
+        }
+      } catch (error) {
+        logger.warn(`[TTS] ${provider.name} failed:`, error);
+      }
+      this.failedAt.set(provider.name, Date.now());
+      logger.info(`[TTS] ${provider.name} produced no audio, trying the next provider`);
+    }
+
+    if (!chain.length) {
+      logger.warn(`[TTS] No TTS provider available (chain: ${this.getConfiguredChain().join(', ')})`);
+    }
+    return null;
+  }
+
+  /**
+   * Decodes fresh audio to 48kHz WAV and caches it. Returns the decoded WAV,
+   * or the original audio if decoding failed.
+   */
+  private async store(cacheKey: string, audio: Buffer, alignment: SpeechAlignment | null): Promise<Buffer> {
+    try {
+      const samples = await decodeAudioToPcm(audio, CACHE_SAMPLE_RATE);
+      const pcm = Buffer.from(samples.buffer, samples.byteOffset, samples.byteLength);
+      const wav = Buffer.concat([getWavHeader(pcm.length, CACHE_SAMPLE_RATE), pcm]);
+      await this.cache!.put(cacheKey, wav, alignment);
+      return wav;
+    } catch (error) {
+      logger.warn('[TTS] Could not decode audio for the cache:', error);
+      return audio;
+    }
+  }
+
+  /**
+   * Makes sure stock phrases are cached, so they play instantly and cost
+   * nothing. Phrases default to the list in `tts-phrases.json`. They are split
+   * into sentences the same way speech is, so the cache entries match.
+   * Synthesis is charged to the budget, and pre-warming stops once it runs low.
+   */
+  async prewarm(phrases?: string[]): Promise<PrewarmResult> {
+    const result: PrewarmResult = { cached: 0, synthesized: 0, failed: 0, skipped: 0 };
+    if (!this.cache) {
+      logger.warn('[TTS] The TTS cache is disabled, nothing to pre-warm');
+      return result;
+    }
+    const sentences = (phrases ?? await loadPrewarmPhrases()).flatMap((phrase) => splitIntoSentences(phrase));
+    const budget = getBudgetManager(this.runtime);
+    for (const [index, sentence] of sentences.entries()) {
+      if (!budget.allowsAutonomy()) {
+        result.skipped = sentences.length - index;
+        logger.info(`[TTS] LLM budget is running low, leaving ${result.skipped} phrase(s) for later.`);
+        break;
+      }
+      const speech = await this.synthesize(sentence);
+      if (!speech) result.failed++;
+      else if (speech.cached) result.cached++;
+      else {
+        result.synthesized++;
+        // The model provider charges itself, and local engines are free
+        if (speech.provider !== 'model' && speech.provider !== 'local') {
+          budget.record('tts', speech.provider, estimateTokens(sentence));
+        }
+      }
+    }
+    logger.info(`[TTS] Pre-warmed the TTS cache: ${result.synthesized} new, ${result.cached} already cached, ${result.failed} failed, ${result.skipped} skipped`);
+    return result;
+  }
+
+  async getCacheStats(): Promise<TtsCacheStats | null> {
+    return this.cache ? this.cache.getStats() : null;
+  }
+}
+
+async function loadPrewarmPhrases(): Promise<string[]> {
+  try {
+    const phrases = JSON.parse(await fsPromises.readFile(HYPERFY_TTS_PREWARM_FILE, 'utf8'));
+    return Array.isArray(phrases) ? phrases.filter((phrase) => typeof phrase === 'string' && phrase.trim()) : [];
+  } catch (error) {
+    logger.warn(`[TTS] Could not read stock phrases from ${HYPERFY_TTS_PREWARM_FILE}:`, error);
+    return [];
+  }
+}
+
+const ttsRegistries = new Map<string, TtsRegistry>();
+
+export function getTtsRegistry(runtime: IAgentRuntime): TtsRegistry {
+  let registry = ttsRegistries.get(runtime.agentId);
+  if (!registry) {
+    registry = new TtsRegistry(runtime);
+    ttsRegistries.set(runtime.agentId, registry);
+  }
+  return registry;
+}
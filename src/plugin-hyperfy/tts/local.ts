@@ -0,0 +1,122 @@
+import { spawn } from 'node:child_process';
+import { promises as fsPromises } from 'fs';
+import { logger } from '@elizaos/core';
+import { getWavHeader } from '../utils';
+import type { TtsProvider } from './index';
+
+const SYNTHESIS_TIMEOUT_MS = 30000;
+const DEFAULT_PIPER_SAMPLE_RATE = 22050;
+
+type LocalEngine = 'piper' | 'espeak';
+
+/**
+ * Speech from a local command-line engine, so the agent can talk with no
+ * cloud key. Piper (neural, needs a downloaded `.onnx` voice) is used when
+ * `HYPERFY_PIPER_MODEL` is set; otherwise espeak-ng, which sounds robotic but
+ * is in most distro package managers.
+ */
+export class LocalTtsProvider implements TtsProvider {
+  readonly name = 'local';
+  private missingBinary: string | null = null;
+  private piperSampleRate: number | null = null;
+
+  private getEngine(): LocalEngine {
+    const configured = process.env.HYPERFY_LOCAL_TTS_ENGINE?.toLowerCase();
+    if (configured === 'piper' || configured === 'espeak') return configured;
+    return process.env.HYPERFY_PIPER_MODEL ? 'piper' : 'espeak';
+  }
+
+  isAvailable(): boolean {
+    if (this.missingBinary) return false;
+    return this.getEngine() === 'espeak' || !!process.env.HYPERFY_PIPER_MODEL;
+  }
+
+  getVoiceKey(): string {
+    const engine = this.getEngine();
+    return JSON.stringify(engine === 'piper'
+      ? { engine, model: process.env.HYPERFY_PIPER_MODEL }
+      : { engine, voice: process.env.HYPERFY_ESPEAK_VOICE || 'en-us', speed: process.env.HYPERFY_ESPEAK_SPEED || null });
+  }
+
+  async synthesize(text: string): Promise<Buffer | null> {
+    return this.getEngine() === 'piper' ? this.synthesizePiper(text) : this.synthesizeEspeak(text);
+  }
+
+  private async synthesizePiper(text: string): Promise<Buffer | null> {
+    const model = process.env.HYPERFY_PIPER_MODEL;
+    if (!model) return null;
+    const binary = process.env.HYPERFY_PIPER_BINARY || 'piper';
+    const pcm = await this.run(binary, ['--model', model, '--output-raw'], text);
+    if (!pcm?.length) return null;
+    // Piper writes headerless PCM at the voice's own rate; a WAV header lets ffmpeg resample it
+    const sampleRate = await this.getPiperSampleRate(model);
+    return Buffer.concat([getWavHeader(pcm.length, sampleRate), pcm]);
+  }
+
+  private async synthesizeEspeak(text: string): Promise<Buffer | null> {
+    const binary = process.env.HYPERFY_ESPEAK_BINARY || 'espeak-ng';
+    const args = ['--stdout', '--stdin', '-v', process.env.HYPERFY_ESPEAK_VOICE || 'en-us'];
+    if (process.env.HYPERFY_ESPEAK_SPEED) args.push('-s', process.env.HYPERFY_ESPEAK_SPEED);
+    // espeak-ng writes a complete WAV file to stdout
+    return this.run(binary, args, text);
+  }
+
+  /**
+   * The sample rate from the voice's `<model>.json` config, as Piper expects it.
+   */
+  private async getPiperSampleRate(model: string): Promise<number> {
+    if (this.piperSampleRate) return this.piperSampleRate;
+    const configured = parseInt(process.env.HYPERFY_PIPER_SAMPLE_RATE || '', 10);
+    if (configured > 0) return configured;
+    try {
+      const config = JSON.parse(await fsPromises.readFile(`${model}.json`, 'utf8'));
+      this.piperSampleRate = config?.audio?.sample_rate || DEFAULT_PIPER_SAMPLE_RATE;
+    } catch {
+      this.piperSampleRate = DEFAULT_PIPER_SAMPLE_RATE;
+    }
+    return this.piperSampleRate;
+  }
+
+  private run(binary: string, args: string[], input: string): Promise<Buffer | null> {
+    return new Promise((resolve) => {
+      const child = spawn(binary, args);
+      const chunks: Buffer[] = [];
+      let stderr = '';
+      let failed = false;
+      const timer = setTimeout(() => {
+        logger.warn(`[TTS] ${binary} took longer than ${SYNTHESIS_TIMEOUT_MS}ms, giving up`);
+        child.kill();
+      }, SYNTHESIS_TIMEOUT_MS);
+
+      child.stdout.on('data', (chunk) => chunks.push(Buffer.from(chunk)));
+      child.stderr.on('data', (data) => {
+        stderr += data.toString();
+      });
+      child.on('error', (error: NodeJS.ErrnoException) => {
+        clearTimeout(timer);
+        failed = true;
+        if (error.code === 'ENOENT') {
+          // Not installed; stop offering local speech until restart
+          this.missingBinary = binary;
+          logger.warn(`[TTS] ${binary} not found, local TTS disabled`);
+        } else {
+          logger.error(`[TTS] Failed to run ${binary}: ${error.message}`);
+        }
+        resolve(null);
+      });
+      child.on('close', (code) => {
+        clearTimeout(timer);
+        if (failed) return;
+        if (code !== 0) {
+          logger.warn(`[TTS] ${binary} exited with code ${code}: ${stderr.trim()}`);
+          return resolve(null);
+        }
+        resolve(Buffer.concat(chunks));
+      });
+
+      child.stdin.on('error', () => {}); // the process may exit before reading everything
+      child.stdin.write(input);
+      child.stdin.end();
+    });
+  }
+}
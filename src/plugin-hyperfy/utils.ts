@@ -1,4 +1,5 @@
 import { Readable } from 'node:stream';
+import { spawn } from 'node:child_process';
 import { promises as fsPromises } from 'fs';
 import type { Action, IAgentRuntime, Memory, State } from '@elizaos/core';
 import { fileURLToPath } from 'url';
@@ -192,32 +193,238 @@ export function getWavHeader(
   return wavHeader;
 }
 
+export type AudioFormat = 'mp3' | 'wav' | 'pcm';
+
+export function detectAudioFormat(buffer: Buffer): AudioFormat {
+  const header = buffer.slice(0, 4).toString('ascii');
+  console.log('[LiveKit] Buffer header bytes:', buffer.slice(0, 10).toString('hex'));
+
+  // Check for WAV (RIFF header)
+  if (header === 'RIFF') return 'wav';
+
+  // Check for MP3 frame sync (0xff followed by 0xe0-0xff)
+  if (buffer[0] === 0xff && (buffer[1] & 0xe0) === 0xe0) return 'mp3';
+
+  // Check for ID3 tag (ID3v2 header at start of mp3)
+  if (header.startsWith('ID3')) return 'mp3';
+
+  // Check for MP3 frame sync elsewhere in first 10 bytes (some mp3s have metadata at start)
+  for (let i = 0; i < Math.min(10, buffer.length - 1); i++) {
+    if (buffer[i] === 0xff && (buffer[i + 1] & 0xe0) === 0xe0) {
+      console.log('[LiveKit] Found MP3 frame sync at offset', i);
+      return 'mp3';
+    }
+  }
+
+  console.log('[LiveKit] Format detection fallback to pcm');
+  return 'pcm';
+}
+
+/**
+ * The samples of a WAV file that is already 16-bit mono PCM at `sampleRate`,
+ * or null if it needs converting.
+ */
+function readPcmWav(buffer: Buffer, sampleRate: number): Int16Array | null {
+  if (buffer.length < 44 || buffer.toString('ascii', 8, 12) !== 'WAVE') return null;
+  let offset = 12;
+  let isTargetFormat = false;
+  while (offset + 8 <= buffer.length) {
+    const chunkId = buffer.toString('ascii', offset, offset + 4);
+    const chunkSize = buffer.readUInt32LE(offset + 4);
+    if (chunkId === 'fmt ') {
+      isTargetFormat =
+        buffer.readUInt16LE(offset + 8) === 1 && // integer PCM
+        buffer.readUInt16LE(offset + 10) === 1 &&
+        buffer.readUInt32LE(offset + 12) === sampleRate &&
+        buffer.readUInt16LE(offset + 22) === 16;
+    } else if (chunkId === 'data') {
+      if (!isTargetFormat) return null;
+      const end = Math.min(buffer.length, offset + 8 + chunkSize);
+      const data = buffer.subarray(offset + 8, end - ((end - offset - 8) % 2));
+      // Copy so the samples are 2-byte aligned whatever the buffer's offset
+      return new Int16Array(data.buffer.slice(data.byteOffset, data.byteOffset + data.length));
+    }
+    offset += 8 + chunkSize + (chunkSize % 2);
+  }
+  return null;
+}
+
+/**
+ * Decodes MP3/WAV (or passes through raw PCM) to 16-bit mono samples at
+ * `sampleRate`. WAV that is already in that format is read directly;
+ * anything else goes through ffmpeg.
+ */
+export async function decodeAudioToPcm(buffer: Buffer, sampleRate = 48000): Promise<Int16Array> {
+  const format = detectAudioFormat(buffer);
+  console.log('[LiveKit] Detected audio format:', format);
+
+  if (format === 'pcm') {
+    console.log('[LiveKit] Already PCM, no conversion needed');
+    return new Int16Array(buffer.buffer, buffer.byteOffset, buffer.length / 2);
+  }
+
+  if (format === 'wav') {
+    const samples = readPcmWav(buffer, sampleRate);
+    if (samples) {
+      console.log('[LiveKit] WAV is already PCM at the target rate, no conversion needed');
+      return samples;
+    }
+  }
+
+  const ffmpegArgs: string[] = [
+    '-f',
+    format,
+    '-i',
+    'pipe:0',
+    '-f',
+    's16le',
+    '-ar',
+    sampleRate.toString(),
+    '-ac',
+    '1',
+    'pipe:1',
+  ];
+
+  console.log('[LiveKit] Running ffmpeg to convert', format, 'to PCM...');
+  return new Promise((resolve, reject) => {
+    const ff = spawn('ffmpeg', ffmpegArgs);
+    let raw = Buffer.alloc(0);
+    let stderrOutput = '';
+
+    ff.stdout.on('data', (chunk) => {
+      raw = Buffer.concat([raw, chunk]);
+    });
+
+    ff.stderr.on('data', (data) => {
+      stderrOutput += data.toString();
+    });
+
+    ff.on('error', (err) => {
+      console.error('[LiveKit] ffmpeg spawn error:', err.message);
+      reject(err);
+    });
+
+    ff.on('close', (code) => {
+      if (code !== 0) {
+        console.error('[LiveKit] ffmpeg failed with code', code);
+        console.error('[LiveKit] ffmpeg stderr:', stderrOutput);
+        return reject(new Error(`ffmpeg failed (code ${code})`));
+      }
+      console.log('[LiveKit] ffmpeg conversion successful, output size:', raw.length);
+      const samples = new Int16Array(raw.buffer, raw.byteOffset, raw.byteLength / 2);
+      resolve(samples);
+    });
+
+    ff.stdin.write(buffer);
+    ff.stdin.end();
+  });
+}
+
+export type ElevenLabsSettings = {
+  voiceId: string;
+  modelId: string;
+  stability: number;
+  similarityBoost: number;
+  style: number;
+  useSpeakerBoost: boolean;
+  outputFormat: string;
+};
+
+/**
+ * ElevenLabs voice settings from the environment.
+ */
+export function getElevenLabsSettings(): ElevenLabsSettings {
+  return {
+    voiceId: process.env.ELEVENLABS_VOICE_ID || 'EXAVITQu4vr4xnSDxMaL',
+    modelId: process.env.ELEVENLABS_MODEL_ID || 'eleven_multilingual_v2',
+    stability: parseFloat(process.env.ELEVENLABS_VOICE_STABILITY || '0.5'),
+    similarityBoost: parseFloat(process.env.ELEVENLABS_VOICE_SIMILARITY_BOOST || '0.9'),
+    style: parseFloat(process.env.ELEVENLABS_VOICE_STYLE || '0.66'),
+    useSpeakerBoost: process.env.ELEVENLABS_VOICE_USE_SPEAKER_BOOST === 'true',
+    // Use mp3_44100_128 for better compatibility with LiveKit
+    // pcm_16000 causes audio to play at wrong speed because LiveKit expects 48000Hz
+    // mp3 format will be properly converted by ffmpeg to the correct sample rate
+    outputFormat: process.env.ELEVENLABS_OUTPUT_FORMAT || 'mp3_44100_128',
+  };
+}
+
+/**
+ * OpenAI TTS settings from the environment.
+ */
+export function getOpenAITtsSettings(): { model: string; voice: string } {
+  return {
+    model: process.env.OPENAI_TTS_MODEL || 'tts-1',
+    voice: process.env.OPENAI_TTS_VOICE || 'nova',
+  };
+}
+
 /**
  * Direct ElevenLabs TTS API call
  * @param text - Text to convert to speech
  * @returns Buffer containing the audio data (PCM format)
  */
 export async function generateElevenLabsTTS(text: string): Promise<Buffer | null> {
+  const response = await requestElevenLabsSpeech(text, false);
+  if (!response) return null;
+
+  try {
+    const arrayBuffer = await response.arrayBuffer();
+    const buffer = Buffer.from(arrayBuffer);
+    console.log(`[ElevenLabs TTS] Successfully generated ${buffer.length} bytes of audio`);
+    return buffer;
+  } catch (error) {
+    console.error('[ElevenLabs TTS] Error:', error);
+    return null;
+  }
+}
+
+/**
+ * ElevenLabs TTS with character timings, for lip sync
+ * @param text - Text to convert to speech
+ * @returns The audio plus when each character starts (ms from the start of the audio)
+ */
+export async function generateElevenLabsTTSWithTimestamps(
+  text: string
+): Promise<{ audio: Buffer; alignment: { characters: string[]; startTimesMs: number[] } | null } | null> {
+  const response = await requestElevenLabsSpeech(text, true);
+  if (!response) return null;
+
+  try {
+    const json = await response.json() as {
+      audio_base64?: string;
+      alignment?: { characters?: string[]; character_start_times_seconds?: number[] };
+    };
+    if (!json.audio_base64) return null;
+    const audio = Buffer.from(json.audio_base64, 'base64');
+    const characters = json.alignment?.characters;
+    const startTimes = json.alignment?.character_start_times_seconds;
+    console.log(`[ElevenLabs TTS] Successfully generated ${audio.length} bytes of audio with timestamps`);
+    return {
+      audio,
+      alignment: characters && startTimes && characters.length === startTimes.length
+        ? { characters, startTimesMs: startTimes.map((seconds) => seconds * 1000) }
+        : null,
+    };
+  } catch (error) {
+    console.error('[ElevenLabs TTS] Error:', error);
+    return null;
+  }
+}
+
+async function requestElevenLabsSpeech(text: string, withTimestamps: boolean): Promise<Response | null> {
   const apiKey = process.env.ELEVENLABS_XI_API_KEY;
   if (!apiKey) {
     console.error('[ElevenLabs TTS] No ELEVENLABS_XI_API_KEY found in environment');
     return null;
   }
 
-  const voiceId = process.env.ELEVENLABS_VOICE_ID || 'EXAVITQu4vr4xnSDxMaL';
-  const modelId = process.env.ELEVENLABS_MODEL_ID || 'eleven_multilingual_v2';
-  const stability = parseFloat(process.env.ELEVENLABS_VOICE_STABILITY || '0.5');
-  const similarityBoost = parseFloat(process.env.ELEVENLABS_VOICE_SIMILARITY_BOOST || '0.9');
-  const style = parseFloat(process.env.ELEVENLABS_VOICE_STYLE || '0.66');
-  // Use mp3_44100_128 for better compatibility with LiveKit
-  // pcm_16000 causes audio to play at wrong speed because LiveKit expects 48000Hz
-  // mp3 format will be properly converted by ffmpeg to the correct sample rate
-  const outputFormat = process.env.ELEVENLABS_OUTPUT_FORMAT || 'mp3_44100_128';
+  const { voiceId, modelId, stability, similarityBoost, style, useSpeakerBoost, outputFormat } = getElevenLabsSettings();
 
   console.log(`[ElevenLabs TTS] Generating speech with voiceId=${voiceId}, model=${modelId}, format=${outputFormat}`);
 
   try {
-    const response = await fetch(`https://api.elevenlabs.io/v1/text-to-speech/${voiceId}?output_format=${outputFormat}`, {
+    const endpoint = withTimestamps ? `${voiceId}/with-timestamps` : voiceId;
+    const response = await fetch(`https://api.elevenlabs.io/v1/text-to-speech/${endpoint}?output_format=${outputFormat}`, {
       method: 'POST',
       headers: {
         'xi-api-key': apiKey,
@@ -230,7 +437,7 @@ export async function generateElevenLabsTTS(text: string): Promise<Buffer | null
           stability: stability,
           similarity_boost: similarityBoost,
           style: style,
-          use_speaker_boost: process.env.ELEVENLABS_VOICE_USE_SPEAKER_BOOST === 'true',
+          use_speaker_boost: useSpeakerBoost,
         },
       }),
     });
@@ -240,11 +447,7 @@ export async function generateElevenLabsTTS(text: string): Promise<Buffer | null
       console.error(`[ElevenLabs TTS] API error ${response.status}: ${errorText}`);
       return null;
     }
-
-    const arrayBuffer = await response.arrayBuffer();
-    const buffer = Buffer.from(arrayBuffer);
-    console.log(`[ElevenLabs TTS] Successfully generated ${buffer.length} bytes of audio`);
-    return buffer;
+    return response;
   } catch (error) {
     console.error('[ElevenLabs TTS] Error:', error);
     return null;
@@ -263,8 +466,7 @@ export async function generateOpenAITTS(text: string): Promise<Buffer | null> {
     return null;
   }
 
-  const model = process.env.OPENAI_TTS_MODEL || 'tts-1';
-  const voice = process.env.OPENAI_TTS_VOICE || 'nova';
+  const { model, voice } = getOpenAITtsSettings();
 
   console.log(`[OpenAI TTS Direct] Generating speech with model=${model}, voice=${voice}`);
   console.log(`[OpenAI TTS Direct] API Key present: ${apiKey.substring(0, 10)}...`);
@@ -299,3 +501,111 @@ export async function generateOpenAITTS(text: string): Promise<Buffer | null> {
     return null;
   }
 }
+
+// Scripts written without spaces between words, where a name can't be matched on word boundaries
+const UNSPACED_SCRIPT = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}\p{Script=Thai}]/u;
+
+/**
+ * Whether `name` appears in `text` as a word of its own (case-insensitive),
+ * so "Coo" matches "hey coo!" but not "cool".
+ */
+export function mentionsName(text: string, name: string): boolean {
+  const haystack = text.normalize('NFKC').toLowerCase();
+  const needle = name.normalize('NFKC').toLowerCase().trim();
+  if (!needle) return false;
+  if (UNSPACED_SCRIPT.test(needle)) return haystack.includes(needle);
+  const escaped = needle.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(^|[^\\p{L}\\p{N}])${escaped}($|[^\\p{L}\\p{N}])`, 'u').test(haystack);
+}
+
+const MIN_CHUNK_CHARS = 20;
+const MAX_CHUNK_CHARS = 240;
+const CJK_STOPS = '。！？';
+const WESTERN_STOPS = '.!?';
+const CLOSERS = `"'”’)」』）`;
+
+/**
+ * Splits a reply into sentence-sized pieces for streaming speech. Very short
+ * sentences are joined to the next so each request is worth its overhead,
+ * except the first, which is kept short so the agent starts talking sooner.
+ */
+export function splitIntoSentences(text: string): string[] {
+  const sentences: string[] = [];
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    let end = -1;
+    if (char === '\n') {
+      end = i;
+    } else if (CJK_STOPS.includes(char) || WESTERN_STOPS.includes(char)) {
+      let j = i + 1;
+      while (j < text.length && (CJK_STOPS + WESTERN_STOPS + CLOSERS).includes(text[j])) j++;
+      // Western stops only end a sentence before whitespace, so "1.5" stays whole
+      if (CJK_STOPS.includes(char) || j === text.length || /\s/.test(text[j])) end = j;
+      i = j - 1;
+    }
+    if (end < 0) continue;
+    const sentence = text.slice(start, end).trim();
+    if (sentence) sentences.push(...splitLongSentence(sentence));
+    start = end;
+  }
+  const rest = text.slice(start).trim();
+  if (rest) sentences.push(...splitLongSentence(rest));
+
+  const chunks: string[] = [];
+  for (const sentence of sentences) {
+    const last = chunks[chunks.length - 1];
+    if (chunks.length > 1 && last.length < MIN_CHUNK_CHARS && last.length + sentence.length < MAX_CHUNK_CHARS) {
+      chunks[chunks.length - 1] = CJK_STOPS.includes(last[last.length - 1]) ? last + sentence : `${last} ${sentence}`;
+    } else {
+      chunks.push(sentence);
+    }
+  }
+  return chunks;
+}
+
+function splitLongSentence(sentence: string): string[] {
+  if (sentence.length <= MAX_CHUNK_CHARS) return [sentence];
+  const pieces: string[] = [];
+  let rest = sentence;
+  while (rest.length > MAX_CHUNK_CHARS) {
+    // Prefer a clause break, then a word break, in the second half of the window
+    const window = rest.slice(0, MAX_CHUNK_CHARS);
+    let cut = Math.max(window.lastIndexOf(', '), window.lastIndexOf('、'), window.lastIndexOf('; '));
+    if (cut < MAX_CHUNK_CHARS / 2) cut = window.lastIndexOf(' ');
+    if (cut < MAX_CHUNK_CHARS / 2) cut = MAX_CHUNK_CHARS - 1;
+    pieces.push(rest.slice(0, cut + 1).trim());
+    rest = rest.slice(cut + 1).trim();
+  }
+  if (rest) pieces.push(rest);
+  return pieces;
+}
+
+export type NearbyPlayer = {
+  id: string;
+  name: string;
+  distance: number;
+};
+
+/**
+ * Lists the other players within `radius` meters (horizontally) of a position,
+ * nearest first. The agent's own player is never included.
+ */
+export function getPlayersWithin(
+  world: any,
+  position: { x: number; z: number },
+  radius: number
+): NearbyPlayer[] {
+  const agentId = world?.entities?.player?.data?.id;
+  const players: NearbyPlayer[] = [];
+  for (const [id, entity] of world?.entities?.items?.entries() ?? []) {
+    if (entity?.data?.type !== 'player' || id === agentId) continue;
+    const pos = entity?.base?.position || entity?.root?.position;
+    if (!pos) continue;
+    const distance = Math.hypot(pos.x - position.x, pos.z - position.z);
+    if (distance <= radius) {
+      players.push({ id, name: entity?.data?.name || 'Unknown', distance });
+    }
+  }
+  return players.sort((a, b) => a.distance - b.distance);
+}
@@ -0,0 +1,128 @@
+import { logger } from '@elizaos/core'
+import type { VadSettings } from './managers/voice-activity-detector'
+
+export const DEFAULT_HYPERFY_WS_URL = process.env.WS_URL || 'wss://chill.hyperfy.xyz/ws'
+export const DEFAULT_WORLD_NAME = 'home'
+
+// Per-world voice overrides that may be set; durations can't be negative, levels in dB can
+const VAD_DURATION_KEYS = ['minSpeechMs', 'hangoverMs', 'endSilenceMs', 'maxUtteranceMs'] as const
+const VAD_LEVEL_KEYS = ['snrDb', 'minEnergyDb'] as const
+
+export type WorldDirectoryEntry = {
+  name: string
+  wsUrl: string
+  authToken?: string
+  description?: string
+  aliases?: string[]
+  /** Voice endpointing overrides for this world (e.g. a longer endSilenceMs for a talk venue) */
+  voice?: Partial<VadSettings>
+}
+
+/**
+ * Named Hyperfy worlds the agent can travel between at runtime.
+ *
+ * Seeded from the HYPERFY_WORLDS env var (a JSON array of entries) plus a
+ * "home" entry for WS_URL, and editable through `register`/`remove`.
+ */
+export class WorldDirectory {
+  private entries: Map<string, WorldDirectoryEntry> = new Map()
+
+  constructor(entries: WorldDirectoryEntry[] = []) {
+    for (const entry of entries) {
+      this.register(entry)
+    }
+  }
+
+  static fromEnv(): WorldDirectory {
+    const directory = new WorldDirectory()
+    const raw = process.env.HYPERFY_WORLDS
+    if (raw) {
+      try {
+        const parsed = JSON.parse(raw)
+        if (!Array.isArray(parsed)) throw new Error('expected a JSON array')
+        for (const entry of parsed) {
+          directory.register(entry)
+        }
+      } catch (error: any) {
+        logger.error(`[WorldDirectory] Invalid HYPERFY_WORLDS: ${error.message}`)
+      }
+    }
+    if (!directory.findByUrl(DEFAULT_HYPERFY_WS_URL) && !directory.find(DEFAULT_WORLD_NAME)) {
+      directory.register({
+        name: DEFAULT_WORLD_NAME,
+        wsUrl: DEFAULT_HYPERFY_WS_URL,
+        description: 'The default world this agent lives in.',
+      })
+    }
+    return directory
+  }
+
+  register(entry: WorldDirectoryEntry): void {
+    if (!entry?.name || !entry?.wsUrl) {
+      logger.warn(`[WorldDirectory] Skipping entry without name or wsUrl: ${JSON.stringify(entry)}`)
+      return
+    }
+    this.entries.set(entry.name.toLowerCase(), {
+      ...entry,
+      aliases: (entry.aliases || []).filter(Boolean),
+      voice: parseVoiceOverrides(entry.name, entry.voice),
+    })
+    logger.info(`[WorldDirectory] Registered world "${entry.name}" → ${entry.wsUrl}`)
+  }
+
+  remove(name: string): boolean {
+    return this.entries.delete(name.toLowerCase())
+  }
+
+  /**
+   * Looks up a world by name or alias (case-insensitive).
+   */
+  find(nameOrAlias: string): WorldDirectoryEntry | null {
+    const key = nameOrAlias?.trim().toLowerCase()
+    if (!key) return null
+    const direct = this.entries.get(key)
+    if (direct) return direct
+    for (const entry of this.entries.values()) {
+      if (entry.aliases?.some(alias => alias.toLowerCase() === key)) return entry
+    }
+    return null
+  }
+
+  findByUrl(wsUrl: string): WorldDirectoryEntry | null {
+    for (const entry of this.entries.values()) {
+      if (entry.wsUrl === wsUrl) return entry
+    }
+    return null
+  }
+
+  list(): WorldDirectoryEntry[] {
+    return Array.from(this.entries.values())
+  }
+}
+
+/**
+ * Keeps the known voice settings, as numbers. Values from JSON may be strings
+ * ("1200"); anything that isn't a usable number is dropped with a warning.
+ */
+function parseVoiceOverrides(worldName: string, voice: unknown): Partial<VadSettings> | undefined {
+  if (voice == null) return undefined
+  if (typeof voice !== 'object' || Array.isArray(voice)) {
+    logger.warn(`[WorldDirectory] Ignoring voice settings for "${worldName}": expected an object`)
+    return undefined
+  }
+  const overrides: Partial<VadSettings> = {}
+  for (const [key, raw] of Object.entries(voice)) {
+    const isDuration = (VAD_DURATION_KEYS as readonly string[]).includes(key)
+    if (!isDuration && !(VAD_LEVEL_KEYS as readonly string[]).includes(key)) {
+      logger.warn(`[WorldDirectory] Ignoring unknown voice setting "${key}" for "${worldName}"`)
+      continue
+    }
+    const value = typeof raw === 'string' && raw.trim() ? Number(raw) : raw
+    if (typeof value !== 'number' || !Number.isFinite(value) || (isDuration && value < 0)) {
+      logger.warn(`[WorldDirectory] Ignoring voice setting ${key}=${JSON.stringify(raw)} for "${worldName}": expected a ${isDuration ? 'non-negative ' : ''}number`)
+      continue
+    }
+    overrides[key as keyof VadSettings] = value
+  }
+  return Object.keys(overrides).length ? overrides : undefined
+}